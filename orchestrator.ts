@@ -0,0 +1,188 @@
+/**
+ * Local Orchestrator
+ *
+ * Mounts task-executor, deno-executor, the stack processor and the wrapped services in one
+ * process. The ServiceRegistry dispatches calls between them in process instead of over HTTP,
+ * so a task can be submitted and followed to completion from a single command:
+ *
+ *   STORAGE_BACKEND=memory deno task local ./my-task.js '{"customer":"my_customer"}'
+ *
+ * Without arguments the functions are served under /functions/v1/<name>, the same paths
+ * Supabase uses. A task argument that names a file is published as a new task version first.
+ */
+
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+
+interface LocalFunction {
+  name: string;       // Function name other services address it by
+  module: string;
+  required: boolean;  // Optional wrapped services are skipped when they cannot start (e.g. missing API keys)
+}
+
+const LOCAL_FUNCTIONS: LocalFunction[] = [
+  { name: 'wrappedsupabase', module: './services/supabase/index.ts', required: true },
+  { name: 'deno-executor', module: './services/deno-executor/index.ts', required: true },
+  { name: 'simple-stack-processor', module: './services/simple-stack-processor/index.ts', required: true },
+  { name: 'tasks', module: './services/task-executor/index.ts', required: true },
+  { name: 'wrappedkeystore', module: './services/keystore/index.ts', required: false },
+  { name: 'wrappedgapi', module: './services/gapi/index.ts', required: false },
+  { name: 'wrappedopenai', module: './services/openai/index.ts', required: false },
+  { name: 'wrappedwebsearch', module: './services/websearch/index.ts', required: false }
+];
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+const port = parseInt(Deno.env.get('PORT') || '8000', 10);
+const timerPollMs = parseInt(Deno.env.get('LOCAL_TIMER_POLL_MS') || '5000', 10);
+
+// Point every function URL back at this process before any service reads its configuration
+const functionsUrl = `http://localhost:${port}/functions/v1`;
+Deno.env.set('FUNCTIONS_URL', functionsUrl);
+Deno.env.set('INTERNAL_FUNCTIONS_URL', functionsUrl);
+
+// Publishing needs the service role key; a local run without one gets a key for this process only
+if (!Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', crypto.randomUUID());
+}
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const { serviceRegistry } = await import('./shared/core/service-registry.ts');
+const { createStorageClient } = await import('./shared/core/storage-service.ts');
+
+// ==============================
+// Mount Functions
+// ==============================
+
+for (const localFunction of LOCAL_FUNCTIONS) {
+  try {
+    const { handler } = await import(localFunction.module);
+    serviceRegistry.registerLocalHandler(localFunction.name, handler);
+  } catch (error) {
+    if (localFunction.required) {
+      throw error;
+    }
+    console.warn(`⚠️  Skipping ${localFunction.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+serviceRegistry.enableLocalDispatch();
+
+// Timers and signal timeouts are otherwise driven by an external scheduler
+setInterval(() => {
+  serviceRegistry.invokeFunction('simple-stack-processor', '', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ trigger: 'process-timers' })
+  }).then(response => response.body?.cancel()).catch(error => {
+    console.warn(`⚠️  Timer poll failed: ${error instanceof Error ? error.message : String(error)}`);
+  });
+}, timerPollMs);
+
+// ==============================
+// Task Submission
+// ==============================
+
+/**
+ * Publish a task file as a new version of the task named after the file
+ */
+async function publishTaskFile(path: string): Promise<string> {
+  const code = await Deno.readTextFile(path);
+  const name = path.split('/').pop()!.replace(/\.(js|ts)$/, '');
+
+  const response = await serviceRegistry.invokeFunction('tasks', '/publish', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${serviceRoleKey}` },
+    body: JSON.stringify({ task_name: name, code })
+  });
+  const publication = await response.json();
+
+  if (!response.ok) {
+    throw new Error(`Failed to publish ${path}: ${publication.error || response.status}`);
+  }
+
+  console.log(`📦 Published ${path} as task '${name}' version ${publication.data?.version}`);
+  return name;
+}
+
+/**
+ * Submit a task and poll its task run until it finishes
+ */
+async function runTask(taskArg: string, input: Record<string, unknown>): Promise<number> {
+  const isFile = await Deno.stat(taskArg).then(info => info.isFile).catch(() => false);
+  const taskIdentifier = isFile ? await publishTaskFile(taskArg) : taskArg;
+
+  const response = await serviceRegistry.invokeFunction('tasks', '/execute', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ task_identifier: taskIdentifier, input })
+  });
+  const submission = await response.json();
+  const taskRunId = submission.data?.result?.taskRunId;
+
+  if (!response.ok || !taskRunId) {
+    console.error(`❌ Failed to submit ${taskIdentifier}: ${submission.error || response.status}`);
+    return 1;
+  }
+
+  console.log(`🚀 Submitted ${taskIdentifier} as task run ${taskRunId}`);
+
+  const supabase = createStorageClient();
+  let lastStatus = '';
+
+  while (true) {
+    const { data: taskRun, error } = await supabase
+      .from('task_runs')
+      .select('status, result, error')
+      .eq('id', taskRunId)
+      .single();
+
+    if (error) {
+      console.error(`❌ Failed to read task run ${taskRunId}: ${error.message}`);
+      return 1;
+    }
+
+    if (taskRun.status !== lastStatus) {
+      lastStatus = taskRun.status;
+      console.log(`⏳ Task run ${taskRunId}: ${lastStatus}`);
+    }
+
+    if (FINISHED_STATUSES.includes(taskRun.status)) {
+      if (taskRun.status === 'completed') {
+        console.log(`✅ Result: ${JSON.stringify(taskRun.result, null, 2)}`);
+        return 0;
+      }
+      console.error(`❌ ${taskRun.status}: ${typeof taskRun.error === 'string' ? taskRun.error : JSON.stringify(taskRun.error)}`);
+      return 1;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+}
+
+// ==============================
+// Entry Point
+// ==============================
+
+if (Deno.args.length > 0) {
+  const [taskArg, inputArg] = Deno.args;
+  Deno.exit(await runTask(taskArg, inputArg ? JSON.parse(inputArg) : {}));
+}
+
+serve((req: Request) => {
+  const functionName = new URL(req.url).pathname.match(/^\/functions\/v1\/([^/]+)/)?.[1];
+  const handler = functionName ? serviceRegistry.getLocalHandler(functionName) : undefined;
+
+  if (!handler) {
+    return new Response(JSON.stringify({
+      error: 'Not found',
+      functions: LOCAL_FUNCTIONS.filter(({ name }) => serviceRegistry.getLocalHandler(name)).map(({ name }) => name)
+    }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return handler(req);
+}, { port });
+
+console.log(`🚀 Local orchestrator serving ${functionsUrl}`);
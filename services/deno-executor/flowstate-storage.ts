@@ -5,16 +5,16 @@
  * maintaining compatibility with the current stack run structure.
  */
 
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 import { type FlowStateStorage, type FlowStateStoredTask } from 'npm:flowstate@latest';
 import { nowISO } from 'tasker-utils/timestamps';
+import { createStorageClient } from '../_shared/storage-service.ts';
 
 // Environment variables
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
 const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
-// Create Supabase client
-const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+// Create storage client (Supabase unless STORAGE_BACKEND selects a local backend)
+const supabase = createStorageClient({ url: SUPABASE_URL, key: SERVICE_ROLE_KEY });
 
 /**
  * Supabase storage adapter for FlowState
@@ -114,10 +114,13 @@ export class SupabaseFlowStateStorage implements FlowStateStorage {
       case 'pending':
         return 'running';
       case 'suspended_waiting_child':
+      case 'waiting_timer':
+      case 'waiting_signal':
         return 'paused';
       case 'completed':
         return 'completed';
       case 'failed':
+      case 'cancelled':
         return 'error';
       default:
         return 'running';
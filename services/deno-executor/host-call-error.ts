@@ -0,0 +1,40 @@
+/**
+ * Host Call Error for Deno Executor
+ *
+ * Thrown into task code from a pending __callHostTool__ promise when the child stack run
+ * answering the call failed, so tasks can handle failures with try/catch and carry on.
+ */
+
+export interface HostCallErrorDetails {
+  service: string;
+  method: string;
+  status?: number;
+  message: string;
+  stackRunId?: number;
+}
+
+export class HostCallError extends Error {
+  readonly service: string;
+  readonly method: string;
+  readonly status?: number;
+  readonly stackRunId?: number;
+
+  constructor(details: HostCallErrorDetails) {
+    super(details.message);
+    this.name = 'HostCallError';
+    this.service = details.service;
+    this.method = details.method;
+    this.status = details.status;
+    this.stackRunId = details.stackRunId;
+  }
+
+  toJSON(): HostCallErrorDetails {
+    return {
+      service: this.service,
+      method: this.method,
+      status: this.status,
+      message: this.message,
+      stackRunId: this.stackRunId
+    };
+  }
+}
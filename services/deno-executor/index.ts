@@ -7,6 +7,22 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { nowISO } from 'tasker-utils/timestamps';
+import { ReplayJournal, countHostCalls, verifyReportedJournal, type HostCallJournalEntry } from './replay-journal.ts';
+import {
+  describePermissions,
+  deserializeError,
+  serializeError,
+  type SandboxWorkerMessage,
+  type TaskPermissions
+} from './sandbox-protocol.ts';
+import {
+  LimitExceededError,
+  resolveTaskLimits,
+  type TaskLimits
+} from './task-limits.ts';
+import { SandboxProcess } from './sandbox-process.ts';
+import { compileTaskCode, TaskCompileError } from './task-compiler.ts';
+import { TaskLogCollector, type TaskLogEntry } from './task-log-collector.ts';
 
 // No imports from shared dependencies to avoid compilation errors
 
@@ -51,6 +67,15 @@ class MinimalServiceRegistry {
     this.serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
   }
 
+  /**
+   * URL of an edge function - FUNCTIONS_URL overrides the Supabase functions endpoint.
+   * When the local orchestrator mounts the function, fetch() to this URL stays in process.
+   */
+  functionUrl(functionName: string, subPath = ''): string {
+    const functionsUrl = Deno.env.get('FUNCTIONS_URL') || `${this.supabaseUrl}/functions/v1`;
+    return `${functionsUrl}/${functionName}${subPath}`;
+  }
+
   /**
    * Make a direct HTTP call to a wrapped service
    */
@@ -68,7 +93,7 @@ class MinimalServiceRegistry {
       };
 
       const actualServiceName = serviceMap[serviceName] || serviceName;
-      const url = `${this.supabaseUrl}/functions/v1/${actualServiceName}`;
+      const url = this.functionUrl(actualServiceName);
 
       hostLog(logPrefix, "info", `Calling ${serviceName}.${method} via HTTP`);
 
@@ -116,7 +141,7 @@ class MinimalServiceRegistry {
     const logPrefix = `DatabaseCall-${table}`;
 
     try {
-      const url = `${this.supabaseUrl}/functions/v1/wrappedsupabase`;
+      const url = this.functionUrl('wrappedsupabase');
 
       hostLog(logPrefix, "info", `Database ${action} on ${table}`);
 
@@ -162,6 +187,7 @@ interface ExecutionResult {
 
 // Simple types
 interface SerializedVMState {
+  journal?: HostCallJournalEntry[];
   [key: string]: any;
 }
 
@@ -193,33 +219,25 @@ const corsHeaders = {
 // ==============================
 
 /**
- * Make an external service call using the service registry
- * Creates a child stack run and returns suspension data
+ * Suspend a stack run and persist its replay journal in vm_state
+ * A stack run waits on a batch of children, on external signals, or - when only timers
+ * are pending - until resumeAt. Signal waits also resume at resumeAt when they time out.
  */
-async function makeExternalCall(
-  serviceName: string,
-  methodPath: string[],
-  args: any[],
+async function suspendStackRun(
+  stackRunId: string,
   taskRunId: string,
-  stackRunId: string
-): Promise<any> {
+  journal: ReplayJournal,
+  suspension: { childStackRunIds?: number[]; signals?: string[]; resumeAt?: string }
+): Promise<void> {
   const logPrefix = `DenoExecutor-${taskRunId}`;
-
-  hostLog(logPrefix, "info", `External call requested: ${serviceName}.${methodPath.join('.')} - creating child stack run`);
-
-  // Map service names to actual function names
-  const serviceMap: Record<string, string> = {
-    'database': 'wrappedsupabase',
-    'keystore': 'wrappedkeystore',
-    'openai': 'wrappedopenai',
-    'websearch': 'wrappedwebsearch',
-    'gapi': 'wrappedgapi'
-  };
-
-  const actualServiceName = serviceMap[serviceName] || serviceName;
+  const childStackRunIds = suspension.childStackRunIds || [];
+  const signals = suspension.signals || [];
+  const status = childStackRunIds.length > 0
+    ? 'suspended_waiting_child'
+    : signals.length > 0 ? 'waiting_signal' : 'waiting_timer';
 
   // Call wrappedsupabase directly using proper Supabase chain format
-  const insertResult = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/wrappedsupabase`, {
+  const updateResult = await fetch(serviceRegistry.functionUrl('wrappedsupabase'), {
     method: 'POST',
     headers: {
       'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
@@ -228,88 +246,179 @@ async function makeExternalCall(
     body: JSON.stringify({
       chain: [
         { property: 'from', args: ['stack_runs'] },
-        { property: 'insert', args: [[{
-          parent_task_run_id: parseInt(taskRunId),
-          parent_stack_run_id: parseInt(stackRunId),
-          service_name: actualServiceName,
-          method_name: methodPath.join('.'),
-          args: args,
-          status: 'pending',
-          vm_state: null,
-          waiting_on_stack_run_id: null,
-          resume_payload: null
-        }]] },
-        { property: 'select', args: [] }
+        { property: 'update', args: [{
+          status,
+          waiting_on_stack_run_id: childStackRunIds[0] ?? null,
+          waiting_on_stack_run_ids: childStackRunIds,
+          waiting_signals: signals,
+          resume_at: status === 'suspended_waiting_child' ? null : suspension.resumeAt ?? null,
+          vm_state: {
+            stackRunId: parseInt(stackRunId),
+            taskRunId: parseInt(taskRunId),
+            suspended: true,
+            suspendedAt: nowISO(),
+            waitingOnStackRunId: childStackRunIds[0],
+            waitingOnStackRunIds: childStackRunIds,
+            waitingSignals: signals,
+            resumeAt: suspension.resumeAt,
+            journal: journal.toJSON()
+          },
+          updated_at: nowISO()
+        }] },
+        { property: 'eq', args: ['id', parseInt(stackRunId)] }
       ]
     })
   }).then(r => r.json());
 
-  if (!insertResult.success || !insertResult.data) {
-    throw new Error(`Failed to save stack run via service registry: ${insertResult.error || 'Unknown error'}`);
+  if (!updateResult.success || !updateResult.data) {
+    throw new Error(`Failed to update stack run status: ${updateResult.error || 'Unknown error'}`);
   }
 
-  hostLog(logPrefix, "info", `Insert result: ${JSON.stringify(insertResult)}`);
+  if (status === 'waiting_timer') {
+    hostLog(logPrefix, "info", `Updated stack run ${stackRunId} to waiting_timer until ${suspension.resumeAt}`);
+  } else if (status === 'waiting_signal') {
+    hostLog(logPrefix, "info", `Updated stack run ${stackRunId} to waiting_signal for ${signals.join(', ')}${suspension.resumeAt ? ` (timeout ${suspension.resumeAt})` : ''}`);
+  } else {
+    hostLog(logPrefix, "info", `Updated stack run ${stackRunId} to suspended_waiting_child, waiting on ${childStackRunIds.join(', ')}`);
+  }
+}
 
-  // The response structure varies - try different unwrapping paths
-  let insertedRecords = insertResult.data?.data?.data ||  // Full wrapping
-                        insertResult.data?.data ||         // Single wrapping
-                        insertResult.data;                 // No wrapping
+/**
+ * Suspend a stack run on its pending timers and signal waits
+ * It resumes when a signal arrives or the earliest deadline is due, whichever comes first
+ */
+async function suspendOnWaits(
+  waits: HostCallJournalEntry[],
+  journal: ReplayJournal,
+  taskRunId: string,
+  stackRunId: string
+): Promise<any> {
+  const signals = waits.filter(wait => wait.kind === 'signal').map(wait => wait.methodPath[0]);
+  const deadlines = waits.map(wait => wait.resumeAt).filter((deadline): deadline is string => !!deadline);
+  const resumeAt = deadlines.length > 0
+    ? deadlines.reduce((earliest, current) => new Date(current) < new Date(earliest) ? current : earliest)
+    : undefined;
 
-  hostLog(logPrefix, "info", `Inserted records: ${JSON.stringify(insertedRecords)}`);
+  await suspendStackRun(stackRunId, taskRunId, journal, { signals, resumeAt });
 
-  if (!insertedRecords || !Array.isArray(insertedRecords) || insertedRecords.length === 0) {
-    throw new Error(`Failed to get inserted stack run from service registry response. insertResult structure: ${JSON.stringify(insertResult)}`);
-  }
+  return {
+    __hostCallSuspended: true,
+    taskRunId,
+    stackRunIds: [],
+    signals,
+    resumeAt
+  };
+}
 
-  const actualChildStackRunId = insertedRecords[0]?.id;
+/**
+ * Dispatch a batch of unanswered host calls as child stack runs
+ * Creates one child per new call in call order, suspends the parent on the whole batch
+ * and returns the suspension data for the stack processor
+ */
+async function dispatchHostCalls(
+  calls: HostCallJournalEntry[],
+  journal: ReplayJournal,
+  taskRunId: string,
+  stackRunId: string
+): Promise<any> {
+  const logPrefix = `DenoExecutor-${taskRunId}`;
 
-  if (!actualChildStackRunId) {
-    throw new Error('Failed to get child stack run ID from inserted record');
-  }
+  // Map service names to actual function names
+  const serviceMap: Record<string, string> = {
+    'database': 'wrappedsupabase',
+    'keystore': 'wrappedkeystore',
+    'openai': 'wrappedopenai',
+    'websearch': 'wrappedwebsearch',
+    'gapi': 'wrappedgapi'
+  };
 
-  hostLog(logPrefix, "info", `Created child stack run ${actualChildStackRunId} for ${serviceName}.${methodPath.join('.')}`);
+  // Calls replayed as still pending already have a child stack run
+  const newCalls = calls.filter(call => !call.stackRunId);
 
-  // Call wrappedsupabase directly using proper Supabase chain format
-  const updateResult = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/wrappedsupabase`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      chain: [
-        { property: 'from', args: ['stack_runs'] },
-        { property: 'update', args: [{
-          status: 'suspended_waiting_child',
-          waiting_on_stack_run_id: actualChildStackRunId,
-          updated_at: nowISO()
-        }] },
-        { property: 'eq', args: ['id', parseInt(stackRunId)] }
-      ]
-    })
-  }).then(r => r.json());
+  if (newCalls.length > 0) {
+    hostLog(logPrefix, "info", `External calls requested: ${newCalls.map(c => `${c.serviceName}.${c.methodPath.join('.')}`).join(', ')} - creating child stack runs`);
 
-  if (!updateResult.success || !updateResult.data) {
-    throw new Error(`Failed to update stack run status: ${updateResult.error || 'Unknown error'}`);
+    // Call wrappedsupabase directly using proper Supabase chain format
+    const insertResult = await fetch(serviceRegistry.functionUrl('wrappedsupabase'), {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        chain: [
+          { property: 'from', args: ['stack_runs'] },
+          { property: 'insert', args: [newCalls.map(call => ({
+            parent_task_run_id: parseInt(taskRunId),
+            parent_stack_run_id: parseInt(stackRunId),
+            service_name: serviceMap[call.serviceName] || call.serviceName,
+            method_name: call.methodPath.join('.'),
+            args: call.args,
+            status: 'pending',
+            vm_state: null,
+            waiting_on_stack_run_id: null,
+            resume_payload: null
+          }))] },
+          { property: 'select', args: [] }
+        ]
+      })
+    }).then(r => r.json());
+
+    if (!insertResult.success || !insertResult.data) {
+      throw new Error(`Failed to save stack runs via service registry: ${insertResult.error || 'Unknown error'}`);
+    }
+
+    // The response structure varies - try different unwrapping paths
+    const insertedRecords = insertResult.data?.data?.data ||  // Full wrapping
+                            insertResult.data?.data ||         // Single wrapping
+                            insertResult.data;                 // No wrapping
+
+    if (!Array.isArray(insertedRecords) || insertedRecords.length !== newCalls.length) {
+      throw new Error(`Failed to get inserted stack runs from service registry response. insertResult structure: ${JSON.stringify(insertResult)}`);
+    }
+
+    // Ids are assigned in insert order, so sorting by id restores call order
+    const childIds = insertedRecords.map((record: any) => record.id).sort((a: number, b: number) => a - b);
+
+    newCalls.forEach((call, i) => {
+      journal.assignStackRun(call.index, childIds[i]);
+      hostLog(logPrefix, "info", `Created child stack run ${childIds[i]} for ${call.serviceName}.${call.methodPath.join('.')}`);
+    });
   }
 
-  hostLog(logPrefix, "info", `Updated stack run ${stackRunId} to suspended_waiting_child, waiting on ${actualChildStackRunId}`);
+  const waitingOn = calls.map(call => call.stackRunId!);
+
+  // Timers that are still pending are re-evaluated when the task resumes after this batch
+  await suspendStackRun(stackRunId, taskRunId, journal, { childStackRunIds: waitingOn });
 
-  // Create a suspension object that tells the stack processor to wait for this child
-  const suspensionData = {
+  // Suspension object that tells the stack processor to wait for this batch of children
+  return {
     __hostCallSuspended: true,
-    serviceName,
-    methodPath,
-    args,
     taskRunId,
-    stackRunId: actualChildStackRunId  // Return the child stack run ID
+    stackRunId: waitingOn[0],  // First child, kept for single-call consumers
+    stackRunIds: waitingOn,
+    calls: calls.map(call => ({
+      serviceName: call.serviceName,
+      methodPath: call.methodPath,
+      stackRunId: call.stackRunId
+    }))
   };
+}
 
-  // Throw a special error that contains the suspension data
-  // This will stop task execution immediately and be caught by the executor
-  const suspensionError = new Error(`TASK_SUSPENDED`);
-  (suspensionError as any).suspensionData = suspensionData;
-  throw suspensionError;
+/**
+ * Persist captured task output to task_logs
+ */
+async function writeTaskLogs(entries: TaskLogEntry[]): Promise<void> {
+  const insertResult = await serviceRegistry.call('database', 'processChain', [{
+    chain: [
+      { property: 'from', args: ['task_logs'] },
+      { property: 'insert', args: [entries] }
+    ]
+  }]);
+
+  if (!insertResult.success) {
+    throw new Error(insertResult.error || 'Unknown error');
+  }
 }
 
 // ==============================
@@ -317,7 +426,9 @@ async function makeExternalCall(
 // ==============================
 
 /**
- * Secure sandbox for executing task code with proper isolation
+ * Secure sandbox that runs task code in a dedicated worker inside a process of its own. Both
+ * hold only the permissions the task declares, and the task reaches the host through the
+ * message bridge alone.
  */
 class SecureSandbox {
   private taskRunId: string;
@@ -333,33 +444,86 @@ class SecureSandbox {
   }
 
   /**
-   * Execute task code in a secure environment
+   * Execute task code in a sandbox process with the task's permission set. The process is
+   * killed as soon as the task exceeds one of its limits.
    */
-  async execute(taskCode: string, taskInput: any, initialVmState?: SerializedVMState, taskGlobal?: any): Promise<any> {
-    hostLog(this.logPrefix, "info", `Executing task in secure sandbox`);
+  async execute(
+    taskCode: string,
+    taskInput: any,
+    initialVmState?: SerializedVMState,
+    permissions?: TaskPermissions,
+    limits: TaskLimits = resolveTaskLimits(undefined)
+  ): Promise<any> {
+    hostLog(this.logPrefix, "info", `Executing task in sandbox process (permissions: ${describePermissions(permissions)}, limits: ${JSON.stringify(limits)})`);
+
+    if (initialVmState?.resume_payload) {
+      hostLog(this.logPrefix, "info", `Resume payload available for task execution`);
+    }
+
+    // ES modules and TypeScript reach the worker as CommonJS; syntax errors stop here with their location
+    const compiledCode = compileTaskCode(taskCode, this.taskName);
+
+    // Worker permissions need --unstable-worker-options, which the sandbox process is started with
+    const sandbox = new SandboxProcess(`${this.taskName}-${this.stackRunId}`, permissions, limits);
+
+    const logs = new TaskLogCollector(
+      parseInt(this.taskRunId),
+      parseInt(this.stackRunId),
+      writeTaskLogs,
+      error => hostLog(this.logPrefix, "warn", `Failed to write task logs: ${error instanceof Error ? error.message : String(error)}`)
+    );
+
+    const startJournal = initialVmState?.journal || [];
 
     try {
-      // Create a fresh global context for the task if not provided
-      if (!taskGlobal) {
-        taskGlobal = this.createTaskGlobal();
-      }
+      const result = await new Promise<any>((resolve, reject) => {
+        // Limits, pings and the process dying are handled by the sandbox process itself
+        sandbox.onfailure = reject;
+
+        sandbox.onmessage = (message: SandboxWorkerMessage) => {
+          // The worker also runs task code, so a suspension is only dispatched once it checks out against the journal it started with
+          if (message.type === 'suspend') {
+            try {
+              verifyReportedJournal(startJournal, message.journal, message);
+            } catch (error) {
+              sandbox.terminate();
+              reject(error);
+              return;
+            }
 
-      // Handle resume payload if present
-      if (initialVmState?.resume_payload) {
-        taskGlobal._resume_payload = initialVmState.resume_payload;
-        hostLog(this.logPrefix, "info", `Resume payload available for task execution`);
-      }
+            const hostCalls = countHostCalls(message.journal);
+            if (hostCalls > limits.maxHostCalls) {
+              sandbox.exceed({ limit: 'host_calls', value: limits.maxHostCalls, observed: hostCalls });
+              return;
+            }
+          }
 
-      taskGlobal.__callHostTool__ = async function(serviceName: string, methodPath: string | string[], args: any[]) {
-        const methodArray = Array.isArray(methodPath) ? methodPath : [methodPath];
-        return await makeExternalCall(serviceName, methodArray, args, taskGlobal._taskRunId, taskGlobal._stackRunId);
-      };
+          // The task has stopped running once it returns, throws or suspends
+          if (message.type === 'suspend' || message.type === 'result' || message.type === 'error') {
+            sandbox.stopClocks();
+          }
 
-      // Execute the task code in the sandbox
-      const taskFunction = this.compileTaskCode(taskCode, taskGlobal);
+          this.handleWorkerMessage(sandbox, message, logs, resolve, reject);
+        };
+
+        sandbox.start({
+          type: 'start',
+          taskName: this.taskName,
+          taskCode: compiledCode,
+          taskInput,
+          journal: startJournal,
+          maxHostCalls: limits.maxHostCalls
+        });
+      });
 
-      // Execute the task with input
-      const result = await taskFunction(taskInput);
+      if (result && result.__hostCallSuspended === true) {
+        hostLog(this.logPrefix, "info", result.stackRunIds.length > 0
+          ? `Task suspended waiting on ${result.stackRunIds.length} host call(s)`
+          : result.signals.length > 0
+            ? `Task suspended waiting for signal(s) ${result.signals.join(', ')}`
+            : `Task suspended on timer until ${result.resumeAt}`);
+        return result;
+      }
 
       hostLog(this.logPrefix, "info", `Task execution completed successfully`);
       return result;
@@ -367,152 +531,72 @@ class SecureSandbox {
     } catch (error) {
       hostLog(this.logPrefix, "error", `Task execution failed: ${error instanceof Error ? error.message : String(error)}`);
       throw error;
+    } finally {
+      // A task parked on host calls never settles - its process is killed and the task re-executed on resume
+      sandbox.terminate();
+      await logs.flush();
     }
   }
 
   /**
-   * Create a secure global context for task execution
+   * Act on a message from the sandbox worker; suspensions are dispatched with the worker's journal
    */
-  private createTaskGlobal(): any {
-    return {
-      // Console that forwards to host logging
-      console: {
-        log: (...args: any[]) => {
-          const message = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg) : String(arg)).join(' ');
-          hostLog(this.logPrefix, "info", message);
-        },
-        error: (...args: any[]) => {
-          const message = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg) : String(arg)).join(' ');
-          hostLog(this.logPrefix, "error", message);
-        },
-        warn: (...args: any[]) => {
-          const message = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg) : String(arg)).join(' ');
-          hostLog(this.logPrefix, "warn", message);
+  private handleWorkerMessage(
+    sandbox: SandboxProcess,
+    message: SandboxWorkerMessage,
+    logs: TaskLogCollector,
+    resolve: (result: any) => void,
+    reject: (error: unknown) => void
+  ): void {
+    switch (message.type) {
+      case 'log':
+        hostLog(this.logPrefix, message.level === 'debug' ? 'info' : message.level, message.message);
+        if (!message.internal && !message.replaying) {
+          logs.add(message.level, message.message, message.loggedAt);
         }
-      },
-
-      // Host logging function
-      _hostLog: (level: string, message: string) => {
-        hostLog(this.logPrefix, level as any, message);
-      },
+        break;
+
+      case 'request':
+        this.isTaskCancelled().then(
+          value => sandbox.postMessage({ type: 'response', id: message.id, value }),
+          error => sandbox.postMessage({ type: 'response', id: message.id, error: serializeError(error) })
+        );
+        break;
+
+      case 'suspend': {
+        const journal = new ReplayJournal(message.journal);
+        const waiting = message.indices.map(index => journal.entry(index)!);
+        const suspension = message.kind === 'calls'
+          ? dispatchHostCalls(waiting, journal, this.taskRunId, this.stackRunId)
+          : suspendOnWaits(waiting, journal, this.taskRunId, this.stackRunId);
+        suspension.then(resolve, reject);
+        break;
+      }
 
-      // Global context for call tracking
-      _taskRunId: this.taskRunId,
-      _stackRunId: this.stackRunId,
-
-      // Resume payload (will be set if available)
-      _resume_payload: undefined,
-
-      // Safe standard objects
-      Object,
-      Array,
-      String,
-      Number,
-      Boolean,
-      Date,
-      Math,
-      JSON,
-      RegExp,
-
-      // Async utilities
-      Promise,
-      setTimeout,
-      clearTimeout,
-      setInterval,
-      clearInterval,
-
-      // Crypto utilities
-      crypto: {
-        randomUUID: () => crypto.randomUUID()
-      },
+      case 'result':
+        resolve(message.result);
+        break;
 
-      // Module exports
-      module: { exports: {} },
-      exports: {}
-    };
+      case 'error':
+        reject(deserializeError(message.error));
+        break;
+    }
   }
 
   /**
-   * Compile and prepare task code for execution
+   * Whether the task run has been cancelled - answers isCancelled() in the worker
    */
-  private compileTaskCode(taskCode: string, taskGlobal: any): (input: any) => Promise<any> {
-    try {
-      hostLog(this.logPrefix, "info", `Compiling task code...`);
-
-      // Initialize module object in global scope
-      taskGlobal.module = { exports: {} };
-      taskGlobal.exports = taskGlobal.module.exports;
-
-      // Execute the task code directly in the global context to set up module.exports
-      hostLog(this.logPrefix, "info", `Evaluating task code to set up module.exports...`);
-
-      // Create a function that will execute the task code in the proper context
-      // We need to provide module, exports, console, and __callHostTool__ as parameters
-      const executeTaskCode = new Function(
-        'module',
-        'exports',
-        'console',
-        '__callHostTool__',
-        `
-        try {
-          // The task code should have access to module and exports
-          ${taskCode}
-          return module.exports;
-        } catch (error) {
-          console.error('Task code execution error:', error);
-          throw error;
-        }
-      `);
-
-      // Execute the task code to set up module.exports with the proper context
-      const moduleExports = executeTaskCode(
-        taskGlobal.module,
-        taskGlobal.exports,
-        taskGlobal.console,
-        taskGlobal.__callHostTool__
-      );
-      hostLog(this.logPrefix, "info", `Task code executed, module.exports type: ${typeof moduleExports}`);
-
-      // Find the actual task function
-      let taskHandler = moduleExports;
-
-      // If module.exports is not a function, look for a function property
-      if (typeof taskHandler !== 'function') {
-        if (typeof moduleExports === 'object' && moduleExports !== null) {
-          const functionNames = Object.keys(moduleExports);
-          for (const name of functionNames) {
-            if (typeof moduleExports[name] === 'function') {
-              taskHandler = moduleExports[name];
-              hostLog(this.logPrefix, "info", `Found function '${name}' in module.exports`);
-              break;
-            }
-          }
-        }
-      }
-
-      // If still not a function, check the global scope for any exported functions
-      if (typeof taskHandler !== 'function') {
-        const globalFunctionNames = Object.keys(taskGlobal);
-        for (const name of globalFunctionNames) {
-          if (name !== 'module' && name !== 'exports' && typeof taskGlobal[name] === 'function') {
-            taskHandler = taskGlobal[name];
-            hostLog(this.logPrefix, "info", `Found function '${name}' in global scope`);
-            break;
-          }
-        }
-      }
-
-      if (typeof taskHandler !== 'function') {
-        throw new Error(`No valid function found in task code. Module exports type: ${typeof moduleExports}, Available functions: ${Object.keys(taskGlobal).filter(k => typeof taskGlobal[k] === 'function').join(', ')}`);
-      }
-
-      hostLog(this.logPrefix, "info", `Task handler extracted successfully: ${typeof taskHandler}`);
-      return taskHandler;
-    } catch (error) {
-      hostLog(this.logPrefix, "error", `Failed to compile task code: ${error instanceof Error ? error.message : String(error)}`);
-      hostLog(this.logPrefix, "error", `Task code preview: ${taskCode.substring(0, 200)}...`);
-      throw error;
-    }
+  private async isTaskCancelled(): Promise<boolean> {
+    const taskRunResult = await serviceRegistry.call('database', 'processChain', [{
+      chain: [
+        { property: 'from', args: ['task_runs'] },
+        { property: 'select', args: ['status'] },
+        { property: 'eq', args: ['id', parseInt(this.taskRunId)] },
+        { property: 'single', args: [] }
+      ]
+    }]);
+    const taskRun = taskRunResult.data?.data?.data || taskRunResult.data?.data || taskRunResult.data;
+    return taskRun?.status === 'cancelled';
   }
 }
 
@@ -523,44 +607,6 @@ function createSecureSandbox(taskRunId: string, stackRunId: string, taskName: st
   return new SecureSandbox(taskRunId, stackRunId, taskName);
 }
 
-/**
- * Extract suspension data from a suspension error
- */
-async function extractSuspensionDataFromError(error: Error, taskRunId: string, stackRunId: string): Promise<any> {
-  const logPrefix = `SuspensionExtractor-${taskRunId}`;
-
-  try {
-    hostLog(logPrefix, "info", `Extracting suspension data from error: ${error.message}`);
-
-    // Check if the error already has suspensionData attached (from makeExternalCall)
-    if ((error as any).suspensionData) {
-      hostLog(logPrefix, "info", `Found suspension data attached to error`);
-      return (error as any).suspensionData;
-    }
-
-    // Parse the suspension error to extract call context
-    const errorMatch = error.message.match(/TASK_SUSPENDED: External call to (\w+)\.([^ ]+) needs suspension/);
-    if (!errorMatch) {
-      throw new Error('Invalid suspension error format');
-    }
-
-    const serviceName = errorMatch[1];
-    const methodPath = errorMatch[2].split('.');
-
-    hostLog(logPrefix, "info", `Parsed external call: ${serviceName}.${methodPath.join('.')}`);
-
-    // For now, we'll create a basic suspension structure
-    // In a real implementation, you'd extract this from the call context
-    const suspensionData = await makeExternalCall(serviceName, methodPath, [], taskRunId, stackRunId);
-
-    return suspensionData;
-
-  } catch (extractError) {
-    hostLog(logPrefix, "error", `Failed to extract suspension data: ${extractError instanceof Error ? extractError.message : String(extractError)}`);
-    throw extractError;
-  }
-}
-
 // ==============================
 // Task Execution
 // ==============================
@@ -575,7 +621,9 @@ async function executeTask(
   taskRunId: string,
   stackRunId: string,
   toolNames?: string[],
-  initialVmState?: SerializedVMState
+  initialVmState?: SerializedVMState,
+  permissions?: TaskPermissions,
+  limits?: TaskLimits
 ): Promise<any> {
   const logPrefix = `FlowStateExecutor-${taskName}`;
 
@@ -593,7 +641,7 @@ async function executeTask(
     const sandbox = createSecureSandbox(taskRunId, stackRunId, taskName);
 
     // Execute the task in the sandbox
-    const result = await sandbox.execute(taskCode, taskInput, initialVmState);
+    const result = await sandbox.execute(taskCode, taskInput, initialVmState, permissions, limits);
 
     hostLog(logPrefix, "info", `HTTP-based FlowState execution completed`);
 
@@ -607,14 +655,6 @@ async function executeTask(
 
   } catch (error) {
     hostLog(logPrefix, "error", `HTTP-based FlowState execution failed: ${error instanceof Error ? error.message : String(error)}`);
-
-    // Check if this is a suspension error
-    if (error instanceof Error && error.message.includes('TASK_SUSPENDED')) {
-      // Extract suspension data from the error
-      const suspensionData = await extractSuspensionDataFromError(error, taskRunId, stackRunId);
-      return suspensionData;
-    }
-
     throw error;
   }
 }
@@ -623,6 +663,16 @@ async function executeTask(
 // HTTP Handlers
 // ==============================
 
+/**
+ * Error type and details of a task that exceeded a limit or did not compile, recorded on the failed stack run
+ */
+function taskFailure(error: unknown): { errorType?: string; errorDetails?: Record<string, unknown> } {
+  if (error instanceof LimitExceededError || error instanceof TaskCompileError) {
+    return { errorType: error.errorType, errorDetails: { ...error.toJSON() } };
+  }
+  return {};
+}
+
 /**
  * Handle execute requests
  */
@@ -644,7 +694,7 @@ async function handleExecuteRequest(req: Request): Promise<Response> {
     }
     
     const requestData = await req.json();
-    const { taskCode, taskName, taskInput, taskRunId, stackRunId, toolNames, initialVmState } = requestData;
+    const { taskCode, taskName, taskInput, taskRunId, stackRunId, toolNames, initialVmState, taskPermissions, taskLimits } = requestData;
     
     hostLog(logPrefix, "info", `Received request data: ${JSON.stringify({ taskName, taskRunId, stackRunId })}`);
     
@@ -657,7 +707,10 @@ async function handleExecuteRequest(req: Request): Promise<Response> {
       });
     }
     
-    const result = await executeTask(taskCode, taskName, taskInput, taskRunId, stackRunId, toolNames, initialVmState);
+    const result = await executeTask(
+      taskCode, taskName, taskInput, taskRunId, stackRunId, toolNames, initialVmState,
+      taskPermissions, resolveTaskLimits(taskLimits)
+    );
     
     return new Response(JSON.stringify({
       status: 'completed',
@@ -672,7 +725,8 @@ async function handleExecuteRequest(req: Request): Promise<Response> {
     hostLog(logPrefix, "error", `Error in handleExecuteRequest: ${errorMsg}`);
     
     return new Response(JSON.stringify({
-      error: errorMsg
+      error: errorMsg,
+      ...taskFailure(error)
     }), {
       status: 500,
       headers: { ...corsHeaders, "Content-Type": "application/json" }
@@ -690,7 +744,8 @@ async function handleResumeRequest(req: Request): Promise<Response> {
     const requestData = await req.json();
     // Accept either naming convention (stackRunId or stackRunIdToResume)
     const stackRunId = requestData.stackRunId || requestData.stackRunIdToResume;
-    const result = requestData.result || requestData.resultToInject;
+    // Falsy results (0, false, null) are valid call results
+    const result = 'result' in requestData ? requestData.result : requestData.resultToInject;
 
     const resultPreview = result ? JSON.stringify(result).substring(0, 100) : 'undefined';
     hostLog(logPrefix, "info", `Resuming stack run ${stackRunId} with result: ${resultPreview}`);
@@ -760,9 +815,14 @@ async function handleResumeRequest(req: Request): Promise<Response> {
       throw new Error(`Task run ${stackRun.parent_task_run_id} not found: ${errorMessage}`);
     }
 
-    // Get task function code
+    // Resume on the version the run started with; runs from before versioning use the current code
     const taskFunctionResult = await serviceRegistry.call('database', 'processChain', [{
-      chain: [
+      chain: taskRun.task_function_version_id ? [
+        { property: 'from', args: ['task_function_versions'] },
+        { property: 'select', args: [] },
+        { property: 'eq', args: ['id', taskRun.task_function_version_id] },
+        { property: 'single', args: [] }
+      ] : [
         { property: 'from', args: ['task_functions'] },
         { property: 'select', args: [] },
         { property: 'eq', args: ['name', taskRun.task_name] },
@@ -787,7 +847,34 @@ async function handleResumeRequest(req: Request): Promise<Response> {
         innerError: innerTaskFunctionResponse?.error,
         errorMessage
       });
-      throw new Error(`Task function ${taskRun.task_name} not found: ${errorMessage}`);
+      const versionLabel = taskRun.task_function_version_id ? ` version ${taskRun.task_function_version_id}` : '';
+      throw new Error(`Task function ${taskRun.task_name}${versionLabel} not found: ${errorMessage}`);
+    }
+
+    // Answer the calls the stack run was waiting on; earlier calls are already in the journal.
+    // A batch resume carries one entry per child in call order, a single resume just the result
+    const journal = new ReplayJournal(stackRun.vm_state?.journal || []);
+    if (Array.isArray(requestData.results)) {
+      for (const childResult of requestData.results) {
+        if (childResult.status === 'failed') {
+          journal.fail(childResult.stackRunId, childResult.error || `Stack run ${childResult.stackRunId} failed`, childResult.errorStatus);
+        } else {
+          journal.complete(childResult.stackRunId, childResult.result);
+        }
+      }
+      hostLog(logPrefix, "info", `Recorded results of ${requestData.results.length} child stack run(s) in replay journal`);
+    } else if (stackRun.waiting_on_stack_run_id && journal.complete(stackRun.waiting_on_stack_run_id, result)) {
+      hostLog(logPrefix, "info", `Recorded result of child stack run ${stackRun.waiting_on_stack_run_id} in replay journal`);
+    }
+
+    // Timers due by the deadline the stack processor acted on fire regardless of clock skew
+    if (requestData.timersDueAt) {
+      const fired = journal.fireTimers(requestData.timersDueAt);
+      hostLog(logPrefix, "info", `Fired ${fired} timer(s) due by ${requestData.timersDueAt}`);
+    }
+
+    if (requestData.signal && journal.deliverSignal(requestData.signal.name, requestData.signal.payload)) {
+      hostLog(logPrefix, "info", `Delivered signal '${requestData.signal.name}' to replay journal`);
     }
 
     // Execute the task with the injected result
@@ -803,13 +890,21 @@ async function handleResumeRequest(req: Request): Promise<Response> {
         taskName: taskRun.task_name,
         taskInput: taskRun.input,
         toolNames: ["gapi", "keystore", "database"],
-        resume_payload: result
-      }
+        resume_payload: result,
+        journal: journal.toJSON()
+      },
+      // Permissions and limits are fixed when the run starts, like its code
+      stackRun.args?.taskPermissions ?? taskFunction.permissions,
+      resolveTaskLimits(stackRun.args?.taskLimits ?? taskFunction.limits)
     );
 
     // Check if the result is a suspension (task paused again)
     if (taskResult && taskResult.__hostCallSuspended === true) {
-      hostLog(logPrefix, "info", `Task suspended again during resume, child stack run: ${taskResult.stackRunId}`);
+      hostLog(logPrefix, "info", taskResult.stackRunIds.length > 0
+        ? `Task suspended again during resume, child stack runs: ${taskResult.stackRunIds.join(', ')}`
+        : taskResult.signals.length > 0
+          ? `Task suspended again during resume, waiting for signal(s) ${taskResult.signals.join(', ')}`
+          : `Task suspended again during resume, timer due at ${taskResult.resumeAt}`);
 
       return new Response(JSON.stringify({
         status: 'paused',
@@ -834,22 +929,10 @@ async function handleResumeRequest(req: Request): Promise<Response> {
   } catch (error) {
     hostLog(logPrefix, "error", `Task resume failed: ${error instanceof Error ? error.message : String(error)}`);
 
-    // Check if this is a suspension error
-    if (error instanceof Error && error.message.includes('TASK_SUSPENDED')) {
-      const suspensionData = await extractSuspensionDataFromError(error, stackRun.parent_task_run_id.toString(), stackRunId);
-
-      return new Response(JSON.stringify({
-        status: 'paused',
-        suspensionData: suspensionData
-      }), {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      });
-    }
-
     return new Response(JSON.stringify({
       status: 'error',
-      error: error instanceof Error ? error.message : String(error)
+      error: error instanceof Error ? error.message : String(error),
+      ...taskFailure(error)
     }), {
       status: 500,
       headers: { ...corsHeaders, "Content-Type": "application/json" }
@@ -861,7 +944,7 @@ async function handleResumeRequest(req: Request): Promise<Response> {
 // Main Server
 // ==============================
 
-serve(async (req: Request) => {
+export async function handler(req: Request): Promise<Response> {
   try {
     // Handle CORS preflight
     if (req.method === 'OPTIONS') {
@@ -888,6 +971,9 @@ serve(async (req: Request) => {
       }
     });
   }
-});
+}
 
-console.log("🚀 Deno Task Executor with Unified Service Registry started successfully");
+if (import.meta.main) {
+  serve(handler);
+  console.log("🚀 Deno Task Executor with Unified Service Registry started successfully");
+}
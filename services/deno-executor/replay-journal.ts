@@ -0,0 +1,287 @@
+/**
+ * Replay Journal for Deno Executor
+ *
+ * Records every __callHostTool__ invocation, durable timer and signal wait a task makes,
+ * in call order, together with its result. A resumed task is re-executed from the top; calls
+ * that are already in the journal are answered from it and only the unanswered calls
+ * suspend - as one batch when the task issued them concurrently.
+ */
+
+import { nowISO } from 'tasker-utils/timestamps';
+
+// ==============================
+// Types and Interfaces
+// ==============================
+
+export interface HostCallJournalEntry {
+  index: number;
+  kind?: 'call' | 'timer' | 'signal';
+  serviceName: string;
+  methodPath: string[];
+  args: any[];
+  status: 'pending' | 'completed' | 'failed';
+  stackRunId?: number;
+  result?: any;
+  error?: string;
+  errorStatus?: number;
+  resumeAt?: string;
+  recordedAt: string;
+  completedAt?: string;
+}
+
+// ==============================
+// Journal
+// ==============================
+
+export class ReplayJournal {
+  private entries: HostCallJournalEntry[];
+  private cursor = 0;
+
+  constructor(entries: HostCallJournalEntry[] = []) {
+    this.entries = entries.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Whether the task is still re-executing calls that are already journaled
+   */
+  get isReplaying(): boolean {
+    return this.cursor < this.entries.length;
+  }
+
+  /**
+   * Get the journaled entry for the next call made by the task, or null if the call is new.
+   * Throws when the task diverges from the recorded call order, since answering a different
+   * call with a recorded result would silently corrupt the task.
+   */
+  next(serviceName: string, methodPath: string[], kind: 'call' | 'timer' | 'signal' = 'call'): HostCallJournalEntry | null {
+    if (this.cursor >= this.entries.length) {
+      return null;
+    }
+
+    const entry = this.entries[this.cursor];
+    const method = methodPath.join('.');
+    const recordedMethod = entry.methodPath.join('.');
+
+    if ((entry.kind || 'call') !== kind || entry.serviceName !== serviceName || recordedMethod !== method) {
+      throw new Error(
+        `Non-deterministic replay: call #${entry.index} was ${entry.serviceName}.${recordedMethod} ` +
+        `but task now calls ${serviceName}.${method}`
+      );
+    }
+
+    this.cursor++;
+    return entry;
+  }
+
+  /**
+   * Record a new call; its child stack run is attached once the call batch is dispatched
+   */
+  record(serviceName: string, methodPath: string[], args: any[]): HostCallJournalEntry {
+    const entry: HostCallJournalEntry = {
+      index: this.entries.length,
+      serviceName,
+      methodPath,
+      args,
+      status: 'pending',
+      recordedAt: nowISO()
+    };
+
+    this.entries.push(entry);
+    this.cursor = this.entries.length;
+    return entry;
+  }
+
+  /**
+   * Record a durable timer; it is answered once its deadline has passed
+   */
+  recordTimer(methodName: string, args: any[], resumeAt: string): HostCallJournalEntry {
+    const entry = this.record('timer', [methodName], args);
+    entry.kind = 'timer';
+    entry.resumeAt = resumeAt;
+    return entry;
+  }
+
+  /**
+   * Record a wait for an external signal; resumeAt is the optional timeout deadline
+   */
+  recordSignal(signalName: string, args: any[], resumeAt?: string): HostCallJournalEntry {
+    const entry = this.record('signal', [signalName], args);
+    entry.kind = 'signal';
+    entry.resumeAt = resumeAt;
+    return entry;
+  }
+
+  /**
+   * Fire every pending timer and expire every signal wait whose deadline is at or before the given time
+   */
+  fireTimers(dueBy: string | Date): number {
+    const dueTime = new Date(dueBy).getTime();
+    let fired = 0;
+
+    for (const entry of this.entries) {
+      if (entry.status !== 'pending' || !entry.resumeAt || new Date(entry.resumeAt).getTime() > dueTime) {
+        continue;
+      }
+
+      if (entry.kind === 'timer') {
+        entry.status = 'completed';
+      } else if (entry.kind === 'signal') {
+        entry.status = 'failed';
+        entry.error = `Timed out waiting for signal '${entry.methodPath[0]}'`;
+      } else {
+        continue;
+      }
+
+      entry.completedAt = nowISO();
+      fired++;
+    }
+
+    return fired;
+  }
+
+  /**
+   * Answer the oldest pending wait for the named signal with its payload
+   */
+  deliverSignal(signalName: string, payload: any): boolean {
+    const entry = this.entries.find(e => e.kind === 'signal' && e.status === 'pending' && e.methodPath[0] === signalName);
+
+    if (!entry) {
+      return false;
+    }
+
+    entry.status = 'completed';
+    entry.result = payload;
+    entry.completedAt = nowISO();
+    return true;
+  }
+
+  /**
+   * Attach the child stack run that will answer a recorded call
+   */
+  assignStackRun(index: number, stackRunId: number): void {
+    const entry = this.entries[index];
+    if (!entry) {
+      throw new Error(`No journaled call #${index} to attach stack run ${stackRunId} to`);
+    }
+    entry.stackRunId = stackRunId;
+  }
+
+  /**
+   * Store the result of the pending call that was waiting on the given child stack run
+   */
+  complete(stackRunId: number | string, result: any): boolean {
+    const entry = this.findPending(stackRunId);
+
+    if (!entry) {
+      return false;
+    }
+
+    entry.status = 'completed';
+    entry.result = result;
+    entry.completedAt = nowISO();
+    return true;
+  }
+
+  /**
+   * Store the error of the pending call whose child stack run failed, with the HTTP status if known
+   */
+  fail(stackRunId: number | string, error: string, errorStatus?: number): boolean {
+    const entry = this.findPending(stackRunId);
+
+    if (!entry) {
+      return false;
+    }
+
+    entry.status = 'failed';
+    entry.error = error;
+    entry.errorStatus = errorStatus;
+    entry.completedAt = nowISO();
+    return true;
+  }
+
+  /**
+   * The journaled entry for a call index
+   */
+  entry(index: number): HostCallJournalEntry | undefined {
+    return this.entries[index];
+  }
+
+  toJSON(): HostCallJournalEntry[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  private findPending(stackRunId: number | string): HostCallJournalEntry | undefined {
+    const childId = typeof stackRunId === 'string' ? parseInt(stackRunId) : stackRunId;
+    return this.entries.find(e => e.status === 'pending' && e.stackRunId === childId);
+  }
+}
+
+// ==============================
+// Verification
+// ==============================
+
+/**
+ * Number of host calls in a journal - timers and signal waits do not count towards maxHostCalls
+ */
+export function countHostCalls(entries: HostCallJournalEntry[]): number {
+  return entries.filter(entry => !entry.kind || entry.kind === 'call').length;
+}
+
+/**
+ * Check the journal a suspending worker reports against the one it was started with. Task code
+ * runs in the same worker, so nothing it sends is trusted: recorded entries must come back
+ * unchanged, except timers and signal waits whose deadline has passed, new entries may only be
+ * appended unanswered, and the waiting indices must name pending entries of the right kind.
+ */
+export function verifyReportedJournal(
+  started: HostCallJournalEntry[],
+  reported: HostCallJournalEntry[],
+  waiting: { kind: 'calls' | 'waits'; indices: number[] },
+  now: number = Date.now()
+): void {
+  if (!Array.isArray(reported) || reported.length < started.length) {
+    throw new Error('Task worker reported a journal that drops recorded entries');
+  }
+
+  // A timer completes and a signal wait times out once its deadline has passed
+  const firedBy = (entry: HostCallJournalEntry, status: string | undefined) =>
+    !!entry.resumeAt && new Date(entry.resumeAt).getTime() <= now && (
+      (entry.kind === 'timer' && status === 'completed') || (entry.kind === 'signal' && status === 'failed')
+    );
+
+  started.forEach((entry, index) => {
+    const reportedEntry = reported[index];
+    const expected = entry.status === 'pending' && firedBy(entry, reportedEntry?.status)
+      ? { ...entry, status: reportedEntry.status, error: reportedEntry.error, completedAt: reportedEntry.completedAt }
+      : entry;
+
+    if (JSON.stringify(reportedEntry) !== JSON.stringify(expected)) {
+      throw new Error(`Task worker reported a changed journal entry #${index}`);
+    }
+  });
+
+  reported.slice(started.length).forEach((entry, offset) => {
+    const index = started.length + offset;
+    const valid = entry?.index === index &&
+      (entry.status === 'pending' || firedBy(entry, entry.status)) &&
+      entry.stackRunId === undefined &&
+      !('result' in entry);
+
+    if (!valid) {
+      throw new Error(`Task worker reported an invalid new journal entry #${index}`);
+    }
+  });
+
+  if (!Array.isArray(waiting.indices) || waiting.indices.length === 0) {
+    throw new Error('Task worker suspended without naming what it waits on');
+  }
+
+  for (const index of waiting.indices) {
+    const entry = reported[index];
+    const isCall = !!entry && (!entry.kind || entry.kind === 'call');
+
+    if (entry?.status !== 'pending' || isCall !== (waiting.kind === 'calls')) {
+      throw new Error(`Task worker suspended on journal entry #${index}, which it cannot wait on`);
+    }
+  }
+}
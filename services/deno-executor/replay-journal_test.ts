@@ -0,0 +1,113 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { ReplayJournal, countHostCalls, verifyReportedJournal, type HostCallJournalEntry } from "./replay-journal.ts";
+
+const PAST = '2000-01-01T00:00:00.000Z';
+const FUTURE = '2999-01-01T00:00:00.000Z';
+
+// A journal with one answered call and one call still waiting on its child stack run
+function startedJournal(): HostCallJournalEntry[] {
+  const journal = new ReplayJournal();
+  journal.record('database', ['from', 'select'], ['orders']);
+  journal.assignStackRun(0, 10);
+  journal.complete(10, [{ id: 1 }]);
+  journal.record('openai', ['chat'], ['hi']);
+  journal.assignStackRun(1, 11);
+  return journal.toJSON();
+}
+
+Deno.test('ReplayJournal - answers recorded calls in order and records new ones', () => {
+  const journal = new ReplayJournal(startedJournal());
+
+  assertEquals(journal.next('database', ['from', 'select'])?.result, [{ id: 1 }]);
+  assertEquals(journal.next('openai', ['chat'])?.status, 'pending');
+  assertEquals(journal.isReplaying, false);
+  assertEquals(journal.next('gapi', ['send']), null);
+  assertEquals(journal.record('gapi', ['send'], []).index, 2);
+});
+
+Deno.test('ReplayJournal - a task that calls something else on replay fails', () => {
+  const journal = new ReplayJournal(startedJournal());
+
+  assertThrows(() => journal.next('database', ['rpc']), Error, 'Non-deterministic replay');
+});
+
+Deno.test('ReplayJournal - results reach the call whose child stack run answered', () => {
+  const journal = new ReplayJournal(startedJournal());
+
+  assertEquals(journal.complete(99, 'other'), false);
+  assertEquals(journal.fail(11, 'rate limited', 429), true);
+  assertEquals(journal.entry(1)?.errorStatus, 429);
+  assertEquals(journal.complete(11, 'late'), false);
+});
+
+Deno.test('countHostCalls - counts calls but not timers or signal waits', () => {
+  const journal = new ReplayJournal(startedJournal());
+  journal.recordTimer('sleep', [1000], FUTURE);
+  journal.recordSignal('approved', [{}]);
+
+  assertEquals(countHostCalls(journal.toJSON()), 2);
+});
+
+Deno.test('verifyReportedJournal - accepts appended calls and fired deadlines', () => {
+  const started = new ReplayJournal(startedJournal());
+  started.recordTimer('sleep', [1000], PAST);
+  const startEntries = started.toJSON();
+
+  // What the worker does on re-execution: replay, fire the due timer, append a new call and a new timer
+  const worker = new ReplayJournal(startEntries);
+  worker.next('database', ['from', 'select']);
+  worker.next('openai', ['chat']);
+  worker.next('timer', ['sleep'], 'timer');
+  worker.fireTimers(PAST);
+  worker.record('gapi', ['send'], ['mail']);
+  worker.recordTimer('sleep', [0], PAST);
+  worker.fireTimers(PAST);
+
+  verifyReportedJournal(startEntries, worker.toJSON(), { kind: 'calls', indices: [1, 3] });
+});
+
+Deno.test('verifyReportedJournal - refuses a journal with recorded entries changed or dropped', () => {
+  const started = startedJournal();
+
+  const answered = new ReplayJournal(started);
+  answered.complete(11, 'forged');
+  assertThrows(() => verifyReportedJournal(started, answered.toJSON(), { kind: 'calls', indices: [0] }), Error, 'changed journal entry #1');
+
+  const rewritten = started.map(entry => ({ ...entry }));
+  rewritten[0].result = [{ id: 2 }];
+  assertThrows(() => verifyReportedJournal(started, rewritten, { kind: 'calls', indices: [1] }), Error, 'changed journal entry #0');
+
+  assertThrows(() => verifyReportedJournal(started, started.slice(1), { kind: 'calls', indices: [0] }), Error, 'drops recorded entries');
+
+  // A timer whose deadline has not passed cannot be reported as fired
+  const waiting = new ReplayJournal(started);
+  waiting.recordTimer('sleep', [1000], FUTURE);
+  const early = waiting.toJSON();
+  early[2].status = 'completed';
+  assertThrows(() => verifyReportedJournal(waiting.toJSON(), early, { kind: 'calls', indices: [1] }), Error, 'changed journal entry #2');
+});
+
+Deno.test('verifyReportedJournal - refuses new entries that arrive answered', () => {
+  const started = startedJournal();
+  const reported = new ReplayJournal(started);
+  reported.record('gapi', ['send'], []);
+  const entries = reported.toJSON();
+
+  assertThrows(() => verifyReportedJournal(started, [...entries.slice(0, 2), { ...entries[2], status: 'completed', result: 'sent' }], { kind: 'calls', indices: [2] }), Error, 'invalid new journal entry #2');
+  assertThrows(() => verifyReportedJournal(started, [...entries.slice(0, 2), { ...entries[2], stackRunId: 10 }], { kind: 'calls', indices: [2] }), Error, 'invalid new journal entry #2');
+  assertThrows(() => verifyReportedJournal(started, [...entries.slice(0, 2), { ...entries[2], index: 5 }], { kind: 'calls', indices: [2] }), Error, 'invalid new journal entry #2');
+});
+
+Deno.test('verifyReportedJournal - refuses waits on entries that are answered or of the other kind', () => {
+  const started = startedJournal();
+  const reported = new ReplayJournal(started);
+  reported.recordSignal('approved', [{}]);
+  const entries = reported.toJSON();
+
+  assertThrows(() => verifyReportedJournal(started, entries, { kind: 'calls', indices: [0] }), Error, 'entry #0');
+  assertThrows(() => verifyReportedJournal(started, entries, { kind: 'calls', indices: [2] }), Error, 'entry #2');
+  assertThrows(() => verifyReportedJournal(started, entries, { kind: 'waits', indices: [1] }), Error, 'entry #1');
+  assertThrows(() => verifyReportedJournal(started, entries, { kind: 'waits', indices: [7] }), Error, 'entry #7');
+  assertThrows(() => verifyReportedJournal(started, entries, { kind: 'waits', indices: [] }), Error, 'without naming');
+  verifyReportedJournal(started, entries, { kind: 'waits', indices: [2] });
+});
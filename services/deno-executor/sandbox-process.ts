@@ -0,0 +1,285 @@
+/**
+ * Sandbox Process for Deno Executor
+ *
+ * Runs one execution of a task in a Deno process of its own (see sandbox-runner.ts) and holds
+ * it to its limits. Terminating a worker thread does not reliably stop task code spinning in a
+ * loop, so the executor kills the whole process instead: SIGKILL ends it however the task is
+ * spending its time.
+ *
+ * The process gets the permissions the task declares and nothing more, apart from reading the
+ * sandbox's own modules; the worker inside it, where task code runs, does not get even that.
+ * Its environment holds only the variables the task may read.
+ */
+
+import {
+  readLines,
+  toWorkerPermissions,
+  type SandboxHostMessage,
+  type SandboxProcessInit,
+  type SandboxWorkerMessage
+} from './sandbox-protocol.ts';
+import {
+  LIMIT_SAMPLE_INTERVAL_MS,
+  LimitExceededError,
+  type LimitExceededDetails,
+  type TaskLimits
+} from './task-limits.ts';
+
+// Bare specifiers in the sandbox's module graph, resolved with the executor's own import map
+const SANDBOX_BARE_IMPORTS = ['tasker-utils/timestamps'];
+
+// Host variables the process needs to find Deno's module cache
+const PROCESS_ENV = ['HOME', 'DENO_DIR'];
+
+// How much of the process's stderr is kept to explain an unexpected exit
+const STDERR_TAIL_LENGTH = 4000;
+
+/**
+ * Import map for the sandbox's modules, and the files the process has to read to load them
+ */
+function sandboxModules(): { importMap: string; paths: string[] } {
+  const imports = Object.fromEntries(SANDBOX_BARE_IMPORTS.map(specifier => [specifier, import.meta.resolve(specifier)]));
+  const paths = [new URL('.', import.meta.url), ...Object.values(imports).map(url => new URL(url))]
+    .filter(url => url.protocol === 'file:')
+    .map(url => decodeURIComponent(url.pathname));
+
+  return { importMap: `data:application/json,${encodeURIComponent(JSON.stringify({ imports }))}`, paths };
+}
+
+/**
+ * Command line flags granting a process the task's worker permissions, plus read access to extra paths
+ */
+function permissionFlags(permissions: Record<string, boolean | string[]>, readPaths: string[]): string[] {
+  return ['net', 'env', 'read', 'write'].flatMap(name => {
+    const value = permissions[name];
+    if (value === true) {
+      return [`--allow-${name}`];
+    }
+
+    const granted = [...(Array.isArray(value) ? value : []), ...(name === 'read' ? readPaths : [])];
+    return granted.length > 0 ? [`--allow-${name}=${granted.join(',')}`] : [];
+  });
+}
+
+function hostEnv(names: string[]): Record<string, string> {
+  return Object.fromEntries(names.flatMap(name => {
+    const value = Deno.env.get(name);
+    return value === undefined ? [] : [[name, value]];
+  }));
+}
+
+/**
+ * One task execution in its own process. Messages from the worker other than pings and limit
+ * reports go to onmessage; onfailure is called once if the task exceeds a limit or the process
+ * dies, and the process is gone by then either way.
+ */
+export class SandboxProcess {
+  onmessage: ((message: SandboxWorkerMessage) => void) | null = null;
+  onfailure: ((error: Error) => void) | null = null;
+  readonly exited: Promise<Deno.CommandStatus>;
+
+  private child: Deno.ChildProcess;
+  private stdin: WritableStreamDefaultWriter<Uint8Array>;
+  private token = crypto.randomUUID();
+  private limits: TaskLimits;
+  private killed = false;
+  private ready = false;
+  private stderrTail = '';
+
+  private startMessage?: SandboxHostMessage;
+  private wallClockTimer?: ReturnType<typeof setTimeout>;
+  private sampleTimer?: ReturnType<typeof setInterval>;
+
+  // A ping is answered only once task code yields, so its latency is time spent running
+  private busyMs = 0;
+  private pingId = 0;
+  private pingSentAt?: number;
+
+  constructor(name: string, permissions: unknown, limits: TaskLimits) {
+    const workerPermissions = toWorkerPermissions(permissions);
+    const modules = sandboxModules();
+    const taskEnv = Array.isArray(workerPermissions.env) ? workerPermissions.env : [];
+    this.limits = limits;
+
+    this.child = new Deno.Command(Deno.execPath(), {
+      args: [
+        'run',
+        '--quiet',
+        '--no-config',
+        '--no-prompt',
+        '--unstable-worker-options',
+        `--import-map=${modules.importMap}`,
+        // V8 enforces the heap limit itself as well, whatever the worker reports
+        `--v8-flags=--max-old-space-size=${Math.ceil(limits.heapMb)}`,
+        ...permissionFlags(workerPermissions, modules.paths),
+        new URL('./sandbox-runner.ts', import.meta.url).href
+      ],
+      clearEnv: true,
+      env: hostEnv([...PROCESS_ENV, ...taskEnv]),
+      stdin: 'piped',
+      stdout: 'piped',
+      stderr: 'piped'
+    }).spawn();
+
+    this.stdin = this.child.stdin.getWriter();
+    this.write({ token: this.token, name, permissions: workerPermissions } satisfies SandboxProcessInit);
+
+    const stderrRead = this.readStderr();
+    this.readMessages();
+    this.exited = this.child.status;
+    Promise.all([this.exited, stderrRead]).then(([status]) => {
+      if (!this.killed) {
+        this.fail(this.exitError(status));
+      }
+    });
+  }
+
+  /**
+   * Start the task. The wall clock runs from now; the CPU clock once the worker is up to answer pings.
+   */
+  start(message: SandboxHostMessage & { type: 'start' }): void {
+    const startedAt = Date.now();
+    this.wallClockTimer = setTimeout(() => {
+      this.exceed({ limit: 'wall_clock', value: this.limits.wallClockMs, observed: Date.now() - startedAt });
+    }, this.limits.wallClockMs);
+
+    this.startMessage = message;
+    if (this.ready) {
+      this.beginSampling();
+    }
+  }
+
+  postMessage(message: SandboxHostMessage): void {
+    this.write(message);
+  }
+
+  /**
+   * Stop the limit clocks once the task has returned, thrown or suspended
+   */
+  stopClocks(): void {
+    clearTimeout(this.wallClockTimer);
+    clearInterval(this.sampleTimer);
+  }
+
+  /**
+   * Kill the process and fail the execution with the limit it exceeded
+   */
+  exceed(details: LimitExceededDetails): void {
+    this.fail(new LimitExceededError(details));
+  }
+
+  /**
+   * Kill the process. SIGKILL cannot be caught or delayed by anything the task does.
+   */
+  terminate(): void {
+    this.stopClocks();
+    if (this.killed) return;
+    this.killed = true;
+
+    try {
+      this.child.kill('SIGKILL');
+    } catch {
+      // Already exited
+    }
+    this.stdin.close().catch(() => {});
+  }
+
+  private fail(error: Error): void {
+    const failed = !this.killed;
+    this.terminate();
+    if (failed) {
+      this.onfailure?.(error);
+    }
+  }
+
+  private beginSampling(): void {
+    if (!this.startMessage) return;
+
+    this.write(this.startMessage);
+    this.sampleTimer = setInterval(() => {
+      const now = Date.now();
+
+      if (this.pingSentAt === undefined) {
+        this.pingSentAt = now;
+        this.write({ type: 'ping', id: ++this.pingId });
+      } else if (this.busyMs + now - this.pingSentAt > this.limits.cpuMs) {
+        this.exceed({ limit: 'cpu', value: this.limits.cpuMs, observed: this.busyMs + now - this.pingSentAt });
+      }
+    }, LIMIT_SAMPLE_INTERVAL_MS);
+  }
+
+  private receive(message: SandboxWorkerMessage): void {
+    if (message.type === 'ready') {
+      this.ready = true;
+      this.beginSampling();
+      return;
+    }
+
+    if (message.type === 'pong') {
+      // Only the answer to the outstanding ping ends it; anything else would reset the CPU clock early
+      if (this.pingSentAt === undefined || message.id !== this.pingId) {
+        return;
+      }
+
+      this.busyMs += Date.now() - this.pingSentAt;
+      this.pingSentAt = undefined;
+
+      const heapMb = Math.round(message.heapUsed / 1024 / 1024);
+      if (heapMb > this.limits.heapMb) {
+        this.exceed({ limit: 'heap', value: this.limits.heapMb, observed: heapMb });
+      }
+      return;
+    }
+
+    if (message.type === 'limit') {
+      this.exceed(message.limit);
+      return;
+    }
+
+    this.onmessage?.(message);
+  }
+
+  private write(message: SandboxHostMessage | SandboxProcessInit): void {
+    if (this.killed) return;
+    this.stdin.write(new TextEncoder().encode(`${JSON.stringify(message)}\n`)).catch(() => {});
+  }
+
+  private async readMessages(): Promise<void> {
+    try {
+      for await (const line of readLines(this.child.stdout)) {
+        // Lines without the token were written to stdout by task code, not by the runner
+        const at = line.indexOf(this.token);
+        if (at === -1 || this.killed) continue;
+
+        let message: SandboxWorkerMessage;
+        try {
+          message = JSON.parse(line.slice(at + this.token.length));
+        } catch {
+          continue;
+        }
+        this.receive(message);
+      }
+    } catch {
+      // The process was killed mid-read
+    }
+  }
+
+  private async readStderr(): Promise<void> {
+    try {
+      for await (const line of readLines(this.child.stderr)) {
+        this.stderrTail = `${this.stderrTail}${line}\n`.slice(-STDERR_TAIL_LENGTH);
+      }
+    } catch {
+      // The process was killed mid-read
+    }
+  }
+
+  private exitError(status: Deno.CommandStatus): Error {
+    if (/out of memory/i.test(this.stderrTail)) {
+      return new LimitExceededError({ limit: 'heap', value: this.limits.heapMb });
+    }
+
+    const output = this.stderrTail.trim();
+    return new Error(`Task process exited with code ${status.code}${output ? `: ${output}` : ''}`);
+  }
+}
@@ -0,0 +1,45 @@
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { SandboxProcess } from "./sandbox-process.ts";
+import { LimitExceededError, type TaskLimits } from "./task-limits.ts";
+import type { SandboxWorkerMessage } from "./sandbox-protocol.ts";
+
+const LIMITS: TaskLimits = { wallClockMs: 20000, cpuMs: 500, heapMb: 256, maxHostCalls: 10 };
+
+/**
+ * Run CommonJS task code in a sandbox process until it returns, throws or fails
+ */
+function run(taskCode: string, limits = LIMITS): { sandbox: SandboxProcess; outcome: Promise<SandboxWorkerMessage | Error> } {
+  const sandbox = new SandboxProcess('test-task', undefined, limits);
+  const outcome = new Promise<SandboxWorkerMessage | Error>(resolve => {
+    sandbox.onfailure = resolve;
+    sandbox.onmessage = message => {
+      if (message.type === 'result' || message.type === 'error') {
+        resolve(message);
+      }
+    };
+  });
+
+  sandbox.start({ type: 'start', taskName: 'test-task', taskCode, taskInput: { n: 2 }, journal: [], maxHostCalls: limits.maxHostCalls });
+  return { sandbox, outcome };
+}
+
+Deno.test('SandboxProcess - returns the task result from its own process', async () => {
+  const { sandbox, outcome } = run('module.exports = async function(input) { return input.n * 21; };');
+
+  assertEquals(await outcome, { type: 'result', result: 42 });
+  sandbox.terminate();
+  await sandbox.exited;
+});
+
+Deno.test('SandboxProcess - a busy loop past cpuMs is killed with its process', async () => {
+  const { sandbox, outcome } = run('module.exports = async function() { while (true) {} };');
+
+  const error = await outcome;
+  assert(error instanceof LimitExceededError, String(error));
+  assertEquals(error.limit, 'cpu');
+  assert(error.observed! > LIMITS.cpuMs);
+
+  // The loop ends with the process, not when the worker gets round to checking
+  const status = await sandbox.exited;
+  assertEquals(status.signal, 'SIGKILL');
+});
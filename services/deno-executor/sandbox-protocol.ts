@@ -0,0 +1,203 @@
+/**
+ * Sandbox Protocol for Deno Executor
+ *
+ * Messages exchanged between the executor and the worker that runs task code, and the
+ * permission sets a task may declare. A task gets no net, env, read or write access unless
+ * its task function grants it; run, ffi and sys are never granted to task code.
+ */
+
+import type { HostCallJournalEntry } from './replay-journal.ts';
+import { HostCallError, type HostCallErrorDetails } from './host-call-error.ts';
+import type { LimitExceededDetails } from './task-limits.ts';
+
+// ==============================
+// Permissions
+// ==============================
+
+export const GRANTABLE_PERMISSIONS = ['net', 'env', 'read', 'write'] as const;
+
+export type GrantablePermission = typeof GRANTABLE_PERMISSIONS[number];
+
+// Declared alongside worker permissions but enforced outside the worker, on the task's host calls
+const HOST_PERMISSIONS = ['keystore'];
+
+/**
+ * Host environment variables the operator lets tasks read (TASK_ENV_ALLOWLIST, comma separated).
+ * A task's env grant must name its variables and every name must be on this list; the host
+ * environment is never handed over whole.
+ */
+export function taskEnvAllowlist(): string[] {
+  return (Deno.env.get('TASK_ENV_ALLOWLIST') || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Permission set declared in task_functions.permissions, e.g. { "net": ["api.example.com"] }
+ */
+export type TaskPermissions = Partial<Record<GrantablePermission, boolean | string[]>>;
+
+/**
+ * Resolve a declared permission set, denying everything it does not grant.
+ * Throws on anything malformed so a bad declaration never widens access.
+ */
+export function normalizeTaskPermissions(declared: unknown): Required<TaskPermissions> {
+  const permissions: Required<TaskPermissions> = { net: false, env: false, read: false, write: false };
+
+  if (declared === null || declared === undefined) {
+    return permissions;
+  }
+
+  if (typeof declared !== 'object' || Array.isArray(declared)) {
+    throw new Error('Task permissions must be an object');
+  }
+
+  for (const [name, value] of Object.entries(declared)) {
+    if (HOST_PERMISSIONS.includes(name)) {
+      continue;
+    }
+
+    if (!(GRANTABLE_PERMISSIONS as readonly string[]).includes(name)) {
+      throw new Error(`Permission '${name}' cannot be granted to task code`);
+    }
+
+    if (typeof value !== 'boolean' && !(Array.isArray(value) && value.every(item => typeof item === 'string'))) {
+      throw new Error(`Permission '${name}' must be a boolean or a list of strings`);
+    }
+
+    if (name === 'env' && value !== false) {
+      const allowlist = taskEnvAllowlist();
+      if (!Array.isArray(value)) {
+        throw new Error("Permission 'env' must list the variables it grants");
+      }
+      const refused = value.filter(variable => !allowlist.includes(variable));
+      if (refused.length > 0) {
+        throw new Error(`Environment variables not in TASK_ENV_ALLOWLIST: ${refused.join(', ')}`);
+      }
+    }
+
+    permissions[name as GrantablePermission] = value;
+  }
+
+  return permissions;
+}
+
+/**
+ * Deno worker permissions for a task: its grants plus an explicit denial of everything else
+ */
+export function toWorkerPermissions(declared: unknown): Record<string, boolean | string[]> {
+  return {
+    ...normalizeTaskPermissions(declared),
+    run: false,
+    ffi: false,
+    sys: false
+  };
+}
+
+/**
+ * Short description of the granted permissions for logs
+ */
+export function describePermissions(declared: unknown): string {
+  const granted = Object.entries(normalizeTaskPermissions(declared))
+    .filter(([, value]) => value !== false)
+    .map(([name, value]) => Array.isArray(value) ? `${name}=${value.join(',')}` : name);
+
+  return granted.length > 0 ? granted.join(' ') : 'none';
+}
+
+// ==============================
+// Messages
+// ==============================
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  hostCall?: HostCallErrorDetails;
+}
+
+/**
+ * Messages the executor sends to the worker. Pings sample the worker for the CPU and heap limits,
+ * and a pong counts only when it answers the ping still outstanding
+ */
+export type SandboxHostMessage =
+  | { type: 'start'; taskName: string; taskCode: string; taskInput: any; journal: HostCallJournalEntry[]; maxHostCalls: number }
+  | { type: 'response'; id: number; value?: any; error?: SerializedError }
+  | { type: 'ping'; id: number };
+
+export type TaskLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Messages the worker sends to the executor. A suspension carries the journal with the
+ * unanswered entries named by index - calls when there are any, otherwise timer and signal waits.
+ * Logs are the task's own output unless internal; output repeated while replaying the journal is flagged.
+ * The worker says it is ready once it can answer pings
+ */
+export type SandboxWorkerMessage =
+  | { type: 'log'; level: TaskLogLevel; message: string; internal?: boolean; replaying?: boolean; loggedAt: string }
+  | { type: 'request'; id: number; name: 'isCancelled' }
+  | { type: 'suspend'; kind: 'calls' | 'waits'; indices: number[]; journal: HostCallJournalEntry[] }
+  | { type: 'result'; result: any }
+  | { type: 'error'; error: SerializedError }
+  | { type: 'pong'; id: number; heapUsed: number }
+  | { type: 'limit'; limit: LimitExceededDetails }
+  | { type: 'ready' };
+
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof HostCallError) {
+    return { name: error.name, message: error.message, stack: error.stack, hostCall: error.toJSON() };
+  }
+
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+
+  return { name: 'Error', message: String(error) };
+}
+
+export function deserializeError(serialized: SerializedError): Error {
+  if (serialized.hostCall) {
+    return new HostCallError(serialized.hostCall);
+  }
+
+  const error = new Error(serialized.message);
+  error.name = serialized.name;
+  if (serialized.stack) {
+    error.stack = serialized.stack;
+  }
+  return error;
+}
+
+// ==============================
+// Process Framing
+// ==============================
+
+/**
+ * First line the executor writes to a sandbox process: the worker to start and the token the
+ * process puts in front of each message on stdout. Task code never sees the token, so it cannot
+ * pass anything it writes to stdout off as a message.
+ */
+export interface SandboxProcessInit {
+  token: string;
+  name: string;
+  permissions: Record<string, boolean | string[]>;
+}
+
+/**
+ * Split a byte stream into lines; messages cross the process boundary as one JSON value per line
+ */
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for await (const chunk of stream) {
+    buffered += decoder.decode(chunk, { stream: true });
+
+    let newline;
+    while ((newline = buffered.indexOf('\n')) !== -1) {
+      yield buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+    }
+  }
+}
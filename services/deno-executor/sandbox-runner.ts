@@ -0,0 +1,62 @@
+/**
+ * Sandbox Runner for Deno Executor
+ *
+ * Entry point of the process a task runs in. It starts the sandbox worker with the task's
+ * permissions and relays messages between the worker and the executor, one JSON message per
+ * line over stdin and stdout. The executor kills the whole process when the task exceeds a
+ * limit, so task code stuck in a loop cannot keep running on the executor's behalf.
+ */
+
+import {
+  readLines,
+  serializeError,
+  type SandboxProcessInit,
+  type SandboxWorkerMessage
+} from './sandbox-protocol.ts';
+
+const lines = readLines(Deno.stdin.readable);
+
+// Read before the worker exists, so task code never gets a chance to take the token off stdin
+const { value: initLine } = await lines.next();
+const init: SandboxProcessInit = JSON.parse(initLine ?? '{}');
+
+const encoder = new TextEncoder();
+const stdout = Deno.stdout.writable.getWriter();
+
+function send(message: SandboxWorkerMessage): void {
+  let line: string;
+  try {
+    line = JSON.stringify(message);
+  } catch (error) {
+    line = JSON.stringify({
+      type: 'error',
+      error: serializeError(new Error(`Task message cannot be returned: ${error instanceof Error ? error.message : String(error)}`))
+    } satisfies SandboxWorkerMessage);
+  }
+  stdout.write(encoder.encode(`${init.token}${line}\n`));
+}
+
+const worker = new Worker(new URL('./sandbox-worker.ts', import.meta.url).href, {
+  type: 'module',
+  name: init.name,
+  deno: { permissions: init.permissions }
+} as WorkerOptions);
+
+worker.onmessage = (event: MessageEvent<SandboxWorkerMessage>) => send(event.data);
+worker.onerror = (event: ErrorEvent) => {
+  event.preventDefault();
+  send({ type: 'error', error: serializeError(new Error(`Task worker failed: ${event.message}`)) });
+};
+worker.onmessageerror = () => {
+  send({ type: 'error', error: serializeError(new Error('Task worker sent a message that could not be deserialized')) });
+};
+
+for await (const line of lines) {
+  if (line) {
+    worker.postMessage(JSON.parse(line));
+  }
+}
+
+// The executor closed stdin: it is done with this task
+worker.terminate();
+Deno.exit(0);
@@ -0,0 +1,330 @@
+/**
+ * Sandbox Worker for Deno Executor
+ *
+ * Runs task code in its own isolate, started with only the permissions the task declares.
+ * The task reaches the host solely through messages: __callHostTool__, timers and signal
+ * waits are answered from the replay journal inside the worker, and whatever is still
+ * unanswered is handed to the executor as one suspension.
+ */
+
+/// <reference lib="deno.worker" />
+
+import { ReplayJournal, countHostCalls, type HostCallJournalEntry } from './replay-journal.ts';
+import { HostCallError } from './host-call-error.ts';
+import {
+  deserializeError,
+  serializeError,
+  type SandboxHostMessage,
+  type SandboxWorkerMessage,
+  type TaskLogLevel
+} from './sandbox-protocol.ts';
+
+// ==============================
+// Host Bridge
+// ==============================
+
+// Captured before any task code runs; task code finds the globals locked (see lockHostBridge)
+const postToHost = self.postMessage.bind(self);
+const memoryUsage = Deno.memoryUsage.bind(Deno);
+
+function post(message: SandboxWorkerMessage): void {
+  postToHost(message);
+}
+
+const pendingRequests = new Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }>();
+let nextRequestId = 0;
+
+/**
+ * Ask the executor for something only it can reach and wait for the answer
+ */
+function request(name: 'isCancelled'): Promise<any> {
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    post({ type: 'request', id, name });
+  });
+}
+
+function formatArgs(args: any[]): string {
+  return args.map(arg => typeof arg === 'object' ? JSON.stringify(arg) : String(arg)).join(' ');
+}
+
+// Set once the task starts; output re-emitted while replaying was captured by an earlier execution
+let isReplaying = () => false;
+
+function log(level: TaskLogLevel, message: string, internal = false): void {
+  post({ type: 'log', level, message, internal, replaying: isReplaying(), loggedAt: new Date().toISOString() });
+}
+
+// Console that forwards to host logging, where the task's output is captured to task_logs
+const sandboxConsole = {
+  log: (...args: any[]) => log('info', formatArgs(args)),
+  info: (...args: any[]) => log('info', formatArgs(args)),
+  debug: (...args: any[]) => log('debug', formatArgs(args)),
+  warn: (...args: any[]) => log('warn', formatArgs(args)),
+  error: (...args: any[]) => log('error', formatArgs(args))
+};
+
+function hostLog(level: string, message: string): void {
+  log(['debug', 'info', 'warn', 'error'].includes(level) ? level as TaskLogLevel : 'info', String(message));
+}
+
+// ==============================
+// Task Execution
+// ==============================
+
+/**
+ * Run the task until it returns, throws, or parks on calls the journal cannot answer.
+ * Unanswered calls are collected into one batch until the task yields to the event loop,
+ * so Promise.all fans out to concurrent children.
+ */
+async function runTask(taskCode: string, taskInput: any, entries: HostCallJournalEntry[], maxHostCalls: number): Promise<void> {
+  const journal = new ReplayJournal(entries);
+  const batch: HostCallJournalEntry[] = [];
+  let hostCalls = countHostCalls(entries);
+  let finished = false;
+  isReplaying = () => journal.isReplaying;
+
+  const flushBatch = () => {
+    if (finished) return;
+    finished = true;
+
+    const waiting = batch.splice(0);
+    const calls = waiting.filter(entry => !entry.kind || entry.kind === 'call');
+    post({
+      type: 'suspend',
+      kind: calls.length > 0 ? 'calls' : 'waits',
+      indices: (calls.length > 0 ? calls : waiting).map(entry => entry.index),
+      journal: journal.toJSON()
+    });
+  };
+
+  const park = (entry: HostCallJournalEntry) => {
+    if (!finished) {
+      if (batch.length === 0) {
+        setTimeout(flushBatch, 0);
+      }
+      batch.push(entry);
+    }
+
+    // Never settles - the worker is terminated here and the task re-executed once the batch is answered
+    return new Promise(() => {});
+  };
+
+  // Durable timers suspend the stack run instead of keeping the executor alive
+  const waitForTimer = (methodName: string, args: any[], resumeAt: Date): Promise<void> => {
+    if (isNaN(resumeAt.getTime())) {
+      return Promise.reject(new Error(`${methodName}: invalid deadline ${JSON.stringify(args[0])}`));
+    }
+
+    const entry = journal.next('timer', [methodName], 'timer') ?? journal.recordTimer(methodName, args, resumeAt.toISOString());
+
+    if (entry.status === 'pending' && new Date(entry.resumeAt!).getTime() <= Date.now()) {
+      journal.fireTimers(entry.resumeAt!);
+    }
+
+    if (entry.status === 'completed') {
+      return Promise.resolve();
+    }
+
+    return park(entry) as Promise<void>;
+  };
+
+  const sleep = (ms: number) => waitForTimer('sleep', [ms], new Date(Date.now() + Number(ms)));
+  const waitUntil = (date: Date | string | number) => waitForTimer('waitUntil', [date], new Date(date));
+
+  // Lets a task notice a cancel request between steps and clean up - read live, never journaled
+  const isCancelled = (): Promise<boolean> => request('isCancelled');
+
+  // External signals are delivered through the task-executor signal route
+  const waitForSignal = (signalName: string, options: { timeoutMs?: number } = {}): Promise<any> => {
+    const timeoutAt = options.timeoutMs !== undefined
+      ? new Date(Date.now() + Number(options.timeoutMs)).toISOString()
+      : undefined;
+    const entry = journal.next('signal', [signalName], 'signal') ?? journal.recordSignal(signalName, [options], timeoutAt);
+
+    if (entry.status === 'pending' && entry.resumeAt && new Date(entry.resumeAt).getTime() <= Date.now()) {
+      journal.fireTimers(entry.resumeAt);
+    }
+
+    if (entry.status === 'completed') {
+      log('info', `Replaying signal '${signalName}' from journal (call #${entry.index})`, true);
+      return Promise.resolve(entry.result);
+    }
+
+    if (entry.status === 'failed') {
+      return Promise.reject(new Error(entry.error));
+    }
+
+    return park(entry);
+  };
+
+  const __callHostTool__ = async function(serviceName: string, methodPath: string | string[], args: any[]) {
+    const methodArray = Array.isArray(methodPath) ? methodPath : [methodPath];
+    let entry = journal.next(serviceName, methodArray);
+
+    if (!entry) {
+      // Reported to the executor rather than thrown, so task code cannot catch it and carry on
+      if (hostCalls >= maxHostCalls) {
+        if (!finished) {
+          finished = true;
+          post({ type: 'limit', limit: { limit: 'host_calls', value: maxHostCalls, observed: hostCalls + 1 } });
+        }
+        return new Promise(() => {});
+      }
+
+      hostCalls++;
+      entry = journal.record(serviceName, methodArray, args);
+    }
+
+    if (entry.status === 'completed') {
+      log('info', `Replaying ${serviceName}.${methodArray.join('.')} from journal (call #${entry.index})`, true);
+      return entry.result;
+    }
+
+    if (entry.status === 'failed') {
+      throw new HostCallError({
+        service: entry.serviceName,
+        method: entry.methodPath.join('.'),
+        status: entry.errorStatus,
+        message: entry.error || `${serviceName}.${methodArray.join('.')} failed`,
+        stackRunId: entry.stackRunId
+      });
+    }
+
+    return park(entry);
+  };
+
+  const taskHandler = evaluateTaskCode(taskCode, {
+    console: sandboxConsole,
+    _hostLog: hostLog,
+    __callHostTool__,
+    sleep,
+    waitUntil,
+    waitForSignal,
+    isCancelled,
+    HostCallError
+  });
+
+  let result;
+  try {
+    result = await taskHandler(taskInput);
+  } catch (error) {
+    if (finished) return;
+    finished = true;
+    post({ type: 'error', error: serializeError(error) });
+    return;
+  }
+
+  if (finished) return;
+  finished = true;
+
+  try {
+    post({ type: 'result', result });
+  } catch (error) {
+    // Results cross to the host by structured clone - functions and the like cannot
+    post({ type: 'error', error: serializeError(new Error(`Task result cannot be returned: ${error instanceof Error ? error.message : String(error)}`)) });
+  }
+}
+
+/**
+ * Evaluate compiled task code with the host helpers in scope and find its handler: the
+ * default or `run` export of an ES module, or module.exports of a CommonJS task
+ */
+function evaluateTaskCode(taskCode: string, helpers: Record<string, unknown>): (input: any) => Promise<any> {
+  const module = { exports: {} as any };
+  const helperNames = Object.keys(helpers);
+
+  const executeTaskCode = new Function(
+    'module',
+    'exports',
+    ...helperNames,
+    `${taskCode}
+    return module.exports;
+  `);
+
+  const moduleExports = executeTaskCode(module, module.exports, ...helperNames.map(name => helpers[name]));
+
+  if (typeof moduleExports === 'function') {
+    return moduleExports;
+  }
+
+  if (moduleExports?.__esModule) {
+    for (const name of ['default', 'run']) {
+      if (typeof moduleExports[name] === 'function') {
+        return moduleExports[name];
+      }
+    }
+    throw new Error(`Task module must export a default or 'run' function. Exports: ${Object.keys(moduleExports).join(', ') || 'none'}`);
+  }
+
+  if (typeof moduleExports === 'object' && moduleExports !== null) {
+    const name = Object.keys(moduleExports).find(key => typeof moduleExports[key] === 'function');
+    if (name) {
+      log('info', `Found function '${name}' in module.exports`, true);
+      return moduleExports[name];
+    }
+  }
+
+  throw new Error(`No valid function found in task code. Module exports type: ${typeof moduleExports}`);
+}
+
+// ==============================
+// Message Handling
+// ==============================
+
+function handleHostMessage(event: MessageEvent<SandboxHostMessage>): void {
+  const message = event.data;
+
+  if (message.type === 'ping') {
+    post({ type: 'pong', id: message.id, heapUsed: memoryUsage().heapUsed });
+    return;
+  }
+
+  if (message.type === 'start') {
+    runTask(message.taskCode, message.taskInput, message.journal, message.maxHostCalls).catch(error => {
+      post({ type: 'error', error: serializeError(error) });
+    });
+    return;
+  }
+
+  if (message.type === 'response') {
+    const pending = pendingRequests.get(message.id);
+    if (!pending) return;
+
+    pendingRequests.delete(message.id);
+    if (message.error) {
+      pending.reject(deserializeError(message.error));
+    } else {
+      pending.resolve(message.value);
+    }
+  }
+}
+
+/**
+ * Keep task code off the channel to the executor. It shares this worker's global scope, so it
+ * could otherwise post its own suspensions, results or pongs, or take the executor's messages
+ * away from the bridge. Every object on the global's prototype chain is locked, since the
+ * prototype's postMessage would reach the channel just the same.
+ */
+function lockHostBridge(): void {
+  const refuse = () => {
+    throw new Error('Task code cannot message the executor directly');
+  };
+
+  for (let scope: object | null = self; scope !== null; scope = Object.getPrototypeOf(scope)) {
+    for (const name of ['postMessage', 'onmessage', 'onmessageerror']) {
+      if (scope === self || Object.hasOwn(scope, name)) {
+        Object.defineProperty(scope, name, {
+          value: name === 'postMessage' ? refuse : null,
+          writable: false,
+          configurable: false
+        });
+      }
+    }
+  }
+}
+
+self.addEventListener('message', handleHostMessage);
+lockHostBridge();
+post({ type: 'ready' });
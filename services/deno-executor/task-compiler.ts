@@ -0,0 +1,91 @@
+/**
+ * Task Compiler for Deno Executor
+ *
+ * Task code may be CommonJS (module.exports), an ES module with a default or `run` export,
+ * or TypeScript. Everything is transpiled to CommonJS before it reaches the sandbox worker,
+ * so the worker evaluates one format; syntax errors are reported with line and column.
+ */
+
+import ts from 'npm:typescript@5';
+
+// ==============================
+// Types and Interfaces
+// ==============================
+
+export interface CompileDiagnostic {
+  message: string;
+  line?: number;     // 1-based
+  column?: number;   // 1-based
+}
+
+/**
+ * Error raised when task code does not compile
+ */
+export class TaskCompileError extends Error {
+  readonly errorType = 'compile_error';
+  readonly diagnostics: CompileDiagnostic[];
+
+  constructor(fileName: string, diagnostics: CompileDiagnostic[]) {
+    super(`Task code failed to compile:\n${diagnostics.map(diagnostic => formatDiagnostic(fileName, diagnostic)).join('\n')}`);
+    this.name = 'TaskCompileError';
+    this.diagnostics = diagnostics;
+  }
+
+  toJSON(): { diagnostics: CompileDiagnostic[] } {
+    return { diagnostics: this.diagnostics };
+  }
+}
+
+function formatDiagnostic(fileName: string, diagnostic: CompileDiagnostic): string {
+  const location = diagnostic.line !== undefined ? `${fileName}:${diagnostic.line}:${diagnostic.column}` : fileName;
+  return `${location} - ${diagnostic.message}`;
+}
+
+// ==============================
+// Compilation
+// ==============================
+
+// Resumes re-execute the same code, so recent compilations are kept
+const MAX_CACHED_COMPILATIONS = 50;
+const compiledCode = new Map<string, string>();
+
+/**
+ * Transpile task code to CommonJS, throwing a TaskCompileError listing every syntax error
+ */
+export function compileTaskCode(taskCode: string, taskName: string): string {
+  const cached = compiledCode.get(taskCode);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const fileName = `${taskName}.ts`;
+  const output = ts.transpileModule(taskCode, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      sourceMap: false
+    }
+  });
+
+  const errors = (output.diagnostics || []).filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error);
+  if (errors.length > 0) {
+    throw new TaskCompileError(fileName, errors.map(diagnostic => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      if (!diagnostic.file || diagnostic.start === undefined) {
+        return { message };
+      }
+
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      return { message, line: line + 1, column: character + 1 };
+    }));
+  }
+
+  if (compiledCode.size >= MAX_CACHED_COMPILATIONS) {
+    compiledCode.delete(compiledCode.keys().next().value!);
+  }
+  compiledCode.set(taskCode, output.outputText);
+
+  return output.outputText;
+}
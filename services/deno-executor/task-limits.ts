@@ -0,0 +1,113 @@
+/**
+ * Execution Limits for Deno Executor
+ *
+ * Resource limits enforced on every execution of a task in its sandbox process. Each task
+ * function may declare its own in task_functions.limits; anything it leaves out comes from
+ * the defaults below, which TASK_DEFAULT_LIMITS (JSON) overrides.
+ *
+ * The CPU budget is the time the worker's event loop is blocked running task code, measured
+ * by how long it takes to answer the executor's pings - a busy loop never answers. The heap
+ * limit applies to the heap the worker reports, and V8 caps the process's heap at the same size.
+ */
+
+// ==============================
+// Types and Interfaces
+// ==============================
+
+export interface TaskLimits {
+  wallClockMs: number;    // Per execution, from start until the task returns or suspends
+  cpuMs: number;          // Per execution
+  heapMb: number;         // Worker heap in use, and the process's heap cap
+  maxHostCalls: number;   // Per task run, across every resume
+}
+
+export type LimitName = 'wall_clock' | 'cpu' | 'heap' | 'host_calls';
+
+export interface LimitExceededDetails {
+  limit: LimitName;
+  value: number;
+  observed?: number;
+}
+
+/**
+ * Error raised when a task is killed for exceeding one of its limits
+ */
+export class LimitExceededError extends Error {
+  readonly errorType = 'limit_exceeded';
+  readonly limit: LimitName;
+  readonly value: number;
+  readonly observed?: number;
+
+  constructor(details: LimitExceededDetails) {
+    super(`Task exceeded its ${details.limit} limit of ${details.value}${details.observed !== undefined ? ` (observed ${details.observed})` : ''}`);
+    this.name = 'LimitExceededError';
+    this.limit = details.limit;
+    this.value = details.value;
+    this.observed = details.observed;
+  }
+
+  toJSON(): LimitExceededDetails {
+    return { limit: this.limit, value: this.value, observed: this.observed };
+  }
+}
+
+// ==============================
+// Limits
+// ==============================
+
+const BUILT_IN_LIMITS: TaskLimits = {
+  wallClockMs: 120000,
+  cpuMs: 30000,
+  heapMb: 256,
+  maxHostCalls: 1000
+};
+
+// How often the executor samples a running worker's responsiveness and heap
+export const LIMIT_SAMPLE_INTERVAL_MS = 50;
+
+/**
+ * Parse default overrides from the environment, ignoring malformed configuration
+ */
+function loadConfiguredLimits(): Partial<TaskLimits> {
+  const raw = Deno.env.get('TASK_DEFAULT_LIMITS');
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    return validateLimits(JSON.parse(raw));
+  } catch (error) {
+    console.warn(`Ignoring invalid TASK_DEFAULT_LIMITS: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+}
+
+function validateLimits(declared: unknown): Partial<TaskLimits> {
+  if (declared === null || declared === undefined) {
+    return {};
+  }
+
+  if (typeof declared !== 'object' || Array.isArray(declared)) {
+    throw new Error('Task limits must be an object');
+  }
+
+  for (const [name, value] of Object.entries(declared)) {
+    if (!(name in BUILT_IN_LIMITS)) {
+      throw new Error(`Unknown task limit '${name}'`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new Error(`Task limit '${name}' must be a positive number`);
+    }
+  }
+
+  return declared as Partial<TaskLimits>;
+}
+
+const defaultLimits: TaskLimits = { ...BUILT_IN_LIMITS, ...loadConfiguredLimits() };
+
+/**
+ * Resolve the limits for a task from its declared limits and the defaults
+ */
+export function resolveTaskLimits(declared: unknown): TaskLimits {
+  return { ...defaultLimits, ...validateLimits(declared) };
+}
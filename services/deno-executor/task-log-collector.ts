@@ -0,0 +1,66 @@
+/**
+ * Task Log Collector for Deno Executor
+ *
+ * Buffers the console output of a task execution and writes it to task_logs in batches,
+ * periodically while the task runs so followers see it live, and once more when it stops.
+ * A failed write is reported and dropped - logging never fails a task.
+ */
+
+import type { TaskLogLevel } from './sandbox-protocol.ts';
+
+export interface TaskLogEntry {
+  task_run_id: number;
+  stack_run_id: number;
+  level: TaskLogLevel;
+  message: string;
+  logged_at: string;
+}
+
+const FLUSH_INTERVAL_MS = 1000;
+const MAX_BUFFERED_ENTRIES = 100;
+
+export class TaskLogCollector {
+  private buffer: TaskLogEntry[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | undefined;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly taskRunId: number,
+    private readonly stackRunId: number,
+    private readonly write: (entries: TaskLogEntry[]) => Promise<void>,
+    private readonly onError: (error: unknown) => void
+  ) {}
+
+  add(level: TaskLogLevel, message: string, loggedAt: string): void {
+    this.buffer.push({
+      task_run_id: this.taskRunId,
+      stack_run_id: this.stackRunId,
+      level,
+      message,
+      logged_at: loggedAt
+    });
+
+    if (this.buffer.length >= MAX_BUFFERED_ENTRIES) {
+      this.flush();
+    } else if (this.flushTimer === undefined) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Write everything buffered so far; writes are chained so entries land in order
+   */
+  flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+
+    const entries = this.buffer.splice(0);
+    if (entries.length > 0) {
+      this.pendingWrite = this.pendingWrite
+        .then(() => this.write(entries))
+        .catch(error => this.onError(error));
+    }
+
+    return this.pendingWrite;
+  }
+}
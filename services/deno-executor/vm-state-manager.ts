@@ -5,9 +5,11 @@
 
 // Note: This file maintains the vm-state-manager interface for compatibility
 // but no longer uses QuickJS - it's purely for Deno-based task state management
-import { createClient } from "npm:@supabase/supabase-js@2.39.3";
 import { hostLog, isUuid } from "../_shared/utils.ts";
+import { createStorageClient, getStorageBackend } from "../_shared/storage-service.ts";
+import { serviceRegistry } from "../_shared/service-registry.ts";
 import { nowISO } from 'tasker-utils/timestamps';
+import { ReplayJournal, type HostCallJournalEntry } from "./replay-journal.ts";
 
 // ==============================
 // Types and Interfaces
@@ -20,13 +22,16 @@ export interface StackRun {
   service_name: string;
   method_name: string;
   args: any[];
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'suspended_waiting_child' | 'pending_resume';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'suspended_waiting_child' | 'waiting_timer' | 'waiting_signal' | 'pending_resume';
   created_at: string;
   updated_at: string;
   result?: any;
   error?: any;
   resume_payload?: any;
   waiting_on_stack_run_id?: number;
+  waiting_on_stack_run_ids?: number[];
+  waiting_signals?: string[];
+  resume_at?: string;
   vm_state?: SerializedVMState;
 }
 
@@ -45,6 +50,7 @@ export interface SerializedVMState {
   resume_payload?: any;
   checkpoint?: { [key: string]: any };
   last_call_result?: any;
+  journal?: HostCallJournalEntry[];
 }
 
 // ==============================
@@ -85,6 +91,10 @@ export function _generateUUID(): string {
  * Get a direct Supabase client instance (vm-state-manager needs direct access for QuickJS functionality)
  */
 export function getSupabaseClient() {
+  if (getStorageBackend() !== 'supabase') {
+    return createStorageClient();
+  }
+
   const { url, serviceRoleKey } = getSupabaseConfig();
   if (!url || !serviceRoleKey) {
     hostLog("VM-State-Manager", "error", "Supabase URL or Service Key is missing. Cannot create client.");
@@ -92,7 +102,7 @@ export function getSupabaseClient() {
   }
   
   // Use direct Supabase client for vm-state-manager (critical for QuickJS functionality)
-  return createClient(url, serviceRoleKey);
+  return createStorageClient({ url, key: serviceRoleKey });
 }
 
 // ==============================
@@ -200,7 +210,7 @@ export async function saveStackRun(
  * Triggers the stack processor to process the next stack run (fire-and-forget)
  */
 export function triggerStackProcessor(): void {
-  const { url, serviceRoleKey } = getSupabaseConfig();
+  const { serviceRoleKey } = getSupabaseConfig();
 
   if (!serviceRoleKey) {
     hostLog("VM-State-Manager", "error", "Missing service role key");
@@ -211,7 +221,7 @@ export function triggerStackProcessor(): void {
 
   // Fire-and-forget - don't wait for response
   setTimeout(() => {
-    fetch(`${url}/functions/v1/simple-stack-processor`, {
+    serviceRegistry.invokeFunction('simple-stack-processor', '', {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -505,9 +515,14 @@ export async function prepareStackRunResumption(
 
     hostLog("VM-State-Manager", "info", `🔧 DEBUGGING: Parent VM state keys: ${Object.keys(parentStackRun.vm_state).join(', ')}`);
 
+    // Record the child result against the journaled call that was waiting on it
+    const journal = new ReplayJournal(parentStackRun.vm_state.journal || []);
+    journal.complete(childStackRunId, childResult);
+
     // Update the VM state with the resume payload
     const updatedVmState: SerializedVMState = {
       ...parentStackRun.vm_state,
+      journal: journal.toJSON(),
       last_call_result: childResult,
       resume_payload: childResult,
       suspended: true,
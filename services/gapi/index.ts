@@ -29,7 +29,7 @@ async function getCredentials(): Promise<any> {
   if (cachedCreds) return cachedCreds;
 
   try {
-    const result = await serviceRegistry.call('keystore', 'getKey', ['default', 'GAPI_KEY']);
+    const result = await serviceRegistry.call('keystore', 'getKey', ['global', 'GAPI_KEY']);
 
     if (!result.success) {
       throw new Error(`Failed to get credentials: ${result.error}`);
@@ -72,7 +72,7 @@ async function getAdminEmail(): Promise<string> {
   if (cachedAdminEmail) return cachedAdminEmail;
 
   try {
-    const result = await serviceRegistry.call('keystore', 'getKey', ['default', 'GAPI_ADMIN_EMAIL']);
+    const result = await serviceRegistry.call('keystore', 'getKey', ['global', 'GAPI_ADMIN_EMAIL']);
 
     if (!result.success) {
       throw new Error(`Failed to get admin email: ${result.error}`);
@@ -682,4 +682,8 @@ class WrappedGapiHandler extends BaseHttpHandler {
 
 // Create handler instance and start serving
 const wrappedGapiHandler = new WrappedGapiHandler();
-serve((req) => wrappedGapiHandler.handle(req));
+export const handler = (req: Request) => wrappedGapiHandler.handle(req);
+
+if (import.meta.main) {
+  serve(handler);
+}
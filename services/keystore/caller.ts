@@ -0,0 +1,35 @@
+/**
+ * Keystore Callers
+ *
+ * Keystore writes are audited under the principal a request authenticates as, worked out on the
+ * server from the key it presents. The X-Caller header, e.g. the stack processor's task_run:<id>,
+ * is chosen by the client, so it is only kept alongside as an unverified hint.
+ */
+
+const MAX_HINT_LENGTH = 200;
+
+export interface KeystoreCaller {
+  // service_role, anon, unverified (a bearer token that is neither key) or unauthenticated
+  principal: string;
+  hint: string | null;
+}
+
+export const UNKNOWN_CALLER: KeystoreCaller = { principal: 'unknown', hint: null };
+
+/**
+ * The caller of a request, given the service role and anon keys it may authenticate with
+ */
+export function callerFromRequest(req: Request, keys: { serviceRoleKey: string; anonKey: string }): KeystoreCaller {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\b\s*/i, '') || '';
+
+  let principal = 'unauthenticated';
+  if (token && token === keys.serviceRoleKey) {
+    principal = 'service_role';
+  } else if (token && token === keys.anonKey) {
+    principal = 'anon';
+  } else if (token) {
+    principal = 'unverified';
+  }
+
+  return { principal, hint: req.headers.get('x-caller')?.slice(0, MAX_HINT_LENGTH) || null };
+}
@@ -0,0 +1,37 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { callerFromRequest } from "./caller.ts";
+
+const keys = { serviceRoleKey: 'service-role-key', anonKey: 'anon-key' };
+
+function request(headers: Record<string, string>): Request {
+  return new Request('http://localhost/keystore', { method: 'POST', headers });
+}
+
+Deno.test('callerFromRequest - the service role key is audited as service_role with X-Caller as a hint', () => {
+  const caller = callerFromRequest(request({ Authorization: 'Bearer service-role-key', 'X-Caller': 'task_run:42' }), keys);
+
+  assertEquals(caller, { principal: 'service_role', hint: 'task_run:42' });
+});
+
+Deno.test('callerFromRequest - X-Caller does not change the principal', () => {
+  const caller = callerFromRequest(request({ Authorization: 'Bearer anon-key', 'X-Caller': 'service_role' }), keys);
+
+  assertEquals(caller, { principal: 'anon', hint: 'service_role' });
+});
+
+Deno.test('callerFromRequest - other tokens are unverified and missing ones unauthenticated', () => {
+  assertEquals(callerFromRequest(request({ Authorization: 'Bearer forged' }), keys).principal, 'unverified');
+  assertEquals(callerFromRequest(request({}), keys), { principal: 'unauthenticated', hint: null });
+});
+
+Deno.test('callerFromRequest - an empty configured key matches nothing', () => {
+  const caller = callerFromRequest(request({ Authorization: 'Bearer ' }), { serviceRoleKey: '', anonKey: '' });
+
+  assertEquals(caller.principal, 'unauthenticated');
+});
+
+Deno.test('callerFromRequest - long hints are truncated', () => {
+  const caller = callerFromRequest(request({ 'X-Caller': 'x'.repeat(500) }), keys);
+
+  assertEquals(caller.hint?.length, 200);
+});
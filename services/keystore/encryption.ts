@@ -0,0 +1,196 @@
+/**
+ * Keystore Encryption
+ *
+ * Envelope encryption for keystore values: each value is sealed with its own AES-GCM data key,
+ * and the data key is sealed with the master key from config. Rows record the master key
+ * version that sealed them, so a rotation can find and re-encrypt everything older. Both are
+ * sealed with the entry they belong to as additional data, so a sealed value only decrypts as
+ * the namespace, key and version it was written for.
+ */
+
+import { config } from "../_shared/config-service.ts";
+import { ServiceError, ServiceErrorType } from "../_shared/base-service.ts";
+
+const IV_BYTES = 12;
+
+// Marks values sealed with their entry as additional data. Values without it were sealed before
+// entries were bound; they still decrypt, and rotateMasterKey re-seals them with their entry.
+const BOUND_PREFIX = 'v2:';
+
+/**
+ * The encrypted columns of a keystore row. key_version is null for rows written in plaintext,
+ * before encryption was configured.
+ */
+export interface EncryptedValue {
+  key_value: string;
+  data_key: string | null;
+  key_version: number | null;
+}
+
+/**
+ * The entry a value is sealed for. Moving a sealed value to another namespace, key or version
+ * means decrypting it with its old entry and encrypting it again with the new one.
+ */
+export interface EncryptionContext {
+  scope: string;
+  key_name: string;
+  version: number | null;
+}
+
+function additionalData(context: EncryptionContext): BufferSource {
+  return new TextEncoder().encode(JSON.stringify([context.scope, context.key_name, context.version ?? null]));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(encoded: string) {
+  return Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+}
+
+// AES-GCM output is stored as base64(iv || ciphertext)
+async function seal(key: CryptoKey, plaintext: BufferSource, aad?: BufferSource): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(gcmParams(iv, aad), key, plaintext));
+
+  const sealed = new Uint8Array(IV_BYTES + ciphertext.length);
+  sealed.set(iv);
+  sealed.set(ciphertext, IV_BYTES);
+  return toBase64(sealed);
+}
+
+async function unseal(key: CryptoKey, sealed: string, aad?: BufferSource): Promise<ArrayBuffer> {
+  const bytes = fromBase64(sealed);
+  return await crypto.subtle.decrypt(gcmParams(bytes.slice(0, IV_BYTES), aad), key, bytes.slice(IV_BYTES));
+}
+
+function gcmParams(iv: BufferSource, aad?: BufferSource): AesGcmParams {
+  return aad ? { name: 'AES-GCM', iv, additionalData: aad } : { name: 'AES-GCM', iv };
+}
+
+function importAesKey(raw: BufferSource): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * A short SHA-256 fingerprint of a value, for telling versions apart in the audit trail without storing the value
+ */
+export async function fingerprintValue(value: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+  return `sha256:${Array.from(digest.slice(0, 8)).map(byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export class KeystoreEncryption {
+  private readonly masterKeys = new Map<number, Promise<CryptoKey>>();
+
+  constructor(
+    private readonly encodedKeys: Record<number, string>,
+    readonly currentVersion: number | null
+  ) {}
+
+  /**
+   * Encryption from KEYSTORE_MASTER_KEY (version KEYSTORE_MASTER_KEY_VERSION) plus the
+   * versions still listed in KEYSTORE_PREVIOUS_MASTER_KEYS. Without a master key, values
+   * are stored in plaintext.
+   */
+  static fromConfig(): KeystoreEncryption {
+    const { masterKey, masterKeyVersion, previousMasterKeys } = config.keystore;
+    const encodedKeys: Record<number, string> = { ...previousMasterKeys };
+
+    if (masterKey) {
+      encodedKeys[masterKeyVersion] = masterKey;
+    }
+
+    return new KeystoreEncryption(encodedKeys, masterKey ? masterKeyVersion : null);
+  }
+
+  get enabled(): boolean {
+    return this.currentVersion !== null;
+  }
+
+  private masterKey(version: number): Promise<CryptoKey> {
+    let key = this.masterKeys.get(version);
+    if (!key) {
+      const encoded = this.encodedKeys[version];
+      if (!encoded) {
+        throw new ServiceError(
+          ServiceErrorType.CONFIGURATION_ERROR,
+          `Keystore master key version ${version} is not configured`,
+          'MASTER_KEY_MISSING',
+          { version },
+          503
+        );
+      }
+
+      const raw = fromBase64(encoded);
+      if (raw.length !== 32) {
+        throw new ServiceError(
+          ServiceErrorType.CONFIGURATION_ERROR,
+          `Keystore master key version ${version} must be 32 bytes, base64-encoded`,
+          'MASTER_KEY_INVALID',
+          { version },
+          503
+        );
+      }
+
+      key = importAesKey(raw);
+      this.masterKeys.set(version, key);
+    }
+    return key;
+  }
+
+  /**
+   * Seal a value for its entry under a fresh data key and the current master key
+   */
+  async encrypt(value: string, context: EncryptionContext): Promise<EncryptedValue> {
+    if (this.currentVersion === null) {
+      return { key_value: value, data_key: null, key_version: null };
+    }
+
+    const dataKeyBytes = crypto.getRandomValues(new Uint8Array(32));
+    const dataKey = await importAesKey(dataKeyBytes);
+    const aad = additionalData(context);
+
+    return {
+      key_value: BOUND_PREFIX + await seal(dataKey, new TextEncoder().encode(value), aad),
+      data_key: await seal(await this.masterKey(this.currentVersion), dataKeyBytes, aad),
+      key_version: this.currentVersion
+    };
+  }
+
+  /**
+   * Open a value sealed for the given entry. A value sealed for any other entry fails with DECRYPT_FAILED.
+   */
+  async decrypt(row: EncryptedValue, context: EncryptionContext): Promise<string> {
+    if (row.key_version === null || row.key_version === undefined) {
+      return row.key_value;
+    }
+
+    const bound = row.key_value.startsWith(BOUND_PREFIX);
+    const aad = bound ? additionalData(context) : undefined;
+
+    try {
+      const dataKeyBytes = await unseal(await this.masterKey(row.key_version), row.data_key || '', aad);
+      const plaintext = await unseal(await importAesKey(dataKeyBytes), bound ? row.key_value.slice(BOUND_PREFIX.length) : row.key_value, aad);
+      return new TextDecoder().decode(plaintext);
+    } catch (error) {
+      if (error instanceof ServiceError) throw error;
+      throw new ServiceError(
+        ServiceErrorType.INTERNAL_ERROR,
+        `Keystore value for ${context.scope}/${context.key_name} could not be decrypted with master key version ${row.key_version}`,
+        'DECRYPT_FAILED',
+        { version: row.key_version, scope: context.scope, key: context.key_name }
+      );
+    }
+  }
+
+  /**
+   * Whether a row was sealed by anything other than the current master key, or without its entry
+   */
+  isStale(row: EncryptedValue): boolean {
+    return this.currentVersion !== null && (row.key_version !== this.currentVersion || !row.key_value.startsWith(BOUND_PREFIX));
+  }
+}
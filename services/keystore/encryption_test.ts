@@ -0,0 +1,99 @@
+import { assert, assertEquals, assertNotEquals, assertRejects } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { ServiceError } from "../_shared/base-service.ts";
+import { KeystoreEncryption, fingerprintValue, type EncryptedValue } from "./encryption.ts";
+
+const KEY_1 = btoa(String.fromCharCode(...new Uint8Array(32).fill(1)));
+const KEY_2 = btoa(String.fromCharCode(...new Uint8Array(32).fill(2)));
+
+const ENTRY = { scope: 'global', key_name: 'api_key', version: 1 };
+
+// A value sealed before entries were bound: no additional data and no format prefix
+async function legacySeal(value: string): Promise<EncryptedValue> {
+  const importKey = (raw: BufferSource) => crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt']);
+  const seal = async (key: CryptoKey, plaintext: BufferSource) => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+    return btoa(String.fromCharCode(...iv, ...ciphertext));
+  };
+
+  const dataKey = crypto.getRandomValues(new Uint8Array(32));
+  return {
+    key_value: await seal(await importKey(dataKey), new TextEncoder().encode(value)),
+    data_key: await seal(await importKey(Uint8Array.from(atob(KEY_1), char => char.charCodeAt(0))), dataKey),
+    key_version: 1
+  };
+}
+
+Deno.test('KeystoreEncryption - seals values under the current master key', async () => {
+  const encryption = new KeystoreEncryption({ 1: KEY_1 }, 1);
+  const sealed = await encryption.encrypt('secret', ENTRY);
+
+  assertEquals(sealed.key_version, 1);
+  assertNotEquals(sealed.key_value, 'secret');
+  assertEquals(await encryption.decrypt(sealed, ENTRY), 'secret');
+});
+
+Deno.test('KeystoreEncryption - stores plaintext without a master key', async () => {
+  const encryption = new KeystoreEncryption({}, null);
+
+  assertEquals(await encryption.encrypt('secret', ENTRY), { key_value: 'secret', data_key: null, key_version: null });
+  assertEquals(encryption.enabled, false);
+});
+
+Deno.test('KeystoreEncryption - a rotated key still reads older values and marks them stale', async () => {
+  const sealed = await new KeystoreEncryption({ 1: KEY_1 }, 1).encrypt('secret', ENTRY);
+  const rotated = new KeystoreEncryption({ 1: KEY_1, 2: KEY_2 }, 2);
+
+  assert(rotated.isStale(sealed));
+  assert(rotated.isStale({ key_value: 'plain', data_key: null, key_version: null }));
+  assertEquals(await rotated.decrypt(sealed, ENTRY), 'secret');
+
+  const resealed = await rotated.encrypt(await rotated.decrypt(sealed, ENTRY), ENTRY);
+  assertEquals(resealed.key_version, 2);
+  assert(!rotated.isStale(resealed));
+});
+
+Deno.test('KeystoreEncryption - a dropped master key fails with 503', async () => {
+  const sealed = await new KeystoreEncryption({ 1: KEY_1 }, 1).encrypt('secret', ENTRY);
+
+  const error = await assertRejects(() => new KeystoreEncryption({ 2: KEY_2 }, 2).decrypt(sealed, ENTRY), ServiceError) as ServiceError;
+  assertEquals(error.code, 'MASTER_KEY_MISSING');
+  assertEquals(error.statusCode, 503);
+});
+
+Deno.test('KeystoreEncryption - a value that does not decrypt fails with DECRYPT_FAILED', async () => {
+  const encryption = new KeystoreEncryption({ 1: KEY_1 }, 1);
+  const sealed = await encryption.encrypt('secret', ENTRY);
+  const tampered = { ...sealed, key_value: (await encryption.encrypt('other', ENTRY)).key_value };
+
+  const error = await assertRejects(() => encryption.decrypt(tampered, ENTRY), ServiceError) as ServiceError;
+  assertEquals(error.code, 'DECRYPT_FAILED');
+  assertEquals(error.statusCode, 500);
+});
+
+Deno.test('KeystoreEncryption - a value only decrypts for the entry it was sealed for', async () => {
+  const encryption = new KeystoreEncryption({ 1: KEY_1 }, 1);
+  const sealed = await encryption.encrypt('secret', ENTRY);
+
+  for (const other of [{ ...ENTRY, scope: 'teamA' }, { ...ENTRY, key_name: 'other_key' }, { ...ENTRY, version: 2 }]) {
+    const error = await assertRejects(() => encryption.decrypt(sealed, other), ServiceError) as ServiceError;
+    assertEquals(error.code, 'DECRYPT_FAILED');
+  }
+});
+
+Deno.test('KeystoreEncryption - values sealed before entries were bound still decrypt and are stale', async () => {
+  const encryption = new KeystoreEncryption({ 1: KEY_1 }, 1);
+  const legacy = await legacySeal('secret');
+
+  assertEquals(await encryption.decrypt(legacy, ENTRY), 'secret');
+  assert(encryption.isStale(legacy));
+  assert(!encryption.isStale(await encryption.encrypt('secret', ENTRY)));
+});
+
+Deno.test('fingerprintValue - tells values apart without revealing them', async () => {
+  const fingerprint = await fingerprintValue('secret');
+
+  assert(fingerprint.startsWith('sha256:'));
+  assertEquals(fingerprint, await fingerprintValue('secret'));
+  assertNotEquals(fingerprint, await fingerprintValue('other'));
+});
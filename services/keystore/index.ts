@@ -2,9 +2,12 @@ import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { serviceRegistry } from "../_shared/service-registry.ts";
 import { BaseHttpHandler, HttpStatus, createHealthCheckResponse } from "../_shared/http-handler.ts";
 import { config } from "../_shared/config-service.ts";
-import { BaseService, ServiceError, ServiceErrorType } from "../_shared/base-service.ts";
+import { getStorageBackend } from "../_shared/storage-service.ts";
+import { BaseService, ServiceError, ServiceErrorType, type IServiceResponse } from "../_shared/base-service.ts";
 import { logger } from "../_shared/logging-service.ts";
 import { nowISO } from 'tasker-utils/timestamps';
+import { KeystoreEncryption, fingerprintValue, type EncryptedValue, type EncryptionContext } from "./encryption.ts";
+import { callerFromRequest, UNKNOWN_CALLER, type KeystoreCaller } from "./caller.ts";
 
 // Type definitions
 interface IServerTimeResult {
@@ -15,17 +18,109 @@ interface IServerTimeResult {
 interface IKeyStoreValue {
   key_name: string;
   key_value: string;
+  data_key?: string | null;
+  key_version?: number | null;
   scope?: string;
+  version?: number | null;
+  expires_at?: string | null;
   updated_at?: string;
 }
 
+// Expiry for setKey: an absolute time or a lifetime, not both. Without either the key never expires
+interface ISetKeyOptions {
+  expiresAt?: string;
+  ttlSeconds?: number;
+}
+
+// Namespaces are stored in the scope column; callers that give none use the global namespace
+const DEFAULT_NAMESPACE = 'global';
+const NAMESPACE_PATTERN = /^[A-Za-z0-9_.-]{1,100}$/;
+
+type KeystoreAuditAction = 'set' | 'increment' | 'rollback' | 'delete' | 'rename' | 'expire';
+
+// One keystore_audit row. The fingerprint identifies the value written without revealing it
+interface IAuditEntry {
+  action: KeystoreAuditAction;
+  scope: string;
+  key_name: string;
+  version: number | null;
+  fingerprint: string | null;
+  caller: string;
+  caller_hint: string | null;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// A retained version of a key, as listed by listKeyVersions
+interface IKeyVersion {
+  version: number;
+  fingerprint: string;
+  caller: string;
+  caller_hint: string | null;
+  created_at: string;
+}
+
+// An expired key reads as absent until sweepExpiredKeys removes it
+function isExpired(row: { expires_at?: string | null }): boolean {
+  return !!row.expires_at && Date.parse(row.expires_at) <= Date.now();
+}
+
+// The version compareAndSetKey checks against: 0 for a key that is absent or expired
+function currentVersionOf(row: { version?: number | null; expires_at?: string | null } | undefined): number {
+  return row && !isExpired(row) ? row.version ?? 0 : 0;
+}
+
+// A key's current value with the version to pass to compareAndSetKey
+interface IKeyEntry {
+  value: string;
+  version: number;
+  expiresAt: string | null;
+}
+
+interface ICompareAndSetResult {
+  swapped: boolean;
+  // The version written, or the key's current version when it did not match
+  version: number;
+}
+
+interface IIncrementResult {
+  value: number;
+  version: number;
+}
+
+// Attempts a write makes against concurrent writers before giving up
+const MAX_WRITE_ATTEMPTS = 5;
+
+const DEFAULT_AUDIT_LIMIT = 100;
+const MAX_AUDIT_LIMIT = 1000;
+
+interface IRotationResult {
+  keyVersion: number;
+  rotated: number;
+  total: number;
+}
+
+/**
+ * The database error behind a failed callWrappedSupabase, e.g. { code: '23505' } for a unique
+ * violation. wrappedsupabase reports it inside its own failed envelope, which callWrappedSupabase wraps again.
+ */
+function databaseErrorOf(response: IServiceResponse): any {
+  if (response.success) {
+    return response.data?.error ?? null;
+  }
+  return response.error?.details?.error?.details?.error ?? response.error;
+}
+
 /**
  * Keystore service implementation
  * This provides a simple key-value store backed by Supabase
  */
 class KeystoreService extends BaseService {
-  private wrappedSupabaseUrl: string;
   private serviceRoleKey: string;
+  private anonKey: string;
+  private encryption: KeystoreEncryption;
+  // Who writes are recorded as; see forRequest
+  private caller: KeystoreCaller = UNKNOWN_CALLER;
 
   constructor() {
     super({
@@ -38,10 +133,11 @@ class KeystoreService extends BaseService {
       retries: 3
     });
 
-    const supabaseUrl = config.database.url;
-    const serviceRoleKey = config.database.serviceRoleKey;
+    // Local storage backends are reached without Supabase credentials
+    const usesSupabase = getStorageBackend() === 'supabase';
+    const serviceRoleKey = usesSupabase ? config.database.serviceRoleKey : (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '');
 
-    if (!serviceRoleKey) {
+    if (!serviceRoleKey && usesSupabase) {
       throw new ServiceError(
         ServiceErrorType.CONFIGURATION_ERROR,
         "SUPABASE_SERVICE_ROLE_KEY environment variable is required",
@@ -50,26 +146,110 @@ class KeystoreService extends BaseService {
     }
 
     // Use wrappedsupabase proxy as the only way to access Supabase
-    this.wrappedSupabaseUrl = `${supabaseUrl}/functions/v1/wrappedsupabase`;
     this.serviceRoleKey = serviceRoleKey;
+    this.anonKey = usesSupabase ? config.database.anonKey : (Deno.env.get('SUPABASE_ANON_KEY') || '');
+
+    this.encryption = KeystoreEncryption.fromConfig();
+    if (!this.encryption.enabled) {
+      logger.warn('KEYSTORE_MASTER_KEY is not set - keystore values are stored unencrypted');
+    }
   }
 
   public getOperations(): string[] {
-    return [
-      'getKey',
-      'setKey',
-      'listKeys',
-      'hasKey',
-      'listNamespaces',
-      'getServerTime'
-    ];
+    return Object.keys(KEYSTORE_METHODS);
+  }
+
+  /**
+   * The service as seen by the caller of one request, so the writes it makes are audited under that caller
+   */
+  forRequest(req: Request): KeystoreService {
+    const caller = callerFromRequest(req, { serviceRoleKey: this.serviceRoleKey, anonKey: this.anonKey });
+    return Object.create(this, { caller: { value: caller } });
+  }
+
+  /**
+   * Refuse an administrative operation unless the request carries the service role key. These read
+   * or rewrite every version of a key, or every key, whatever namespace the caller could otherwise use.
+   */
+  private requireServiceRole(operation: string): void {
+    if (this.caller.principal !== 'service_role') {
+      throw new ServiceError(
+        ServiceErrorType.AUTHORIZATION_ERROR,
+        `${operation} requires the service role key`,
+        'SERVICE_ROLE_REQUIRED',
+        { operation, principal: this.caller.principal },
+        403
+      );
+    }
+  }
+
+  private resolveNamespace(namespace: unknown): string {
+    if (namespace === undefined || namespace === null || namespace === '') {
+      return DEFAULT_NAMESPACE;
+    }
+    if (typeof namespace !== 'string' || !NAMESPACE_PATTERN.test(namespace)) {
+      throw new ServiceError(
+        ServiceErrorType.VALIDATION_ERROR,
+        'Namespace must be 1-100 letters, digits, dots, dashes or underscores',
+        'INVALID_NAMESPACE',
+        { namespace },
+        400
+      );
+    }
+    return namespace;
+  }
+
+  private resolveExpiry(options: ISetKeyOptions): string | null {
+    const { expiresAt, ttlSeconds } = options;
+
+    if (expiresAt !== undefined && ttlSeconds !== undefined) {
+      throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, 'Give expiresAt or ttlSeconds, not both', 'INVALID_EXPIRY', { expiresAt, ttlSeconds }, 400);
+    }
+
+    if (ttlSeconds !== undefined) {
+      if (typeof ttlSeconds !== 'number' || !Number.isFinite(ttlSeconds) || ttlSeconds <= 0) {
+        throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, 'ttlSeconds must be a positive number', 'INVALID_EXPIRY', { ttlSeconds }, 400);
+      }
+      return new Date(Date.now() + ttlSeconds * 1000).toISOString();
+    }
+
+    if (expiresAt !== undefined) {
+      const time = typeof expiresAt === 'string' ? Date.parse(expiresAt) : NaN;
+      if (isNaN(time)) {
+        throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, 'expiresAt must be an ISO 8601 date-time', 'INVALID_EXPIRY', { expiresAt }, 400);
+      }
+      if (time <= Date.now()) {
+        throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, 'expiresAt must be in the future', 'INVALID_EXPIRY', { expiresAt }, 400);
+      }
+      return new Date(time).toISOString();
+    }
+
+    return null;
+  }
+
+  // Run a chain and return its rows, raising a ServiceError when the query fails
+  private async queryRows(chain: any[], message: string, code: string, details: Record<string, unknown>): Promise<any[]> {
+    const response = await this.callWrappedSupabase(chain);
+    const error = databaseErrorOf(response);
+
+    if (error) {
+      throw new ServiceError(
+        ServiceErrorType.EXTERNAL_SERVICE_ERROR,
+        `${message}: ${error.message || error}`,
+        code,
+        { ...details, originalError: error },
+        502
+      );
+    }
+
+    return response.data.data || [];
   }
 
   private async callWrappedSupabase(chain: any[]): Promise<any> {
     return this.executeOperation(
       'callWrappedSupabase',
       async () => {
-        const response = await fetch(this.wrappedSupabaseUrl, {
+        const response = await serviceRegistry.invokeFunction('wrappedsupabase', '', {
           method: 'POST',
           headers: {
             'Authorization': `Bearer ${this.serviceRoleKey}`,
@@ -119,159 +299,581 @@ class KeystoreService extends BaseService {
   }
   
 
-  // Get a stored key value
-  async getKey(namespace: string, key: string): Promise<string | null> {
+  // Get a stored key value, or an earlier version of it from history
+  async getKey(namespace: string, key: string, version?: number): Promise<IServiceResponse<string | null>> {
     return this.executeOperation(
       'getKey',
       async () => {
-        const wrappedResponse = await this.callWrappedSupabase([
-          { property: 'from', args: ['keystore'] },
-          { property: 'select', args: ['key_value'] },
-          { property: 'eq', args: ['key_name', key] },
-          { property: 'limit', args: [1] }
-        ]);
-
-        // callWrappedSupabase is wrapped by executeOperation, so unwrap it
-        const supabaseResponse = wrappedResponse.data;
+        namespace = this.resolveNamespace(namespace);
 
-        if (supabaseResponse.error) {
-          throw new ServiceError(
-            ServiceErrorType.EXTERNAL_SERVICE_ERROR,
-            `Failed to get key: ${supabaseResponse.error}`,
-            'GET_KEY_ERROR',
-            { key, namespace, originalError: supabaseResponse.error }
-          );
-        }
+        const rows = await this.queryRows(
+          [
+            { property: 'from', args: [version === undefined || version === null ? 'keystore' : 'keystore_history'] },
+            { property: 'select', args: ['key_value, data_key, key_version, version, expires_at'] },
+            { property: 'eq', args: ['scope', namespace] },
+            { property: 'eq', args: ['key_name', key] },
+            ...(version === undefined || version === null ? [] : [{ property: 'eq', args: ['version', version] }]),
+            { property: 'limit', args: [1] }
+          ],
+          'Failed to get key',
+          'GET_KEY_ERROR',
+          { key, namespace, version }
+        );
 
-        const rows = supabaseResponse.data;
-        if (rows && rows.length > 0) {
-          return rows[0].key_value;
+        if (rows.length > 0 && !isExpired(rows[0])) {
+          return await this.encryption.decrypt(rows[0], { scope: namespace, key_name: key, version: rows[0].version ?? null });
         }
 
         return null;
       },
-      { key, namespace }
+      { metadata: { key, namespace } }
     );
   }
-  
-  // Store a key value
-  async setKey(namespace: string, key: string, value: string): Promise<boolean> {
+
+  // Store a key value as its next version, optionally expiring
+  async setKey(namespace: string, key: string, value: string, options: ISetKeyOptions = {}): Promise<IServiceResponse<boolean>> {
     return this.executeOperation(
       'setKey',
       async () => {
-        // Check if the key exists
-        const wrappedCheckResult = await this.callWrappedSupabase([
+        await this.writeVersion(this.resolveNamespace(namespace), key, value, { action: 'set' }, this.resolveExpiry(options || {}));
+        return true;
+      },
+      { metadata: { key, namespace } }
+    );
+  }
+
+  // Get a key's value together with its version, or null when it is absent or expired
+  async getKeyEntry(namespace: string, key: string): Promise<IServiceResponse<IKeyEntry | null>> {
+    return this.executeOperation(
+      'getKeyEntry',
+      async () => await this.readEntry(this.resolveNamespace(namespace), key),
+      { metadata: { key, namespace } }
+    );
+  }
+
+  private async readEntry(namespace: string, key: string): Promise<IKeyEntry | null> {
+    const [row] = await this.queryRows(
+      [
+        { property: 'from', args: ['keystore'] },
+        { property: 'select', args: ['key_value, data_key, key_version, version, expires_at'] },
+        { property: 'eq', args: ['scope', namespace] },
+        { property: 'eq', args: ['key_name', key] },
+        { property: 'limit', args: [1] }
+      ],
+      'Failed to get key',
+      'GET_KEY_ERROR',
+      { key, namespace }
+    );
+
+    if (!row || isExpired(row)) {
+      return null;
+    }
+
+    return {
+      value: await this.encryption.decrypt(row, { scope: namespace, key_name: key, version: row.version ?? null }),
+      version: currentVersionOf(row),
+      expiresAt: row.expires_at ?? null
+    };
+  }
+
+  /**
+   * Store a value only while the key is at expectedVersion; 0 expects the key to be absent or expired
+   */
+  async compareAndSetKey(
+    namespace: string,
+    key: string,
+    expectedVersion: number,
+    value: string,
+    options: ISetKeyOptions = {}
+  ): Promise<IServiceResponse<ICompareAndSetResult>> {
+    return this.executeOperation(
+      'compareAndSetKey',
+      async () => {
+        namespace = this.resolveNamespace(namespace);
+
+        if (!Number.isInteger(expectedVersion) || expectedVersion < 0) {
+          throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, 'expectedVersion must be a non-negative integer', 'INVALID_VERSION', { key, namespace, expectedVersion }, 400);
+        }
+
+        try {
+          const version = await this.writeVersion(
+            namespace,
+            key,
+            value,
+            { action: 'set', details: { expectedVersion } },
+            this.resolveExpiry(options || {}),
+            expectedVersion
+          );
+          return { swapped: true, version };
+        } catch (error) {
+          if (error instanceof ServiceError && error.code === 'KEY_VERSION_MISMATCH') {
+            return { swapped: false, version: error.details!.currentVersion };
+          }
+          throw error;
+        }
+      },
+      { metadata: { key, namespace } }
+    );
+  }
+
+  /**
+   * Add delta to an integer key, starting from 0 when it is absent or expired. The expiry
+   * options apply only when the increment creates the key; later increments keep its expiry.
+   */
+  async incrementKey(namespace: string, key: string, delta: number = 1, options: ISetKeyOptions = {}): Promise<IServiceResponse<IIncrementResult>> {
+    return this.executeOperation(
+      'incrementKey',
+      async () => {
+        namespace = this.resolveNamespace(namespace);
+
+        if (!Number.isSafeInteger(delta)) {
+          throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, 'delta must be an integer', 'INVALID_DELTA', { key, namespace, delta }, 400);
+        }
+
+        for (let attempt = 1; ; attempt++) {
+          const entry = await this.readEntry(namespace, key);
+          const current = entry ? Number(entry.value) : 0;
+
+          if (!Number.isSafeInteger(current)) {
+            throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, `Key ${namespace}/${key} does not hold an integer`, 'NOT_AN_INTEGER', { key, namespace }, 400);
+          }
+
+          try {
+            const value = current + delta;
+            const version = await this.writeVersion(
+              namespace,
+              key,
+              String(value),
+              { action: 'increment', details: { delta } },
+              entry ? entry.expiresAt : this.resolveExpiry(options || {}),
+              entry?.version ?? 0
+            );
+            return { value, version };
+          } catch (error) {
+            // Another writer got in between the read and the write - read again
+            if (error instanceof ServiceError && error.code === 'KEY_VERSION_MISMATCH' && attempt < MAX_WRITE_ATTEMPTS) {
+              continue;
+            }
+            throw error;
+          }
+        }
+      },
+      { metadata: { key, namespace } }
+    );
+  }
+
+  /**
+   * Write a new version of a key. With expectedVersion the write only happens while the key is
+   * at that version (0: absent or expired), otherwise it fails with KEY_VERSION_MISMATCH.
+   * Recorded writes also keep the version in keystore_history and add a keystore_audit entry;
+   * the health check's throwaway key is not recorded.
+   */
+  private async writeVersion(
+    namespace: string,
+    key: string,
+    value: string,
+    record: { action: KeystoreAuditAction; details?: Record<string, unknown> } | null,
+    expiresAt: string | null = null,
+    expectedVersion?: number
+  ): Promise<number> {
+    let encrypted!: EncryptedValue;
+    let version = 0;
+
+    // Each attempt is conditional on what it read, so a concurrent writer makes it re-read rather than overwrite
+    for (let attempt = 1; ; attempt++) {
+      const [existing] = await this.queryRows(
+        [
           { property: 'from', args: ['keystore'] },
-          { property: 'select', args: ['id'] },
+          { property: 'select', args: ['id, version, expires_at'] },
+          { property: 'eq', args: ['scope', namespace] },
           { property: 'eq', args: ['key_name', key] },
           { property: 'limit', args: [1] }
-        ]);
-
-        const checkResult = wrappedCheckResult.data;
+        ],
+        'Failed during existence check',
+        'SET_KEY_EXISTENCE_CHECK_ERROR',
+        { key, namespace }
+      );
 
-        if (checkResult.error) {
+      if (expectedVersion !== undefined) {
+        const currentVersion = currentVersionOf(existing);
+        if (currentVersion !== expectedVersion) {
           throw new ServiceError(
-            ServiceErrorType.EXTERNAL_SERVICE_ERROR,
-            `Failed during existence check: ${checkResult.error}`,
-            'SET_KEY_EXISTENCE_CHECK_ERROR',
-            { key, namespace, originalError: checkResult.error }
+            ServiceErrorType.CONFLICT_ERROR,
+            `Key ${namespace}/${key} is at version ${currentVersion}, not ${expectedVersion}`,
+            'KEY_VERSION_MISMATCH',
+            { key, namespace, expectedVersion, currentVersion },
+            409
           );
         }
+      }
 
-        const exists = checkResult.data && checkResult.data.length > 0;
+      // Entries written before versioning count as version 0
+      const storedVersion: number | null = existing?.version ?? null;
+      version = (storedVersion ?? 0) + 1;
+      encrypted = await this.encryption.encrypt(value, { scope: namespace, key_name: key, version });
 
-        let wrappedResult;
-        if (exists) {
-          // Update existing key
-          wrappedResult = await this.callWrappedSupabase([
+      const written = existing
+        ? await this.queryRows(
+          [
             { property: 'from', args: ['keystore'] },
-            { property: 'update', args: [{ key_value: value, updated_at: nowISO() }] },
-            { property: 'eq', args: ['key_name', key] }
-          ]);
-        } else {
-          // Insert new key
-          wrappedResult = await this.callWrappedSupabase([
+            { property: 'update', args: [{ ...encrypted, version, expires_at: expiresAt, updated_at: nowISO() }] },
+            { property: 'eq', args: ['id', existing.id] },
+            storedVersion === null
+              ? { property: 'is', args: ['version', null] }
+              : { property: 'eq', args: ['version', storedVersion] },
+            { property: 'select', args: ['id'] }
+          ],
+          'Failed to update key',
+          'UPDATE_KEY_ERROR',
+          { key, namespace }
+        )
+        // Ignoring duplicates leaves a key inserted concurrently alone; the next attempt updates it
+        : await this.queryRows(
+          [
             { property: 'from', args: ['keystore'] },
-            { property: 'insert', args: [{ key_name: key, key_value: value }] }
-          ]);
-        }
+            {
+              property: 'upsert',
+              args: [
+                { scope: namespace, key_name: key, ...encrypted, version, expires_at: expiresAt },
+                { onConflict: 'scope,key_name', ignoreDuplicates: true }
+              ]
+            },
+            { property: 'select', args: ['id'] }
+          ],
+          'Failed to insert key',
+          'INSERT_KEY_ERROR',
+          { key, namespace }
+        );
 
-        const result = wrappedResult.data;
+      if (written.length > 0) {
+        break;
+      }
 
-        if (result.error) {
-          const action = exists ? 'update' : 'insert';
-          throw new ServiceError(
-            ServiceErrorType.EXTERNAL_SERVICE_ERROR,
-            `Failed to ${action} key: ${result.error}`,
-            `${action.toUpperCase()}_KEY_ERROR`,
-            { key, namespace, action, originalError: result.error }
-          );
-        }
+      if (attempt >= MAX_WRITE_ATTEMPTS) {
+        throw new ServiceError(
+          ServiceErrorType.CONFLICT_ERROR,
+          `Key ${namespace}/${key} kept changing under ${MAX_WRITE_ATTEMPTS} write attempts, retry the write`,
+          'KEY_VERSION_CONFLICT',
+          { key, namespace, version: storedVersion },
+          409
+        );
+      }
+    }
 
-        return true;
-      },
-      { key, namespace, value }
+    if (record) {
+      const fingerprint = await fingerprintValue(value);
+      const createdAt = nowISO();
+
+      await this.queryRows(
+        [
+          { property: 'from', args: ['keystore_history'] },
+          {
+            property: 'insert',
+            args: [{ scope: namespace, key_name: key, version, ...encrypted, expires_at: expiresAt, fingerprint, caller: this.caller.principal, caller_hint: this.caller.hint, created_at: createdAt }]
+          }
+        ],
+        'Failed to record key history',
+        'KEY_HISTORY_ERROR',
+        { key, namespace, version }
+      );
+      await this.recordAudit({
+        action: record.action,
+        scope: namespace,
+        key_name: key,
+        version,
+        fingerprint,
+        caller: this.caller.principal,
+        caller_hint: this.caller.hint,
+        details: record.details ?? null,
+        created_at: createdAt
+      });
+    }
+
+    return version;
+  }
+
+  private async recordAudit(entry: IAuditEntry): Promise<void> {
+    await this.queryRows(
+      [
+        { property: 'from', args: ['keystore_audit'] },
+        { property: 'insert', args: [entry] }
+      ],
+      'Failed to record keystore audit entry',
+      'KEY_AUDIT_ERROR',
+      { key: entry.key_name, namespace: entry.scope, action: entry.action }
     );
   }
-  
+
   // List all keys in a namespace
-  async listKeys(namespace: string): Promise<string[]> {
+  async listKeys(namespace: string): Promise<IServiceResponse<string[]>> {
     return this.executeOperation(
       'listKeys',
       async () => {
-        const wrappedResult = await this.callWrappedSupabase([
-          { property: 'from', args: ['keystore'] },
-          { property: 'select', args: ['key_name'] }
-        ]);
+        namespace = this.resolveNamespace(namespace);
 
-        const result = wrappedResult.data;
-
-        if (result.error) {
-          throw new ServiceError(
-            ServiceErrorType.EXTERNAL_SERVICE_ERROR,
-            `Failed to list keys: ${result.error}`,
-            'LIST_KEYS_ERROR',
-            { namespace, originalError: result.error }
-          );
-        }
+        const rows = await this.queryRows(
+          [
+            { property: 'from', args: ['keystore'] },
+            { property: 'select', args: ['key_name, expires_at'] },
+            { property: 'eq', args: ['scope', namespace] },
+            { property: 'order', args: ['key_name'] }
+          ],
+          'Failed to list keys',
+          'LIST_KEYS_ERROR',
+          { namespace }
+        );
 
-        return result.data?.length ? result.data.map((row: any) => row.key_name) : [];
+        return rows.filter((row: any) => !isExpired(row)).map((row: any) => row.key_name);
       },
-      { namespace }
+      { metadata: { namespace } }
     );
   }
   
   // Check if a key exists in a namespace
-  async hasKey(namespace: string, key: string): Promise<boolean> {
+  async hasKey(namespace: string, key: string): Promise<IServiceResponse<boolean>> {
     return this.executeOperation(
       'hasKey',
       async () => {
-        const wrappedResult = await this.callWrappedSupabase([
-          { property: 'from', args: ['keystore'] },
-          { property: 'select', args: ['id'] },
-          { property: 'eq', args: ['key_name', key] },
-          { property: 'limit', args: [1] }
-        ]);
+        namespace = this.resolveNamespace(namespace);
 
-        const result = wrappedResult.data;
+        const rows = await this.queryRows(
+          [
+            { property: 'from', args: ['keystore'] },
+            { property: 'select', args: ['id, expires_at'] },
+            { property: 'eq', args: ['scope', namespace] },
+            { property: 'eq', args: ['key_name', key] },
+            { property: 'limit', args: [1] }
+          ],
+          'Failed to check key existence',
+          'HAS_KEY_ERROR',
+          { key, namespace }
+        );
 
-        if (result.error) {
+        return rows.some((row: any) => !isExpired(row));
+      },
+      { metadata: { key, namespace } }
+    );
+  }
+  
+  // Delete a key along with its retained versions; false when there was nothing to delete
+  async deleteKey(namespace: string, key: string): Promise<IServiceResponse<boolean>> {
+    return this.executeOperation(
+      'deleteKey',
+      async () => {
+        namespace = this.resolveNamespace(namespace);
+
+        const deleted = await this.queryRows(
+          [
+            { property: 'from', args: ['keystore'] },
+            { property: 'delete' },
+            { property: 'eq', args: ['scope', namespace] },
+            { property: 'eq', args: ['key_name', key] },
+            { property: 'select', args: ['version'] }
+          ],
+          'Failed to delete key',
+          'DELETE_KEY_ERROR',
+          { key, namespace }
+        );
+
+        if (deleted.length === 0) {
+          return false;
+        }
+
+        await this.purgeHistory(namespace, key);
+        await this.recordAudit({
+          action: 'delete',
+          scope: namespace,
+          key_name: key,
+          version: deleted[0].version ?? null,
+          fingerprint: null,
+          caller: this.caller.principal,
+          caller_hint: this.caller.hint,
+          details: null,
+          created_at: nowISO()
+        });
+        return true;
+      },
+      { metadata: { key, namespace } }
+    );
+  }
+
+  // Rename a key within its namespace, keeping its value, expiry and history. Values are sealed
+  // for their key name, so the entry and its retained versions are re-sealed under the new one.
+  async renameKey(namespace: string, key: string, newKey: string): Promise<IServiceResponse<boolean>> {
+    return this.executeOperation(
+      'renameKey',
+      async () => {
+        namespace = this.resolveNamespace(namespace);
+
+        if (typeof newKey !== 'string' || newKey === '') {
+          throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, 'newKey must be a non-empty string', 'INVALID_KEY_NAME', { key, namespace }, 400);
+        }
+
+        const [existing] = await this.queryRows(
+          [
+            { property: 'from', args: ['keystore'] },
+            { property: 'select', args: ['id, version, expires_at, key_value, data_key, key_version'] },
+            { property: 'eq', args: ['scope', namespace] },
+            { property: 'eq', args: ['key_name', key] },
+            { property: 'limit', args: [1] }
+          ],
+          'Failed to look up key',
+          'RENAME_KEY_ERROR',
+          { key, namespace }
+        );
+
+        if (!existing || isExpired(existing)) {
+          throw new ServiceError(ServiceErrorType.NOT_FOUND_ERROR, `Key ${namespace}/${key} does not exist`, 'KEY_NOT_FOUND', { key, namespace }, 404);
+        }
+
+        const resealed = await this.reseal(existing, namespace, key, newKey);
+        let renamed: any[];
+        try {
+          // Matching the old sealed value leaves a key written meanwhile alone, rather than overwriting it
+          renamed = await this.queryRows(
+            [
+              { property: 'from', args: ['keystore'] },
+              { property: 'update', args: [{ key_name: newKey, ...resealed, updated_at: nowISO() }] },
+              { property: 'eq', args: ['id', existing.id] },
+              { property: 'eq', args: ['key_value', existing.key_value] },
+              { property: 'select', args: ['id'] }
+            ],
+            'Failed to rename key',
+            'RENAME_KEY_ERROR',
+            { key, newKey, namespace }
+          );
+        } catch (error) {
+          // The unique (scope, key_name) constraint rejects a name that is already taken
+          if (error instanceof ServiceError && error.details?.originalError?.code === '23505') {
+            throw new ServiceError(
+              ServiceErrorType.CONFLICT_ERROR,
+              `Key ${namespace}/${newKey} already exists`,
+              'KEY_EXISTS',
+              { key, newKey, namespace },
+              409
+            );
+          }
+          throw error;
+        }
+
+        if (renamed.length === 0) {
           throw new ServiceError(
-            ServiceErrorType.EXTERNAL_SERVICE_ERROR,
-            `Failed to check key existence: ${result.error}`,
-            'HAS_KEY_ERROR',
-            { key, namespace, originalError: result.error }
+            ServiceErrorType.CONFLICT_ERROR,
+            `Key ${namespace}/${key} changed while it was being renamed, retry the rename`,
+            'KEY_VERSION_CONFLICT',
+            { key, newKey, namespace },
+            409
           );
         }
 
-        return result.data && result.data.length > 0;
+        const history = await this.queryRows(
+          [
+            { property: 'from', args: ['keystore_history'] },
+            { property: 'select', args: ['id, version, key_value, data_key, key_version'] },
+            { property: 'eq', args: ['scope', namespace] },
+            { property: 'eq', args: ['key_name', key] }
+          ],
+          'Failed to read key history',
+          'KEY_HISTORY_ERROR',
+          { key, newKey, namespace }
+        );
+        for (const row of history) {
+          await this.queryRows(
+            [
+              { property: 'from', args: ['keystore_history'] },
+              { property: 'update', args: [{ key_name: newKey, ...(await this.reseal(row, namespace, key, newKey)) }] },
+              { property: 'eq', args: ['id', row.id] }
+            ],
+            'Failed to move key history',
+            'KEY_HISTORY_ERROR',
+            { key, newKey, namespace, version: row.version }
+          );
+        }
+        await this.recordAudit({
+          action: 'rename',
+          scope: namespace,
+          key_name: newKey,
+          version: existing.version ?? null,
+          fingerprint: null,
+          caller: this.caller.principal,
+          caller_hint: this.caller.hint,
+          details: { from: key },
+          created_at: nowISO()
+        });
+        return true;
       },
+      { metadata: { key, namespace } }
+    );
+  }
+
+  // Seal a stored value again for the same version under a new key name
+  private async reseal(row: EncryptedValue & { version?: number | null }, namespace: string, key: string, newKey: string): Promise<EncryptedValue> {
+    const version = row.version ?? null;
+    const value = await this.encryption.decrypt(row, { scope: namespace, key_name: key, version });
+    return await this.encryption.encrypt(value, { scope: namespace, key_name: newKey, version });
+  }
+
+  // Delete every key past its expiry, with its retained versions
+  async sweepExpiredKeys(): Promise<IServiceResponse<{ deleted: number }>> {
+    return this.executeOperation(
+      'sweepExpiredKeys',
+      async () => {
+        this.requireServiceRole('sweepExpiredKeys');
+
+        const now = nowISO();
+
+        // Matching on expires_at in the delete itself spares a key re-set since it expired
+        const expired = await this.queryRows(
+          [
+            { property: 'from', args: ['keystore'] },
+            { property: 'delete' },
+            { property: 'lte', args: ['expires_at', now] },
+            { property: 'select', args: ['scope, key_name, version, expires_at'] }
+          ],
+          'Failed to delete expired keys',
+          'SWEEP_KEYS_ERROR',
+          {}
+        );
+
+        for (const row of expired) {
+          await this.purgeHistory(row.scope, row.key_name);
+          await this.recordAudit({
+            action: 'expire',
+            scope: row.scope,
+            key_name: row.key_name,
+            version: row.version ?? null,
+            fingerprint: null,
+            caller: this.caller.principal,
+            caller_hint: this.caller.hint,
+            details: { expiresAt: row.expires_at },
+            created_at: now
+          });
+        }
+
+        if (expired.length > 0) {
+          logger.info(`Swept ${expired.length} expired keystore key(s)`);
+        }
+        return { deleted: expired.length };
+      }
+    );
+  }
+
+  private async purgeHistory(namespace: string, key: string): Promise<void> {
+    await this.queryRows(
+      [
+        { property: 'from', args: ['keystore_history'] },
+        { property: 'delete' },
+        { property: 'eq', args: ['scope', namespace] },
+        { property: 'eq', args: ['key_name', key] }
+      ],
+      'Failed to delete key history',
+      'KEY_HISTORY_ERROR',
       { key, namespace }
     );
   }
-  
+
   // List all namespaces
-  async listNamespaces(): Promise<string[]> {
+  async listNamespaces(): Promise<IServiceResponse<string[]>> {
     return this.executeOperation(
       'listNamespaces',
       async () => {
@@ -305,6 +907,165 @@ class KeystoreService extends BaseService {
     );
   }
   
+  // List the retained versions of a key, newest first
+  async listKeyVersions(namespace: string, key: string): Promise<IServiceResponse<IKeyVersion[]>> {
+    return this.executeOperation(
+      'listKeyVersions',
+      async () => {
+        this.requireServiceRole('listKeyVersions');
+
+        namespace = this.resolveNamespace(namespace);
+
+        return await this.queryRows(
+          [
+            { property: 'from', args: ['keystore_history'] },
+            { property: 'select', args: ['version, fingerprint, caller, caller_hint, created_at'] },
+            { property: 'eq', args: ['scope', namespace] },
+            { property: 'eq', args: ['key_name', key] },
+            { property: 'order', args: ['version', { ascending: false }] }
+          ],
+          'Failed to list key versions',
+          'LIST_KEY_VERSIONS_ERROR',
+          { key, namespace }
+        );
+      },
+      { metadata: { key, namespace } }
+    );
+  }
+
+  // Make an earlier version of a key current again, as a new version
+  async rollbackKey(namespace: string, key: string, version: number): Promise<IServiceResponse<{ version: number }>> {
+    return this.executeOperation(
+      'rollbackKey',
+      async () => {
+        this.requireServiceRole('rollbackKey');
+
+        namespace = this.resolveNamespace(namespace);
+
+        const [previous] = await this.queryRows(
+          [
+            { property: 'from', args: ['keystore_history'] },
+            { property: 'select', args: ['key_value, data_key, key_version, version, expires_at'] },
+            { property: 'eq', args: ['scope', namespace] },
+            { property: 'eq', args: ['key_name', key] },
+            { property: 'eq', args: ['version', version] },
+            { property: 'limit', args: [1] }
+          ],
+          'Failed to read key version',
+          'ROLLBACK_KEY_ERROR',
+          { key, namespace, version }
+        );
+
+        if (!previous || isExpired(previous)) {
+          throw new ServiceError(
+            ServiceErrorType.NOT_FOUND_ERROR,
+            previous ? `Version ${version} of key ${namespace}/${key} has expired` : `Key ${namespace}/${key} has no version ${version}`,
+            'KEY_VERSION_NOT_FOUND',
+            { key, namespace, version },
+            404
+          );
+        }
+
+        const value = await this.encryption.decrypt(previous, { scope: namespace, key_name: key, version });
+        const newVersion = await this.writeVersion(namespace, key, value, {
+          action: 'rollback',
+          details: { restoredVersion: version }
+        }, previous.expires_at ?? null);
+
+        logger.info(`Rolled keystore key ${namespace}/${key} back to version ${version} as version ${newVersion}`);
+        return { version: newVersion };
+      },
+      { metadata: { key, namespace } }
+    );
+  }
+
+  // Recent keystore changes, newest first, optionally for one namespace or key
+  async getAuditLog(namespace?: string, key?: string, limit: number = DEFAULT_AUDIT_LIMIT): Promise<IServiceResponse<IAuditEntry[]>> {
+    return this.executeOperation(
+      'getAuditLog',
+      async () => {
+        this.requireServiceRole('getAuditLog');
+
+        const boundedLimit = Math.min(Math.max(Math.floor(Number(limit)) || DEFAULT_AUDIT_LIMIT, 1), MAX_AUDIT_LIMIT);
+
+        return await this.queryRows(
+          [
+            { property: 'from', args: ['keystore_audit'] },
+            { property: 'select', args: ['action, scope, key_name, version, fingerprint, caller, caller_hint, details, created_at'] },
+            ...(namespace ? [{ property: 'eq', args: ['scope', this.resolveNamespace(namespace)] }] : []),
+            ...(key ? [{ property: 'eq', args: ['key_name', key] }] : []),
+            { property: 'order', args: ['created_at', { ascending: false }] },
+            { property: 'limit', args: [boundedLimit] }
+          ],
+          'Failed to read keystore audit log',
+          'AUDIT_LOG_ERROR',
+          { key, namespace }
+        );
+      },
+      { metadata: { key, namespace } }
+    );
+  }
+
+  // Re-encrypt every entry not sealed by the current master key
+  async rotateMasterKey(): Promise<IServiceResponse<IRotationResult>> {
+    return this.executeOperation(
+      'rotateMasterKey',
+      async () => {
+        this.requireServiceRole('rotateMasterKey');
+
+        if (!this.encryption.enabled) {
+          throw new ServiceError(
+            ServiceErrorType.CONFIGURATION_ERROR,
+            'KEYSTORE_MASTER_KEY must be set to rotate the master key',
+            'MASTER_KEY_NOT_CONFIGURED',
+            undefined,
+            409
+          );
+        }
+
+        // Retained versions are re-encrypted too, so they stay readable once the old key is dropped
+        let rotated = 0;
+        let total = 0;
+
+        for (const table of ['keystore', 'keystore_history']) {
+          const rows: Array<EncryptedValue & EncryptionContext & { id: number }> = await this.queryRows(
+            [
+              { property: 'from', args: [table] },
+              { property: 'select', args: ['id, scope, key_name, version, key_value, data_key, key_version'] }
+            ],
+            `Failed to read ${table} for rotation`,
+            'ROTATE_READ_ERROR',
+            { table }
+          );
+          total += rows.length;
+
+          for (const row of rows.filter(row => this.encryption.isStale(row))) {
+            const context = { scope: row.scope, key_name: row.key_name, version: row.version ?? null };
+            const value = await this.encryption.decrypt(row, context);
+            const encrypted = await this.encryption.encrypt(value, context);
+
+            // Matching the old sealed value leaves the row alone if a write or rename re-sealed it meanwhile
+            await this.queryRows(
+              [
+                { property: 'from', args: [table] },
+                { property: 'update', args: [table === 'keystore' ? { ...encrypted, updated_at: nowISO() } : encrypted] },
+                { property: 'eq', args: ['id', row.id] },
+                { property: 'eq', args: ['key_value', row.key_value] }
+              ],
+              `Failed to re-encrypt key ${row.key_name}`,
+              'ROTATE_UPDATE_ERROR',
+              { table, key: row.key_name, rotated }
+            );
+            rotated++;
+          }
+        }
+
+        logger.info(`Re-encrypted ${rotated} of ${total} keystore entries and versions with master key version ${this.encryption.currentVersion}`);
+        return { keyVersion: this.encryption.currentVersion!, rotated, total };
+      }
+    );
+  }
+
   // Get the current server time
   getServerTime(): IServerTimeResult {
     const timestamp = nowISO();
@@ -318,15 +1079,16 @@ class KeystoreService extends BaseService {
     try {
       // Test keystore functionality
       const testKey = `health_check_${Date.now()}`;
-      await this.setKey('health', testKey, 'test_value');
-      const retrievedValue = await this.getKey('health', testKey);
+      await this.writeVersion('health', testKey, 'test_value', null);
+      const retrieved = await this.getKey('health', testKey);
       await this.callWrappedSupabase([
         { property: 'from', args: ['keystore'] },
         { property: 'delete' },
+        { property: 'eq', args: ['scope', 'health'] },
         { property: 'eq', args: ['key_name', testKey] }
       ]);
 
-      if (retrievedValue !== 'test_value') {
+      if (retrieved.data !== 'test_value') {
         throw new Error('Keystore functionality test failed');
       }
 
@@ -347,6 +1109,42 @@ class KeystoreService extends BaseService {
 // Create keystore service instance
 const keystoreService = new KeystoreService();
 
+/**
+ * Operations reachable through the method and chain request formats, called with positional
+ * arguments as task code passes them. Nothing else on the service can be reached that way.
+ */
+type KeystoreMethod = (service: KeystoreService, args: unknown[]) => unknown;
+
+const KEYSTORE_METHODS: Record<string, KeystoreMethod> = {
+  getKey: (service, args) => service.getKey(...(args as Parameters<KeystoreService['getKey']>)),
+  setKey: (service, args) => service.setKey(...(args as Parameters<KeystoreService['setKey']>)),
+  getKeyEntry: (service, args) => service.getKeyEntry(...(args as Parameters<KeystoreService['getKeyEntry']>)),
+  compareAndSetKey: (service, args) => service.compareAndSetKey(...(args as Parameters<KeystoreService['compareAndSetKey']>)),
+  incrementKey: (service, args) => service.incrementKey(...(args as Parameters<KeystoreService['incrementKey']>)),
+  listKeys: (service, args) => service.listKeys(...(args as Parameters<KeystoreService['listKeys']>)),
+  hasKey: (service, args) => service.hasKey(...(args as Parameters<KeystoreService['hasKey']>)),
+  deleteKey: (service, args) => service.deleteKey(...(args as Parameters<KeystoreService['deleteKey']>)),
+  renameKey: (service, args) => service.renameKey(...(args as Parameters<KeystoreService['renameKey']>)),
+  sweepExpiredKeys: (service) => service.sweepExpiredKeys(),
+  listNamespaces: (service) => service.listNamespaces(),
+  listKeyVersions: (service, args) => service.listKeyVersions(...(args as Parameters<KeystoreService['listKeyVersions']>)),
+  rollbackKey: (service, args) => service.rollbackKey(...(args as Parameters<KeystoreService['rollbackKey']>)),
+  getAuditLog: (service, args) => service.getAuditLog(...(args as Parameters<KeystoreService['getAuditLog']>)),
+  rotateMasterKey: (service) => service.rotateMasterKey(),
+  getServerTime: (service) => service.getServerTime()
+};
+
+function callKeystoreMethod(service: KeystoreService, name: unknown, args: unknown): unknown {
+  if (typeof name !== 'string' || !Object.hasOwn(KEYSTORE_METHODS, name)) {
+    throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, `Unknown method: ${name}`, 'UNKNOWN_METHOD', { method: name }, 400);
+  }
+  return KEYSTORE_METHODS[name](service, Array.isArray(args) ? args : []);
+}
+
+function isFailedOperation(result: unknown): result is Required<Pick<IServiceResponse, 'error'>> {
+  return typeof result === 'object' && result !== null && (result as IServiceResponse).success === false && !!(result as IServiceResponse).error;
+}
+
 // Enhanced Keystore HTTP Handler
 class KeystoreHttpHandler extends BaseHttpHandler {
   protected async routeHandler(req: Request, url: URL): Promise<Response> {
@@ -370,56 +1168,104 @@ class KeystoreHttpHandler extends BaseHttpHandler {
 
       try {
         let result;
+        const service = keystoreService.forRequest(req);
 
         // Handle both action and chain formats
         if (body.action) {
           // Map action to method calls
           switch (body.action) {
             case "getKey":
-              result = await keystoreService.getKey(body.namespace || 'global', body.key);
+              result = await service.getKey(body.namespace || 'global', body.key, body.version);
               break;
             case "setKey":
-              result = await keystoreService.setKey(body.namespace || 'global', body.key, body.value);
+              result = await service.setKey(body.namespace || 'global', body.key, body.value, {
+                expiresAt: body.expiresAt,
+                ttlSeconds: body.ttlSeconds
+              });
+              break;
+            case "getKeyEntry":
+              result = await service.getKeyEntry(body.namespace || 'global', body.key);
+              break;
+            case "compareAndSetKey":
+              result = await service.compareAndSetKey(body.namespace || 'global', body.key, body.expectedVersion, body.value, {
+                expiresAt: body.expiresAt,
+                ttlSeconds: body.ttlSeconds
+              });
+              break;
+            case "incrementKey":
+              result = await service.incrementKey(body.namespace || 'global', body.key, body.delta ?? 1, {
+                expiresAt: body.expiresAt,
+                ttlSeconds: body.ttlSeconds
+              });
               break;
             case "listKeys":
-              result = await keystoreService.listKeys(body.namespace || 'global');
+              result = await service.listKeys(body.namespace || 'global');
               break;
             case "hasKey":
-              result = await keystoreService.hasKey(body.namespace || 'global', body.key);
+              result = await service.hasKey(body.namespace || 'global', body.key);
+              break;
+            case "deleteKey":
+              result = await service.deleteKey(body.namespace || 'global', body.key);
+              break;
+            case "renameKey":
+              result = await service.renameKey(body.namespace || 'global', body.key, body.newKey);
+              break;
+            case "sweepExpiredKeys":
+              result = await service.sweepExpiredKeys();
+              break;
+            case "listKeyVersions":
+              result = await service.listKeyVersions(body.namespace || 'global', body.key);
+              break;
+            case "rollbackKey":
+              result = await service.rollbackKey(body.namespace || 'global', body.key, body.version);
+              break;
+            case "getAuditLog":
+              result = await service.getAuditLog(body.namespace, body.key, body.limit);
               break;
             case "listNamespaces":
-              result = await keystoreService.listNamespaces();
+              result = await service.listNamespaces();
+              break;
+            case "rotateMasterKey":
+              result = await service.rotateMasterKey();
               break;
             case "getServerTime":
-              result = keystoreService.getServerTime();
+              result = service.getServerTime();
               break;
             default:
-              throw new Error(`Unknown action: ${body.action}`);
+              throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, `Unknown action: ${body.action}`, 'UNKNOWN_ACTION', { action: body.action }, 400);
           }
         }
-        // Handle chain format manually (no executeMethodChain import)
+        // Task host calls arrive from the stack processor as a method with positional args
+        else if (body.method) {
+          result = await callKeystoreMethod(service, body.method, body.args);
+        }
+        // The service registry sends a one-step chain naming the method
         else if (body.chain) {
-          // Execute method chain manually
-          let current: any = keystoreService;
-          for (const step of body.chain) {
-            if (typeof current[step.property] === 'function') {
-              current = await current[step.property](...(step.args || []));
-            } else {
-              throw new Error(`Method '${step.property}' not found or not callable`);
-            }
+          if (!Array.isArray(body.chain) || body.chain.length !== 1) {
+            throw new ServiceError(ServiceErrorType.VALIDATION_ERROR, 'A keystore chain must have exactly one step', 'INVALID_CHAIN_FORMAT', undefined, 400);
           }
-          result = current;
+          result = await callKeystoreMethod(service, body.chain[0]?.property, body.chain[0]?.args);
         }
         else {
           throw new Error("Request must include either 'action' or 'chain' property");
         }
 
+        // A failed operation comes back as its envelope, and is answered with the status of its error
+        if (isFailedOperation(result)) {
+          return this.createErrorResponse(
+            result.error.message,
+            result.error.statusCode || HttpStatus.INTERNAL_SERVER_ERROR,
+            undefined,
+            { code: result.error.code, details: result.error.details }
+          );
+        }
+
         return this.createSuccessResponse(result);
       } catch (error: unknown) {
         const err = error instanceof Error ? error : new Error(String(error));
         return this.createErrorResponse(
           err.message,
-          (err as any).status || HttpStatus.INTERNAL_SERVER_ERROR
+          err instanceof ServiceError ? err.statusCode : HttpStatus.INTERNAL_SERVER_ERROR
         );
       }
     }
@@ -431,6 +1277,10 @@ class KeystoreHttpHandler extends BaseHttpHandler {
 
 // Create handler instance and start serving
 const keystoreHandler = new KeystoreHttpHandler();
-const port = parseInt(Deno.env.get('PORT') || '8003');
-console.log(`Starting keystore service on port ${port}...`);
-serve((req) => keystoreHandler.handle(req), { port });
\ No newline at end of file
+export const handler = (req: Request) => keystoreHandler.handle(req);
+
+if (import.meta.main) {
+  const port = parseInt(Deno.env.get('PORT') || '8003');
+  console.log(`Starting keystore service on port ${port}...`);
+  serve(handler, { port });
+}
\ No newline at end of file
@@ -0,0 +1,264 @@
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+const OLD_MASTER_KEY = btoa(String.fromCharCode(...new Uint8Array(32).fill(1)));
+const MASTER_KEY = btoa(String.fromCharCode(...new Uint8Array(32).fill(2)));
+
+// The keystore runs in process on the memory storage backend, reaching it through a locally mounted wrappedsupabase
+Deno.env.set('STORAGE_BACKEND', 'memory');
+Deno.env.set('LOG_LEVEL', 'error');
+Deno.env.set('KEYSTORE_MASTER_KEY', MASTER_KEY);
+Deno.env.set('KEYSTORE_MASTER_KEY_VERSION', '2');
+Deno.env.set('KEYSTORE_PREVIOUS_MASTER_KEYS', JSON.stringify({ 1: OLD_MASTER_KEY }));
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key');
+
+// Administrative actions need the service role key
+const SERVICE_ROLE = { Authorization: 'Bearer service-role-key' };
+
+const { serviceRegistry } = await import("../_shared/service-registry.ts");
+const { handler: supabaseHandler } = await import("../supabase/index.ts");
+serviceRegistry.registerLocalHandler('wrappedsupabase', supabaseHandler);
+const { handler } = await import("./index.ts");
+const { createStorageClient } = await import("../_shared/storage-service.ts");
+const { KeystoreEncryption } = await import("./encryption.ts");
+
+async function call(body: Record<string, unknown>, headers: Record<string, string> = {}): Promise<{ status: number; body: any }> {
+  const response = await handler(new Request('http://localhost/functions/v1/wrappedkeystore', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+// The result of an operation that is expected to succeed
+async function result(body: Record<string, unknown>, headers: Record<string, string> = {}): Promise<any> {
+  const response = await call(body, headers);
+  assertEquals(response.status, 200, JSON.stringify(response.body));
+  return response.body.data.data;
+}
+
+Deno.test('compareAndSetKey - writes only at the expected version', async () => {
+  const key = { namespace: 'cas', key: 'lease' };
+
+  assertEquals(await result({ action: 'compareAndSetKey', ...key, expectedVersion: 0, value: 'run-1' }), { swapped: true, version: 1 });
+  assertEquals(await result({ action: 'compareAndSetKey', ...key, expectedVersion: 0, value: 'run-2' }), { swapped: false, version: 1 });
+  assertEquals(await result({ action: 'compareAndSetKey', ...key, expectedVersion: 1, value: 'run-2' }), { swapped: true, version: 2 });
+  assertEquals(await result({ action: 'getKeyEntry', ...key }), { value: 'run-2', version: 2, expiresAt: null });
+});
+
+Deno.test('compareAndSetKey - a bad expected version fails with 400', async () => {
+  const response = await call({ action: 'compareAndSetKey', namespace: 'cas', key: 'bad', expectedVersion: -1, value: 'x' });
+
+  assertEquals(response.status, 400);
+  assertEquals(response.body.details.code, 'INVALID_VERSION');
+});
+
+Deno.test('compareAndSetKey - task calls in method format get the same result', async () => {
+  const response = await call({ method: 'compareAndSetKey', args: ['cas', 'marker', 0, 'done'] });
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.data, { swapped: true, version: 1 });
+});
+
+Deno.test('incrementKey - counts from zero and adds the delta', async () => {
+  assertEquals(await result({ action: 'incrementKey', namespace: 'counters', key: 'hits' }), { value: 1, version: 1 });
+  assertEquals(await result({ action: 'incrementKey', namespace: 'counters', key: 'hits', delta: 5 }), { value: 6, version: 2 });
+  assertEquals(await result({ action: 'getKey', namespace: 'counters', key: 'hits' }), '6');
+});
+
+Deno.test('incrementKey - concurrent increments all land', async () => {
+  const results = await Promise.all([1, 2, 3].map(() => result({ action: 'incrementKey', namespace: 'counters', key: 'concurrent' })));
+
+  assertEquals(results.map(r => r.value).sort(), [1, 2, 3]);
+  assertEquals(await result({ action: 'getKey', namespace: 'counters', key: 'concurrent' }), '3');
+});
+
+Deno.test('incrementKey - non-integer values and deltas fail with 400', async () => {
+  await result({ action: 'setKey', namespace: 'counters', key: 'text', value: 'abc' });
+
+  const notInteger = await call({ action: 'incrementKey', namespace: 'counters', key: 'text' });
+  assertEquals(notInteger.status, 400);
+  assertEquals(notInteger.body.details.code, 'NOT_AN_INTEGER');
+
+  const badDelta = await call({ action: 'incrementKey', namespace: 'counters', key: 'hits', delta: 1.5 });
+  assertEquals(badDelta.status, 400);
+  assertEquals(badDelta.body.details.code, 'INVALID_DELTA');
+});
+
+Deno.test('setKey - rejects conflicting or past expiries with 400', async () => {
+  const both = await call({ action: 'setKey', namespace: 'ttl', key: 'k', value: 'v', ttlSeconds: 60, expiresAt: '2999-01-01T00:00:00Z' });
+  assertEquals(both.status, 400);
+  assertEquals(both.body.details.code, 'INVALID_EXPIRY');
+
+  const past = await call({ action: 'setKey', namespace: 'ttl', key: 'k', value: 'v', expiresAt: '2000-01-01T00:00:00Z' });
+  assertEquals(past.status, 400);
+});
+
+Deno.test('sweepExpiredKeys - expired keys read as absent until swept', async () => {
+  await result({ action: 'setKey', namespace: 'ttl', key: 'fresh', value: 'v', ttlSeconds: 3600 });
+  // Keys cannot be written already expired, so this one is put in storage directly
+  await createStorageClient().from('keystore').insert({
+    scope: 'ttl', key_name: 'stale', key_value: 'v', data_key: null, key_version: null, version: 1, expires_at: '2000-01-01T00:00:00.000Z'
+  });
+
+  assertEquals(await result({ action: 'getKey', namespace: 'ttl', key: 'stale' }), null);
+  assertEquals(await result({ action: 'hasKey', namespace: 'ttl', key: 'stale' }), false);
+  assertEquals(await result({ action: 'listKeys', namespace: 'ttl' }), ['fresh']);
+
+  assertEquals(await result({ action: 'sweepExpiredKeys' }, SERVICE_ROLE), { deleted: 1 });
+  assertEquals(await result({ action: 'sweepExpiredKeys' }, SERVICE_ROLE), { deleted: 0 });
+  assertEquals(await result({ action: 'hasKey', namespace: 'ttl', key: 'fresh' }), true);
+
+  const [entry] = await result({ action: 'getAuditLog', namespace: 'ttl', key: 'stale' }, SERVICE_ROLE);
+  assertEquals(entry.action, 'expire');
+});
+
+Deno.test('deleteKey - reports whether the key existed', async () => {
+  await result({ action: 'setKey', namespace: 'lifecycle', key: 'gone', value: 'v' });
+
+  assertEquals(await result({ action: 'deleteKey', namespace: 'lifecycle', key: 'gone' }), true);
+  assertEquals(await result({ action: 'deleteKey', namespace: 'lifecycle', key: 'gone' }), false);
+  assertEquals(await result({ action: 'listKeyVersions', namespace: 'lifecycle', key: 'gone' }, SERVICE_ROLE), []);
+});
+
+Deno.test('renameKey - missing keys fail with 404 and taken names with 409', async () => {
+  await result({ action: 'setKey', namespace: 'lifecycle', key: 'a', value: '1' });
+  await result({ action: 'setKey', namespace: 'lifecycle', key: 'b', value: '2' });
+
+  const missing = await call({ action: 'renameKey', namespace: 'lifecycle', key: 'nope', newKey: 'c' });
+  assertEquals(missing.status, 404);
+  assertEquals(missing.body.details.code, 'KEY_NOT_FOUND');
+
+  const taken = await call({ action: 'renameKey', namespace: 'lifecycle', key: 'a', newKey: 'b' });
+  assertEquals(taken.status, 409);
+  assertEquals(taken.body.details.code, 'KEY_EXISTS');
+
+  assertEquals(await result({ action: 'renameKey', namespace: 'lifecycle', key: 'a', newKey: 'c' }), true);
+  assertEquals(await result({ action: 'getKey', namespace: 'lifecycle', key: 'c' }), '1');
+  assertEquals(await result({ action: 'getKey', namespace: 'lifecycle', key: 'c', version: 1 }), '1');
+});
+
+Deno.test('getKey - a sealed value copied to another key does not decrypt', async () => {
+  await result({ action: 'setKey', namespace: 'sealed', key: 'source', value: 'secret' });
+  const storage = createStorageClient();
+  const { data: [sealed] } = await storage.from('keystore').select('key_value, data_key, key_version, version').eq('scope', 'sealed').eq('key_name', 'source');
+
+  await storage.from('keystore').insert([
+    { scope: 'sealed', key_name: 'copy', ...sealed, expires_at: null },
+    { scope: 'elsewhere', key_name: 'source', ...sealed, expires_at: null }
+  ]);
+
+  for (const target of [{ namespace: 'sealed', key: 'copy' }, { namespace: 'elsewhere', key: 'source' }]) {
+    const response = await call({ action: 'getKey', ...target });
+    assertEquals(response.status, 500);
+    assertEquals(response.body.details.code, 'DECRYPT_FAILED');
+  }
+  await storage.from('keystore').delete().eq('scope', 'sealed').eq('key_name', 'copy');
+  await storage.from('keystore').delete().eq('scope', 'elsewhere');
+});
+
+Deno.test('rollbackKey - restores an earlier version as a new one', async () => {
+  const key = { namespace: 'history', key: 'token' };
+  await result({ action: 'setKey', ...key, value: 'first' });
+  await result({ action: 'setKey', ...key, value: 'second' });
+
+  assertEquals(await result({ action: 'rollbackKey', ...key, version: 1 }, SERVICE_ROLE), { version: 3 });
+  assertEquals(await result({ action: 'getKey', ...key }), 'first');
+  assertEquals((await result({ action: 'listKeyVersions', ...key }, SERVICE_ROLE)).map((entry: any) => entry.version), [3, 2, 1]);
+});
+
+Deno.test('rollbackKey - a version that does not exist fails with 404', async () => {
+  await result({ action: 'setKey', namespace: 'history', key: 'single', value: 'only' });
+
+  const response = await call({ action: 'rollbackKey', namespace: 'history', key: 'single', version: 7 }, SERVICE_ROLE);
+  assertEquals(response.status, 404);
+  assertEquals(response.body.details.code, 'KEY_VERSION_NOT_FOUND');
+});
+
+Deno.test('getAuditLog - records the authenticated caller and keeps X-Caller as a hint', async () => {
+  await call({ action: 'setKey', namespace: 'audited', key: 'secret', value: 'v' }, { 'X-Caller': 'task_run:7', Authorization: 'Bearer forged' });
+
+  const [entry] = await result({ action: 'getAuditLog', namespace: 'audited', key: 'secret' }, SERVICE_ROLE);
+  assertEquals(entry.action, 'set');
+  assertEquals(entry.caller, 'unverified');
+  assertEquals(entry.caller_hint, 'task_run:7');
+  assertEquals(entry.version, 1);
+});
+
+Deno.test('administrative actions - refused with 403 without the service role key', async () => {
+  await result({ action: 'setKey', namespace: 'admin', key: 'guarded', value: 'v' });
+  const key = { namespace: 'admin', key: 'guarded' };
+
+  for (const headers of [{}, { Authorization: 'Bearer anon-or-forged' }] as Record<string, string>[]) {
+    for (const body of [
+      { action: 'listKeyVersions', ...key },
+      { action: 'rollbackKey', ...key, version: 1 },
+      { action: 'getAuditLog', ...key },
+      { action: 'rotateMasterKey' },
+      { action: 'sweepExpiredKeys' },
+      { method: 'getAuditLog', args: ['admin'] }
+    ]) {
+      const response = await call(body, headers);
+      assertEquals(response.status, 403, JSON.stringify(body));
+      assertEquals(response.body.details.code, 'SERVICE_ROLE_REQUIRED');
+    }
+  }
+
+  assertEquals((await result({ action: 'listKeyVersions', ...key }, SERVICE_ROLE)).length, 1);
+});
+
+Deno.test('keystore methods - only allow-listed operations are reachable', async () => {
+  for (const method of ['constructor', 'writeVersion', 'forRequest', 'toString']) {
+    const response = await call({ method, args: [] });
+    assertEquals(response.status, 400, method);
+  }
+
+  const chain = await call({ chain: [{ property: 'getServerTime' }, { property: 'constructor' }] });
+  assertEquals(chain.status, 400);
+});
+
+Deno.test('rotateMasterKey - re-encrypts values sealed by older keys or none', async () => {
+  await result({ action: 'setKey', namespace: 'rotation', key: 'current', value: 'new' });
+  const storage = createStorageClient();
+  await storage.from('keystore').insert([
+    { scope: 'rotation', key_name: 'legacy', ...(await new KeystoreEncryption({ 1: OLD_MASTER_KEY }, 1).encrypt('old', { scope: 'rotation', key_name: 'legacy', version: 1 })), version: 1, expires_at: null },
+    { scope: 'rotation', key_name: 'plain', key_value: 'unsealed', data_key: null, key_version: null, version: 1, expires_at: null }
+  ]);
+
+  const rotation = await result({ action: 'rotateMasterKey' }, SERVICE_ROLE);
+  assertEquals(rotation.keyVersion, 2);
+  assertEquals(rotation.rotated, 2);
+  assertEquals(await result({ action: 'getKey', namespace: 'rotation', key: 'legacy' }), 'old');
+  assertEquals(await result({ action: 'getKey', namespace: 'rotation', key: 'plain' }), 'unsealed');
+
+  const { data: rows } = await storage.from('keystore').select('key_name, key_value, key_version').eq('scope', 'rotation');
+  assert(rows.every((row: any) => row.key_version === 2 && row.key_value !== 'unsealed'));
+  assertEquals((await result({ action: 'rotateMasterKey' }, SERVICE_ROLE)).rotated, 0);
+});
+
+Deno.test('getKey - a value sealed by an unknown master key fails with 503', async () => {
+  await createStorageClient().from('keystore').insert({
+    scope: 'rotation',
+    key_name: 'orphaned',
+    ...(await new KeystoreEncryption({ 9: OLD_MASTER_KEY }, 9).encrypt('lost', { scope: 'rotation', key_name: 'orphaned', version: 1 })),
+    version: 1,
+    expires_at: null
+  });
+
+  const response = await call({ action: 'getKey', namespace: 'rotation', key: 'orphaned' });
+  assertEquals(response.status, 503);
+  assertEquals(response.body.details.code, 'MASTER_KEY_MISSING');
+
+  // Nothing can re-encrypt it, so rotation reports the failure too
+  const rotation = await call({ action: 'rotateMasterKey' }, SERVICE_ROLE);
+  assertEquals(rotation.status, 503);
+  await createStorageClient().from('keystore').delete().eq('scope', 'rotation').eq('key_name', 'orphaned');
+});
+
+Deno.test('health check - reads back the value it wrote', async () => {
+  const response = await handler(new Request('http://localhost/health'));
+  const body = await response.json();
+
+  assertEquals(response.status, 200);
+  assertEquals(body.data.keystore.healthy, true);
+});
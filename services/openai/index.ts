@@ -134,6 +134,9 @@ class WrappedOpenAIHandler extends BaseHttpHandler {
 
 // Create handler instance and start serving
 const wrappedOpenAIHandler = new WrappedOpenAIHandler();
-serve((req) => wrappedOpenAIHandler.handle(req));
+export const handler = (req: Request) => wrappedOpenAIHandler.handle(req);
 
-logger.info({ context: 'WrappedOpenAI', message: 'Function initialized and server started' });
\ No newline at end of file
+if (import.meta.main) {
+  serve(handler);
+  logger.info({ context: 'WrappedOpenAI', message: 'Function initialized and server started' });
+}
\ No newline at end of file
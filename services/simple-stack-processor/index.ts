@@ -7,18 +7,19 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { nowISO } from 'tasker-utils/timestamps';
+import { createStorageClient } from '../_shared/storage-service.ts';
+import { serviceRegistry } from '../_shared/service-registry.ts';
+import { validateSchema, formatViolations } from '../_shared/schema-validator.ts';
+import { ServiceCallError, AttemptTimeoutError, resolveRetryPolicy, isRetryableError, computeBackoffMs, type RetryPolicy, type ServiceFailure } from './retry-policy.ts';
+import { authorizeTaskCall, KEYSTORE_SERVICE } from './keystore-policy.ts';
 
 // Environment variables
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
 const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
-// Use internal Kong URL for self-triggering to avoid rate limits
-const INTERNAL_URL = 'http://kong:8000';
-
-// Create direct Supabase client
+// Create storage client (Supabase unless STORAGE_BACKEND selects a local backend)
 async function createSupabaseClient() {
-  const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
-  return createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+  return createStorageClient({ url: SUPABASE_URL, key: SERVICE_ROLE_KEY });
 }
 
 // CORS headers
@@ -94,21 +95,21 @@ async function unlockTaskChain(taskRunId: number): Promise<void> {
 
 // Fire-and-forget stack processor trigger - pure HTTP chaining
 function triggerStackProcessorAsync(): void {
-  const triggerUrl = `${INTERNAL_URL}/functions/v1/simple-stack-processor`;
+  // Self-calls go through the internal gateway to avoid rate limiting
+  const triggerUrl = serviceRegistry.getFunctionUrl('simple-stack-processor', '', { internal: true });
   log("info", `🔄 Triggering next stack processor cycle via ${triggerUrl}`);
 
-  // Use internal Kong URL to avoid rate limiting on self-calls
   // setTimeout makes it async and non-blocking
   setTimeout(() => {
     const startTime = Date.now();
-    fetch(triggerUrl, {
+    serviceRegistry.invokeFunction('simple-stack-processor', '', {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "Authorization": `Bearer ${SERVICE_ROLE_KEY}`
       },
       body: JSON.stringify({ trigger: 'process-next' })
-    }).then(response => {
+    }, { internal: true }).then(response => {
       const duration = Date.now() - startTime;
       log("info", `✅ HTTP trigger completed: status=${response.status} duration=${duration}ms url=${triggerUrl}`);
       return response.text().then(text => {
@@ -140,18 +141,32 @@ async function cleanupStaleLocks(): Promise<void> {
     }
 
     // Clean up stale "processing" stack runs (stuck for >2 minutes)
+    // Timed-out attempts are retried when their policy allows it, otherwise failed
     const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000).toISOString();
     const { data: staleRuns, error: runsError } = await supabase
       .from('stack_runs')
-      .update({ status: 'failed', error: 'Processing timeout - marked as failed by auto-recovery' })
+      .select('*')
       .eq('status', 'processing')
-      .lt('updated_at', twoMinutesAgo)
-      .select();
+      .lt('updated_at', twoMinutesAgo);
 
     if (runsError) {
       log("warn", `Error cleaning up stale processing runs: ${runsError.message}`);
     } else if (staleRuns && staleRuns.length > 0) {
-      log("info", `Cleaned up ${staleRuns.length} stale processing stack runs older than 2 minutes`);
+      let retried = 0;
+      for (const staleRun of staleRuns) {
+        const timeout = new AttemptTimeoutError('Processing timeout - attempt abandoned');
+        if (await scheduleRetry(staleRun, staleRun.attempt || 1, timeout)) {
+          retried++;
+          continue;
+        }
+
+        await supabase
+          .from('stack_runs')
+          .update({ status: 'failed', error: 'Processing timeout - marked as failed by auto-recovery', ended_at: nowISO() })
+          .eq('id', staleRun.id)
+          .eq('status', 'processing');
+      }
+      log("info", `Cleaned up ${staleRuns.length} stale processing stack runs older than 2 minutes (${retried} scheduled for retry)`);
     }
   } catch (error) {
     log("warn", `Exception during stale resource cleanup: ${error instanceof Error ? error.message : String(error)}`);
@@ -199,7 +214,7 @@ async function getStackRun(id: number) {
 }
 
 // Update stack run status
-async function updateStackRunStatus(id: number, status: string, result?: any, error?: string) {
+async function updateStackRunStatus(id: number, status: string, result?: any, error?: string, errorStatus?: number, failure?: ServiceFailure) {
   const supabase = await createSupabaseClient();
   const updates: any = {
     status,
@@ -208,6 +223,11 @@ async function updateStackRunStatus(id: number, status: string, result?: any, er
 
   if (result !== undefined) updates.result = result;
   if (error !== undefined) updates.error = error;
+  if (errorStatus !== undefined) updates.error_status = errorStatus;
+  if (failure) {
+    updates.error_type = failure.type;
+    updates.error_details = failure.details ?? null;
+  }
   if (status === 'completed' || status === 'failed') updates.ended_at = nowISO();
 
   const { data, error: updateError } = await supabase
@@ -220,6 +240,202 @@ async function updateStackRunStatus(id: number, status: string, result?: any, er
   if (updateError) throw new Error(`Failed to update stack run ${id}: ${updateError.message}`);
 }
 
+// Stack run statuses a cancellation stops; runs that are processing are aborted once their call returns
+const CANCELLABLE_STATUSES = ['pending', 'processing', 'pending_resume', 'suspended_waiting_child', 'waiting_timer', 'waiting_signal'];
+
+// If the stack run's task run was cancelled, cancel every unfinished stack run of that task run
+async function abortIfCancelled(stackRun: any): Promise<boolean> {
+  if (!stackRun.parent_task_run_id) {
+    return false;
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data: taskRun, error } = await supabase
+    .from('task_runs')
+    .select('status')
+    .eq('id', stackRun.parent_task_run_id)
+    .single();
+
+  if (error || !taskRun || taskRun.status !== 'cancelled') {
+    return false;
+  }
+
+  log("info", `Task run ${stackRun.parent_task_run_id} was cancelled, aborting stack run ${stackRun.id}`);
+
+  const { error: cancelError } = await supabase
+    .from('stack_runs')
+    .update({
+      status: 'cancelled',
+      error: 'Task run cancelled',
+      ended_at: nowISO(),
+      updated_at: nowISO()
+    })
+    .eq('parent_task_run_id', stackRun.parent_task_run_id)
+    .in('status', CANCELLABLE_STATUSES);
+
+  if (cancelError) {
+    log("error", `Failed to cancel stack runs of task run ${stackRun.parent_task_run_id}: ${cancelError.message}`);
+  }
+  return true;
+}
+
+// Mark a stack run as suspended on a batch of children (a single call is a batch of one)
+async function markWaitingOnChildren(stackRunId: number, childIds: number[]) {
+  await updateStackRunStatus(stackRunId, 'suspended_waiting_child');
+
+  const supabase = await createSupabaseClient();
+  const { error: updateError } = await supabase
+    .from('stack_runs')
+    .update({
+      waiting_on_stack_run_id: childIds[0],
+      waiting_on_stack_run_ids: childIds,
+      updated_at: nowISO()
+    })
+    .eq('id', stackRunId);
+
+  if (updateError) {
+    log("error", `Failed to update waiting_on_stack_run_id: ${updateError.message}`);
+  } else {
+    log("info", `Updated stack run ${stackRunId} to wait for children ${childIds.join(', ')}`);
+  }
+}
+
+// Mark a stack run as suspended until its durable timer is due or, for signal waits,
+// until a signal arrives (resumeAt is then the optional timeout)
+async function markWaitingOnDeadline(
+  stackRunId: number,
+  status: 'waiting_timer' | 'waiting_signal',
+  resumeAt?: string,
+  signals: string[] = []
+) {
+  const supabase = await createSupabaseClient();
+  const { error: updateError } = await supabase
+    .from('stack_runs')
+    .update({
+      status,
+      resume_at: resumeAt ?? null,
+      waiting_signals: signals,
+      waiting_on_stack_run_id: null,
+      waiting_on_stack_run_ids: [],
+      updated_at: nowISO()
+    })
+    .eq('id', stackRunId);
+
+  if (updateError) {
+    throw new Error(`Failed to suspend stack run ${stackRunId} as ${status}: ${updateError.message}`);
+  }
+  log("info", `Updated stack run ${stackRunId} to ${status}${resumeAt ? ` until ${resumeAt}` : ''}`);
+}
+
+// The children a suspended stack run is waiting on, in call order
+function getWaitingChildIds(stackRun: any): number[] {
+  if (Array.isArray(stackRun.waiting_on_stack_run_ids) && stackRun.waiting_on_stack_run_ids.length > 0) {
+    return stackRun.waiting_on_stack_run_ids;
+  }
+  return stackRun.waiting_on_stack_run_id ? [stackRun.waiting_on_stack_run_id] : [];
+}
+
+// Claim a pending stack run for processing - only one worker wins when children are triggered concurrently
+// Each claim starts a new attempt; the retry policy is fixed on the first one
+async function claimStackRun(stackRun: any): Promise<boolean> {
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from('stack_runs')
+    .update({
+      status: 'processing',
+      attempt: (stackRun.attempt || 0) + 1,
+      retry_policy: getRetryPolicy(stackRun),
+      updated_at: nowISO()
+    })
+    .eq('id', stackRun.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw new Error(`Failed to claim stack run ${stackRun.id}: ${error.message}`);
+  return !!data && data.length > 0;
+}
+
+// The retry policy stored with a stack run, or the configured one for its service method
+function getRetryPolicy(stackRun: any): RetryPolicy {
+  return stackRun.retry_policy || resolveRetryPolicy(stackRun.service_name, stackRun.method_name);
+}
+
+// Put a failed attempt back in the queue if its policy allows another one
+async function scheduleRetry(stackRun: any, attempt: number, error: unknown, expectedStatus: string = 'processing'): Promise<boolean> {
+  const policy = getRetryPolicy(stackRun);
+  const errorMessage = error instanceof Error ? error.message : String(error);
+
+  if (attempt >= policy.maxAttempts || !isRetryableError(error, policy)) {
+    return false;
+  }
+
+  const delayMs = computeBackoffMs(attempt, policy);
+  const nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+
+  const supabase = await createSupabaseClient();
+  const { data, error: updateError } = await supabase
+    .from('stack_runs')
+    .update({
+      status: 'pending',
+      attempt,
+      next_attempt_at: nextAttemptAt,
+      error: errorMessage,
+      updated_at: nowISO()
+    })
+    .eq('id', stackRun.id)
+    .eq('status', expectedStatus)
+    .select('id');
+
+  if (updateError || !data || data.length === 0) {
+    log("error", `Failed to schedule retry for stack run ${stackRun.id}: ${updateError?.message || 'status changed'}`);
+    return false;
+  }
+
+  log("info", `Stack run ${stackRun.id} attempt ${attempt}/${policy.maxAttempts} failed (${errorMessage}), retrying at ${nextAttemptAt}`);
+
+  // Best effort for short delays; longer ones are picked up by the scheduled process-timers trigger
+  if (delayMs <= 30000) {
+    setTimeout(() => triggerStackProcessorAsync(), delayMs);
+  }
+  return true;
+}
+
+// Fire-and-forget processing of one specific stack run
+function triggerStackRunAsync(stackRunId: number): void {
+  setTimeout(() => {
+    serviceRegistry.invokeFunction('simple-stack-processor', '', {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${SERVICE_ROLE_KEY}`
+      },
+      body: JSON.stringify({ stackRunId })
+    }, { internal: true }).then(response => response.text()).catch(error => {
+      log("error", `❌ HTTP trigger for stack run ${stackRunId} FAILED: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }, 0);
+}
+
+// Apply the result shape task code expects for a child's service
+function formatChildResult(child: any, result: any) {
+  // CRITICAL: Ensure the result is in the correct format for the task code
+  // The task code expects the same structure as the original Google API response
+  if (child.service_name === 'wrappedgapi') {
+    // The result should already be in the correct format from wrappedgapi
+    // but let's ensure it's properly structured
+    if (child.method_name === 'admin.domains.list' && result && !result.domains && Array.isArray(result)) {
+      // If we got a raw array, wrap it in the expected structure
+      log("info", `Wrapped domains array in expected structure for task code`);
+      return { domains: result };
+    } else if (child.method_name === 'admin.users.list' && result && !result.users && Array.isArray(result)) {
+      // If we got a raw array, wrap it in the expected structure
+      log("info", `Wrapped users array in expected structure for task code`);
+      return { users: result };
+    }
+  }
+  return result;
+}
+
 // Process a service call
 async function processServiceCall(stackRun: any) {
   const { service_name, method_name, args, vm_state } = stackRun;
@@ -229,6 +445,12 @@ async function processServiceCall(stackRun: any) {
   try {
     let response;
 
+    // Calls from task code are held to the services and keystore namespaces the task may use
+    if (stackRun.parent_stack_run_id) {
+      const parent = service_name === KEYSTORE_SERVICE ? await getStackRun(stackRun.parent_stack_run_id) : null;
+      authorizeTaskCall(parent?.args?.taskPermissions, service_name, method_name, args);
+    }
+
     if (service_name === 'deno-executor' && method_name === 'execute') {
       // Special handling for deno-executor calls (main tasks)
       const requestBody = {
@@ -236,11 +458,13 @@ async function processServiceCall(stackRun: any) {
         taskCode: args?.taskCode || vm_state?.taskCode,
         taskRunId: stackRun.parent_task_run_id,
         stackRunId: stackRun.id,
-        taskInput: args?.taskInput || vm_state?.taskInput || {}
+        taskInput: args?.taskInput || vm_state?.taskInput || {},
+        taskPermissions: args?.taskPermissions,
+        taskLimits: args?.taskLimits
       };
 
       // Make direct HTTP call to deno-executor
-      const denoResponse = await fetch(`${SUPABASE_URL}/functions/v1/deno-executor`, {
+      const denoResponse = await serviceRegistry.invokeFunction('deno-executor', '', {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${SERVICE_ROLE_KEY}`,
@@ -250,7 +474,14 @@ async function processServiceCall(stackRun: any) {
       });
 
       if (!denoResponse.ok) {
-        throw new Error(`Deno-executor call failed: ${denoResponse.status}`);
+        const failureBody = await denoResponse.json().catch(() => ({}));
+        throw new ServiceCallError(
+          failureBody.error ? `Deno-executor call failed: ${failureBody.error}` : `Deno-executor call failed: ${denoResponse.status}`,
+          service_name,
+          method_name,
+          denoResponse.status,
+          executorFailure(failureBody)
+        );
       }
 
       response = await denoResponse.json();
@@ -262,7 +493,7 @@ async function processServiceCall(stackRun: any) {
       };
 
       // Make direct HTTP call to tasks service
-      const tasksResponse = await fetch(`${SUPABASE_URL}/functions/v1/tasks/execute`, {
+      const tasksResponse = await serviceRegistry.invokeFunction('tasks', '/execute', {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${SERVICE_ROLE_KEY}`,
@@ -272,7 +503,7 @@ async function processServiceCall(stackRun: any) {
       });
 
       if (!tasksResponse.ok) {
-        throw new Error(`Tasks call failed: ${tasksResponse.status}`);
+        throw new ServiceCallError(`Tasks call failed: ${tasksResponse.status}`, service_name, method_name, tasksResponse.status);
       }
 
       response = await tasksResponse.json();
@@ -302,25 +533,44 @@ async function processServiceCall(stackRun: any) {
         };
       }
 
-      const wrappedResponse = await fetch(`${SUPABASE_URL}/functions/v1/${service_name}`, {
+      const wrappedResponse = await serviceRegistry.invokeFunction(service_name, '', {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${SERVICE_ROLE_KEY}`,
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          // Services that audit their callers, like the keystore, keep the task run as an unverified hint
+          'X-Caller': `task_run:${stackRun.parent_task_run_id}`
         },
         body: JSON.stringify(requestBody)
       });
 
       if (!wrappedResponse.ok) {
-        throw new Error(`${service_name} call failed: ${wrappedResponse.status}`);
+        const failureBody = await wrappedResponse.json().catch(() => ({}));
+        throw new ServiceCallError(
+          failureBody.error ? `${service_name} call failed: ${failureBody.error}` : `${service_name} call failed: ${wrappedResponse.status}`,
+          service_name,
+          method_name,
+          wrappedResponse.status
+        );
       }
 
       response = await wrappedResponse.json();
+
+      // The keystore answers with its operation envelope, which reports a failed operation itself
+      if (service_name === KEYSTORE_SERVICE && response.data?.success === false) {
+        const failure = response.data.error || {};
+        throw new ServiceCallError(
+          `${service_name} call failed: ${failure.message || 'Unknown error'}`,
+          service_name,
+          method_name,
+          failure.statusCode || 500
+        );
+      }
     }
 
     // Check for error responses (wrapped services format)
     if (response.error) {
-      throw new Error(`Service call failed: ${response.error}`);
+      throw new ServiceCallError(`Service call failed: ${response.error}`, service_name, method_name);
     }
 
     const result = response.data || response;
@@ -329,57 +579,41 @@ async function processServiceCall(stackRun: any) {
     // CRITICAL: Check if this is a suspension response from deno-executor
     // The suspension data might be nested in result.result for deno-executor responses
     const suspensionData = result?.result || result;
-    if (suspensionData && suspensionData.__hostCallSuspended === true) {
-      log("info", `Task suspended for external call, child stack run: ${suspensionData.stackRunId}`);
+    if (suspensionData && suspensionData.__hostCallSuspended === true && suspensionData.signals?.length) {
+      log("info", `Task suspended waiting for signal(s) ${suspensionData.signals.join(', ')}`);
 
-      // Update the current stack run to suspended_waiting_child
-      await updateStackRunStatus(stackRun.id, 'suspended_waiting_child');
+      await markWaitingOnDeadline(stackRun.id, 'waiting_signal', suspensionData.resumeAt, suspensionData.signals);
 
-      // Update waiting_on_stack_run_id to track which child we're waiting for
-      const supabase = await createSupabaseClient();
-      const { error: updateError } = await supabase
-        .from('stack_runs')
-        .update({
-          waiting_on_stack_run_id: suspensionData.stackRunId,
-          updated_at: nowISO()
-        })
-        .eq('id', stackRun.id);
+      throw new Error(`SUSPENDED_WAITING_FOR_SIGNAL:${suspensionData.signals.join(',')}`);
+    }
 
-      if (updateError) {
-        log("error", `Failed to update waiting_on_stack_run_id: ${updateError.message}`);
-      } else {
-        log("info", `Updated stack run ${stackRun.id} to wait for child ${suspensionData.stackRunId}`);
-      }
+    if (suspensionData && suspensionData.__hostCallSuspended === true && suspensionData.resumeAt && !suspensionData.stackRunIds?.length) {
+      log("info", `Task suspended on durable timer until ${suspensionData.resumeAt}`);
+
+      await markWaitingOnDeadline(stackRun.id, 'waiting_timer', suspensionData.resumeAt);
+
+      throw new Error(`SUSPENDED_WAITING_FOR_TIMER:${suspensionData.resumeAt}`);
+    }
+
+    if (suspensionData && suspensionData.__hostCallSuspended === true) {
+      const childIds: number[] = suspensionData.stackRunIds || [suspensionData.stackRunId];
+      log("info", `Task suspended for external call(s), child stack runs: ${childIds.join(', ')}`);
+
+      await markWaitingOnChildren(stackRun.id, childIds);
 
       // Return suspension indicator instead of the suspension object
-      throw new Error(`SUSPENDED_WAITING_FOR_CHILD:${suspensionData.stackRunId}`);
+      throw new Error(`SUSPENDED_WAITING_FOR_CHILD:${childIds.join(',')}`);
     }
 
     // Check if this is a FlowState suspension response
     if (result && result.status === 'paused' && result.suspensionData) {
-      log("info", `FlowState task suspended for external call, child stack run: ${result.suspensionData.stackRunId}`);
+      const childIds: number[] = result.suspensionData.stackRunIds || [result.suspensionData.stackRunId];
+      log("info", `FlowState task suspended for external call(s), child stack runs: ${childIds.join(', ')}`);
 
-      // Update the current stack run to suspended_waiting_child
-      await updateStackRunStatus(stackRun.id, 'suspended_waiting_child');
-
-      // Update waiting_on_stack_run_id to track which child we're waiting for
-      const supabase = await createSupabaseClient();
-      const { error: updateError } = await supabase
-        .from('stack_runs')
-        .update({
-          waiting_on_stack_run_id: result.suspensionData.stackRunId,
-          updated_at: nowISO()
-        })
-        .eq('id', stackRun.id);
-
-      if (updateError) {
-        log("error", `Failed to update waiting_on_stack_run_id for FlowState: ${updateError.message}`);
-      } else {
-        log("info", `Updated FlowState stack run ${stackRun.id} to wait for child ${result.suspensionData.stackRunId}`);
-      }
+      await markWaitingOnChildren(stackRun.id, childIds);
 
       // Return suspension indicator for FlowState
-      throw new Error(`SUSPENDED_WAITING_FOR_CHILD:${result.suspensionData.stackRunId}`);
+      throw new Error(`SUSPENDED_WAITING_FOR_CHILD:${childIds.join(',')}`);
     }
 
     return result;
@@ -390,8 +624,130 @@ async function processServiceCall(stackRun: any) {
   }
 }
 
-// Resume parent task
-async function resumeParentTask(stackRun: any, result: any) {
+// Typed failure reported by deno-executor, e.g. a task that exceeded one of its limits or did not compile
+function executorFailure(body: any): ServiceFailure | undefined {
+  return body?.errorType ? { type: body.errorType, details: body.errorDetails } : undefined;
+}
+
+// Fail the task run of a top-level stack run whose task threw or could not be resumed
+async function failTaskRun(stackRun: any, error: string) {
+  if (stackRun.parent_stack_run_id || !stackRun.parent_task_run_id) {
+    return;
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error: updateError } = await supabase
+    .from('task_runs')
+    .update({
+      status: 'failed',
+      error,
+      ended_at: nowISO()
+    })
+    .eq('id', stackRun.parent_task_run_id)
+    .neq('status', 'cancelled');
+
+  if (updateError) {
+    log("error", `Failed to update task run ${stackRun.parent_task_run_id} to failed: ${updateError.message}`);
+  } else {
+    log("info", `Updated task run ${stackRun.parent_task_run_id} to failed`);
+  }
+}
+
+// Complete the task run of a finished top-level stack run. A run submitted with
+// validate_result carries its @returns schema and fails when the result does not match it
+async function completeTaskRun(stackRun: any, result: any) {
+  if (stackRun.parent_stack_run_id || !stackRun.parent_task_run_id) {
+    return;
+  }
+
+  const resultSchema = stackRun.args?.taskResultSchema;
+  if (resultSchema) {
+    const violations = validateSchema(result, resultSchema, 'result');
+    if (violations.length > 0) {
+      await failTaskRun(stackRun, `Task result does not match its schema: ${formatViolations(violations)}`);
+      return;
+    }
+  }
+
+  const supabase = await createSupabaseClient();
+  await supabase
+    .from('task_runs')
+    .update({
+      status: 'completed',
+      result,
+      ended_at: nowISO()
+    })
+    .eq('id', stackRun.parent_task_run_id);
+  log("info", `Updated task run ${stackRun.parent_task_run_id} to completed`);
+}
+
+// Resume a suspended stack run in deno-executor and record the outcome
+async function resumeStackRun(target: any, resumeBody: Record<string, any>) {
+  // Call deno-executor to resume the task with direct HTTP call
+  const resumeResponse = await serviceRegistry.invokeFunction('deno-executor', '/resume', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      stackRunId: target.id,
+      ...resumeBody
+    })
+  });
+
+  const resumeResult = await resumeResponse.json().catch(() => ({}));
+
+  // deno-executor answers directly; the service registry wraps the same payload in data
+  const resumeData = resumeResult.data || resumeResult;
+
+  // A task that throws after resuming (e.g. an uncaught HostCallError) answers 500 with status 'error' -
+  // that is the run's outcome, not a failure to resume
+  if (resumeData.status !== 'error') {
+    if (!resumeResponse.ok) {
+      throw new Error(`Failed to resume stack run: ${resumeResponse.status}`);
+    }
+    if (resumeResult.error) {
+      throw new Error(`Failed to resume stack run: ${resumeResult.error}`);
+    }
+  }
+  log("info", `Stack run ${target.id} resumed successfully`);
+
+  // Log the resume result for debugging
+  log("debug", `Resume result structure: ${JSON.stringify(resumeResult).substring(0, 500)}`);
+
+  // Handle different resume statuses including service registry response format
+  if (resumeData.status === 'completed') {
+    await updateStackRunStatus(target.id, 'completed', resumeData.result);
+
+    // A completed top-level task stack run completes its task run
+    await completeTaskRun(target, resumeData.result);
+  } else if (resumeData.status === 'error') {
+    await updateStackRunStatus(target.id, 'failed', null, resumeData.error, undefined, executorFailure(resumeData));
+    await failTaskRun(target, resumeData.error);
+  } else if (resumeData.status === 'paused' || resumeData.suspensionData) {
+    // Task paused again on the next unanswered call - this is normal behavior
+    log("info", `Stack run ${target.id} paused again (multi-step execution)`);
+    // The stack run is already in the correct suspended state in the database
+    // No need to update status here as it's handled by the deno-executor
+
+    // Trigger processing of the newly created children - concurrently when the task fanned out
+    const childIds: number[] = resumeData.suspensionData?.stackRunIds || [];
+    if (childIds.length > 1) {
+      childIds.forEach(childId => triggerStackRunAsync(childId));
+    } else {
+      triggerStackProcessorAsync();
+    }
+  } else {
+    log("warn", `Unknown resume result for stack run ${target.id}: ${JSON.stringify(resumeResult).substring(0, 200)}`);
+    // DO NOT mark as completed - this could be a suspension we don't recognize!
+    // The status should be left as-is (deno-executor manages it)
+    log("info", `Leaving stack run ${target.id} status unchanged - deno-executor manages it`);
+  }
+}
+
+// Resume parent task once every child it is waiting on has completed or failed
+async function resumeParentTask(stackRun: any) {
   if (!stackRun.parent_stack_run_id) {
     log("info", `Stack run ${stackRun.id} has no parent to resume`);
     return;
@@ -419,36 +775,62 @@ async function resumeParentTask(stackRun: any, result: any) {
     return;
   }
 
-  // Check if parent is waiting for this specific child stack run
-  if (parentStackRun.waiting_on_stack_run_id !== stackRun.id) {
-    log("info", `Parent stack run ${stackRun.parent_stack_run_id} is waiting for stack run ${parentStackRun.waiting_on_stack_run_id}, not ${stackRun.id}, not resuming`);
+  // Check if this child belongs to the batch the parent is waiting for
+  const waitingOn = getWaitingChildIds(parentStackRun);
+  if (!waitingOn.includes(stackRun.id)) {
+    log("info", `Parent stack run ${stackRun.parent_stack_run_id} is waiting for stack runs ${waitingOn.join(', ')}, not ${stackRun.id}, not resuming`);
     return;
   }
 
-  log("info", `Resuming parent task ${stackRun.parent_stack_run_id} with result from expected child ${stackRun.id}`);
+  // Fan-in: the parent resumes only once the whole batch has settled
+  const { data: childrenData, error: childrenError } = await supabase
+    .from('stack_runs')
+    .select('id, service_name, method_name, status, result, error, error_status')
+    .in('id', waitingOn);
 
-  try {
-    // CRITICAL: Ensure the result is in the correct format for the task code
-    // The task code expects the same structure as the original Google API response
-    let formattedResult = result;
-
-    // For Google API calls, ensure the result has the expected wrapper structure
-    if (stackRun.service_name === 'wrappedgapi') {
-      // The result should already be in the correct format from wrappedgapi
-      // but let's ensure it's properly structured
-      if (stackRun.method_name === 'admin.domains.list' && result && !result.domains && Array.isArray(result)) {
-        // If we got a raw array, wrap it in the expected structure
-        formattedResult = { domains: result };
-        log("info", `Wrapped domains array in expected structure for task code`);
-      } else if (stackRun.method_name === 'admin.users.list' && result && !result.users && Array.isArray(result)) {
-        // If we got a raw array, wrap it in the expected structure
-        formattedResult = { users: result };
-        log("info", `Wrapped users array in expected structure for task code`);
-      }
-    }
+  if (childrenError || !childrenData) {
+    log("error", `Failed to get children of parent stack run ${stackRun.parent_stack_run_id}: ${childrenError?.message}`);
+    return;
+  }
 
-    // Update parent to pending_resume status
-    await updateStackRunStatus(stackRun.parent_stack_run_id, 'pending_resume');
+  const unsettled = childrenData.filter((child: any) => child.status !== 'completed' && child.status !== 'failed');
+  if (unsettled.length > 0) {
+    log("info", `Parent stack run ${stackRun.parent_stack_run_id} still waiting on ${unsettled.length} of ${waitingOn.length} children`);
+    return;
+  }
+
+  // Several children can settle at once - only the worker that moves the parent out of suspension resumes it
+  const { data: claimed, error: claimError } = await supabase
+    .from('stack_runs')
+    .update({ status: 'pending_resume', updated_at: nowISO() })
+    .eq('id', stackRun.parent_stack_run_id)
+    .eq('status', 'suspended_waiting_child')
+    .select('id');
+
+  if (claimError || !claimed || claimed.length === 0) {
+    log("info", `Parent stack run ${stackRun.parent_stack_run_id} already resumed by another worker`);
+    return;
+  }
+
+  log("info", `Resuming parent task ${stackRun.parent_stack_run_id} with results from children ${waitingOn.join(', ')}`);
+
+  try {
+    // Results are delivered in call order, which is the order of the waiting list
+    const childrenById = new Map(childrenData.map((child: any) => [child.id, child]));
+    const results = waitingOn.map(id => {
+      const child: any = childrenById.get(id);
+      return child.status === 'completed'
+        ? { stackRunId: id, status: 'completed', result: formatChildResult(child, child.result) }
+        : {
+            stackRunId: id,
+            status: 'failed',
+            service: child.service_name,
+            method: child.method_name,
+            error: child.error,
+            errorStatus: child.error_status ?? undefined
+          };
+    });
+    const formattedResult = results.length === 1 ? results[0].result : results;
 
     // Update parent with resume payload
     const { error: payloadError } = await supabase
@@ -461,61 +843,7 @@ async function resumeParentTask(stackRun: any, result: any) {
 
     if (payloadError) throw new Error(`Failed to set resume payload: ${payloadError.message}`);
 
-    // Call deno-executor to resume the parent task with direct HTTP call
-    const resumeResponse = await fetch(`${SUPABASE_URL}/functions/v1/deno-executor/resume`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${SERVICE_ROLE_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        stackRunId: stackRun.parent_stack_run_id,
-        result: formattedResult
-      })
-    });
-
-    if (!resumeResponse.ok) {
-      throw new Error(`Failed to resume parent: ${resumeResponse.status}`);
-    }
-
-    const resumeResult = await resumeResponse.json();
-    if (resumeResult.error) {
-      throw new Error(`Failed to resume parent: ${resumeResult.error}`);
-    }
-    log("info", `Parent task ${stackRun.parent_stack_run_id} resumed successfully`);
-
-    // Log the resume result for debugging
-    log("debug", `Resume result structure: ${JSON.stringify(resumeResult).substring(0, 500)}`);
-
-    // Handle different resume statuses including service registry response format
-    if (resumeResult.data && resumeResult.data.status === 'completed') {
-      await updateStackRunStatus(stackRun.parent_stack_run_id, 'completed', resumeResult.data.result);
-    } else if (resumeResult.data && resumeResult.data.status === 'error') {
-      await updateStackRunStatus(stackRun.parent_stack_run_id, 'failed', null, resumeResult.data.error);
-    } else if (resumeResult.data && resumeResult.data.status === 'paused') {
-      // Task paused again - this is normal behavior
-      log("info", `Parent task ${stackRun.parent_stack_run_id} paused again (multi-step execution)`);
-      // The parent is already in the correct suspended state in the database
-      // No need to update status here as it's handled by the deno-executor
-    } else if (resumeResult.status === 'suspended' || (resumeResult.data && resumeResult.data.childStackRunId)) {
-      // Task suspended again - deno-executor already handled the suspension
-      log("info", `Parent task ${stackRun.parent_stack_run_id} suspended again on resume (created child ${resumeResult.data?.childStackRunId})`);
-      // The parent is already marked as suspended_waiting_child by deno-executor
-      // Do NOT mark as completed!
-    } else {
-      log("warn", `Unknown resume result for parent task ${stackRun.parent_stack_run_id}: ${JSON.stringify(resumeResult).substring(0, 200)}`);
-      // DO NOT mark as completed - this could be a suspension we don't recognize!
-      // The parent status should be left as-is (deno-executor manages it)
-      log("info", `Leaving parent task ${stackRun.parent_stack_run_id} status unchanged - deno-executor manages it`);
-    }
-
-    // IMPORTANT: If the parent suspended again (paused status), we need to trigger
-    // the next processing cycle to process the newly created child stack run
-    if ((resumeResult.status === 'paused' || resumeResult.suspensionData) ||
-        (resumeResult.data && (resumeResult.data.status === 'paused' || resumeResult.data.suspensionData))) {
-      log("info", `Parent suspended again after resume - triggering next processing cycle`);
-      triggerStackProcessorAsync();
-    }
+    await resumeStackRun(parentStackRun, { result: formattedResult, results });
 
   } catch (error) {
     log("error", `Failed to resume parent task: ${error instanceof Error ? error.message : String(error)}`);
@@ -536,16 +864,17 @@ async function processStackRunInternal(stackRunId: number): Promise<boolean> {
       return false;
     }
 
-    // CRITICAL: Check if this task chain is already being processed
-    const taskRunId = stackRun.parent_task_run_id;
+    if (stackRun.next_attempt_at && new Date(stackRun.next_attempt_at).getTime() > Date.now()) {
+      log("info", `Stack run ${stackRunId} is backing off until ${stackRun.next_attempt_at}, skipping`);
+      return false;
+    }
 
-    // Check if task chain is busy
-    const isBusy = await isTaskChainBusy(taskRunId);
-    if (isBusy) {
-      log("info", `Task chain ${taskRunId} is already busy, skipping stack run ${stackRunId}`);
+    if (await abortIfCancelled(stackRun)) {
       return false;
     }
 
+    const taskRunId = stackRun.parent_task_run_id;
+
     // CRITICAL FIX: Allow child stack runs to process even if parent holds the lock
     // Check if this is a child stack run that should be allowed to process
     let lockAcquired = false;
@@ -556,7 +885,7 @@ async function processStackRunInternal(stackRunId: number): Promise<boolean> {
       const supabase = await createSupabaseClient();
       const { data: parentData, error: parentError } = await supabase
         .from('stack_runs')
-        .select('status, waiting_on_stack_run_id')
+        .select('status, waiting_on_stack_run_id, waiting_on_stack_run_ids')
         .eq('id', stackRun.parent_stack_run_id)
         .single();
 
@@ -564,28 +893,32 @@ async function processStackRunInternal(stackRunId: number): Promise<boolean> {
 
       if (parentStackRun) {
         // Allow child to process if:
-        // 1. Parent is suspended waiting for this specific child, OR
+        // 1. Parent is suspended waiting for a batch that includes this child, OR
         // 2. Parent is completed (no longer blocking), OR
         // 3. Parent is waiting for a different child (this one can run in parallel)
+        const waitingOn = getWaitingChildIds(parentStackRun);
         const canProcess =
-          (parentStackRun.status === 'suspended_waiting_child' && parentStackRun.waiting_on_stack_run_id === stackRunId) ||
+          (parentStackRun.status === 'suspended_waiting_child' && waitingOn.includes(stackRunId)) ||
           (parentStackRun.status === 'completed') ||
-          (parentStackRun.waiting_on_stack_run_id && parentStackRun.waiting_on_stack_run_id !== stackRunId);
+          (waitingOn.length > 0 && !waitingOn.includes(stackRunId));
 
         if (canProcess) {
-          log("info", `Allowing child stack run ${stackRunId} to process (parent status: ${parentStackRun.status}, waiting for: ${parentStackRun.waiting_on_stack_run_id})`);
+          log("info", `Allowing child stack run ${stackRunId} to process (parent status: ${parentStackRun.status}, waiting for: ${waitingOn.join(', ')})`);
           lockAcquired = true; // Bypass lock requirement
           bypassedLock = true;
-        } else {
-          // Try to acquire lock normally
-          lockAcquired = await tryLockTaskChain(taskRunId);
         }
-      } else {
-        // Parent not found - try to acquire lock normally
-        lockAcquired = await tryLockTaskChain(taskRunId);
       }
-    } else {
-      // This is a top-level stack run - try to acquire lock normally
+    }
+
+    if (!bypassedLock) {
+      // CRITICAL: Check if this task chain is already being processed
+      // Children of a batch bypass this check since they run concurrently by design
+      const isBusy = await isTaskChainBusy(taskRunId);
+      if (isBusy) {
+        log("info", `Task chain ${taskRunId} is already busy, skipping stack run ${stackRunId}`);
+        return false;
+      }
+
       lockAcquired = await tryLockTaskChain(taskRunId);
     }
 
@@ -595,51 +928,95 @@ async function processStackRunInternal(stackRunId: number): Promise<boolean> {
     }
 
     try {
-      // Update to processing
-      await updateStackRunStatus(stackRunId, 'processing');
+      // Update to processing - another worker may have picked up the same child
+      if (!await claimStackRun(stackRun)) {
+        log("info", `Stack run ${stackRunId} was claimed by another worker, skipping`);
+        return false;
+      }
 
       // Process the service call
       const result = await processServiceCall(stackRun);
 
+      // The task run may have been cancelled while the call was in flight - drop the result
+      if (await abortIfCancelled(stackRun)) {
+        return false;
+      }
+
       // If we get here without suspension, mark as completed
       await updateStackRunStatus(stackRunId, 'completed', result);
 
-      await resumeParentTask(stackRun, result);
+      await resumeParentTask(stackRun);
 
-      if (!stackRun.parent_stack_run_id && stackRun.parent_task_run_id) {
-        const supabase = await createSupabaseClient();
-        await supabase
-          .from('task_runs')
-          .update({
-            status: 'completed',
-            result: result,
-            ended_at: nowISO()
-          })
-          .eq('id', stackRun.parent_task_run_id);
-        log("info", `Updated parent task run ${stackRun.parent_task_run_id} to completed`);
-      }
+      await completeTaskRun(stackRun, result);
 
       log("info", `Stack run ${stackRunId} completed successfully`);
 
       return true; // Successfully processed
 
     } catch (error) {
+      // A task run cancelled while it was executing must not stay suspended
+      if (error instanceof Error && error.message.startsWith('SUSPENDED_WAITING_FOR_') && await abortIfCancelled(stackRun)) {
+        return false;
+      }
+
       // Check if this is a suspension error
       if (error instanceof Error && error.message.startsWith('SUSPENDED_WAITING_FOR_CHILD:')) {
-        const childStackRunId = error.message.substring('SUSPENDED_WAITING_FOR_CHILD:'.length);
-        log("info", `Stack run ${stackRunId} suspended, waiting for child ${childStackRunId}`);
+        const childStackRunIds = error.message.substring('SUSPENDED_WAITING_FOR_CHILD:'.length).split(',').map(id => parseInt(id));
+        log("info", `Stack run ${stackRunId} suspended, waiting for children ${childStackRunIds.join(', ')}`);
+
+        // Fan-out: every child of a batch is processed concurrently; a single child is
+        // picked up by the next serial processing cycle
+        if (childStackRunIds.length > 1) {
+          childStackRunIds.forEach(childId => triggerStackRunAsync(childId));
+        }
 
         // The stack run is already updated to suspended_waiting_child status in processServiceCall
-        // Don't unlock the task chain - keep it locked until the child completes
+        // Don't unlock the task chain - keep it locked until the children complete
+        return true; // Successfully suspended (not failed)
+      }
+
+      if (error instanceof Error && error.message.startsWith('SUSPENDED_WAITING_FOR_TIMER:')) {
+        const resumeAt = error.message.substring('SUSPENDED_WAITING_FOR_TIMER:'.length);
+        log("info", `Stack run ${stackRunId} suspended until ${resumeAt}`);
+
+        // A timer can wait for days - the task chain lock is released in finally
         return true; // Successfully suspended (not failed)
       }
 
+      if (error instanceof Error && error.message.startsWith('SUSPENDED_WAITING_FOR_SIGNAL:')) {
+        const signals = error.message.substring('SUSPENDED_WAITING_FOR_SIGNAL:'.length);
+        log("info", `Stack run ${stackRunId} suspended waiting for signal(s) ${signals}`);
+
+        // Like timers, signal waits are open-ended - the task chain lock is released in finally
+        return true; // Successfully suspended (not failed)
+      }
+
+      // Transient failures go back to the queue; the lock is released in finally
+      if (await scheduleRetry(stackRun, (stackRun.attempt || 0) + 1, error)) {
+        return true;
+      }
+
       // For other errors, unlock and fail (only if we actually acquired a lock)
       if (!bypassedLock) {
         await unlockTaskChain(taskRunId);
       }
       log("error", `Stack run ${stackRunId} failed: ${error instanceof Error ? error.message : String(error)}`);
-      await updateStackRunStatus(stackRunId, 'failed', null, error instanceof Error ? error.message : String(error));
+      await updateStackRunStatus(
+        stackRunId,
+        'failed',
+        null,
+        error instanceof Error ? error.message : String(error),
+        error instanceof ServiceCallError ? error.status : undefined,
+        error instanceof ServiceCallError ? error.failure : undefined
+      );
+
+      // A failed child settles its place in the parent's batch and is thrown into
+      // the task as a HostCallError; a failed top-level run fails its task run
+      if (stackRun.parent_stack_run_id) {
+        await resumeParentTask(stackRun);
+      } else {
+        await failTaskRun(stackRun, error instanceof Error ? error.message : String(error));
+      }
       return false; // Failed to process
     } finally {
       // Only unlock if we actually acquired a lock and not suspended
@@ -666,6 +1043,85 @@ async function processStackRunInternal(stackRunId: number): Promise<boolean> {
   }
 }
 
+// Resume stack runs whose durable timer or signal timeout deadline has passed
+async function processDueTimers(): Promise<number> {
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from('stack_runs')
+    .select('*')
+    .in('status', ['waiting_timer', 'waiting_signal'])
+    .lte('resume_at', nowISO())
+    .order('resume_at', { ascending: true })
+    .limit(10);
+
+  if (error) {
+    log("error", `Failed to get due timers: ${error.message}`);
+    return 0;
+  }
+
+  let resumed = 0;
+  for (const stackRun of data || []) {
+    // Only the worker that moves the stack run out of its waiting status resumes it
+    const { data: claimed, error: claimError } = await supabase
+      .from('stack_runs')
+      .update({ status: 'pending_resume', updated_at: nowISO() })
+      .eq('id', stackRun.id)
+      .eq('status', stackRun.status)
+      .select('id');
+
+    if (claimError || !claimed || claimed.length === 0) {
+      continue;
+    }
+
+    log("info", `Timer for stack run ${stackRun.id} is due (${stackRun.resume_at}), resuming`);
+
+    try {
+      await resumeStackRun(stackRun, { timersDueAt: stackRun.resume_at });
+      resumed++;
+    } catch (error) {
+      log("error", `Failed to resume stack run ${stackRun.id} after timer: ${error instanceof Error ? error.message : String(error)}`);
+      await updateStackRunStatus(stackRun.id, 'failed', null, `Resume failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return resumed;
+}
+
+// Resume a stack run waiting for the named signal with its payload
+async function deliverSignal(stackRunId: number, signal: { name: string; payload?: any }): Promise<boolean> {
+  const stackRun = await getStackRun(stackRunId);
+
+  if (stackRun.status !== 'waiting_signal' || !(stackRun.waiting_signals || []).includes(signal.name)) {
+    log("info", `Stack run ${stackRunId} is not waiting for signal '${signal.name}' (status: ${stackRun.status})`);
+    return false;
+  }
+
+  // A signal and a timeout can race - only the worker that moves the stack run out of waiting_signal resumes it
+  const supabase = await createSupabaseClient();
+  const { data: claimed, error: claimError } = await supabase
+    .from('stack_runs')
+    .update({ status: 'pending_resume', resume_payload: signal.payload ?? null, updated_at: nowISO() })
+    .eq('id', stackRunId)
+    .eq('status', 'waiting_signal')
+    .select('id');
+
+  if (claimError || !claimed || claimed.length === 0) {
+    log("info", `Stack run ${stackRunId} was resumed by another worker before signal '${signal.name}' arrived`);
+    return false;
+  }
+
+  log("info", `Delivering signal '${signal.name}' to stack run ${stackRunId}`);
+
+  try {
+    await resumeStackRun(stackRun, { signal });
+  } catch (error) {
+    log("error", `Failed to resume stack run ${stackRunId} with signal: ${error instanceof Error ? error.message : String(error)}`);
+    await updateStackRunStatus(stackRunId, 'failed', null, `Resume failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return true;
+}
+
 // Process a single stack run (atomic operation)
 async function processSingleStackRun(): Promise<{ processed: boolean; reason?: string; stackRunId?: number }> {
   log("info", "Processing single stack run");
@@ -708,6 +1164,7 @@ async function getNextPendingStackRun() {
     .from('stack_runs')
     .select('id, parent_task_run_id, parent_stack_run_id, created_at')
     .eq('status', 'pending')
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${nowISO()}`)
     .order('created_at', { ascending: true });
 
   if (error) {
@@ -747,8 +1204,7 @@ async function getNextPendingStackRun() {
 }
 
 // Main handler - pure HTTP chaining (no setInterval)
-const port = parseInt(Deno.env.get('PORT') || '8001', 10);
-serve(async (req: Request) => {
+export async function handler(req: Request): Promise<Response> {
   try {
     // Handle CORS preflight
     if (req.method === 'OPTIONS') {
@@ -773,10 +1229,47 @@ serve(async (req: Request) => {
     // Run stale cleanup on every request (replaces setInterval)
     await cleanupStaleLocks();
 
-    if (requestData.stackRunId) {
+    if (requestData.trigger === 'deliver-signal') {
+      // Resume a stack run waiting for an external signal
+      if (!requestData.stackRunId || !requestData.signal?.name) {
+        return new Response(JSON.stringify({
+          error: "Invalid request: deliver-signal requires stackRunId and signal.name"
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        });
+      }
+
+      const delivered = await deliverSignal(requestData.stackRunId, requestData.signal);
+
+      return new Response(JSON.stringify({
+        status: delivered ? 'success' : 'not_waiting',
+        delivered
+      }), {
+        status: delivered ? 200 : 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    } else if (requestData.stackRunId) {
       // Process specific stack run
       await processStackRun(requestData.stackRunId);
+    } else if (requestData.trigger === 'process-timers') {
+      // Resume stack runs whose durable timer is due - intended to be called on a schedule
+      const resumed = await processDueTimers();
+
+      // Retries whose backoff has elapsed are picked up by the next processing cycle
+      triggerStackProcessorAsync();
+
+      return new Response(JSON.stringify({
+        status: 'success',
+        resumed
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
     } else if (requestData.trigger === 'process-next') {
+      // Timers that fell due since the last cycle are resumed before new work is picked up
+      await processDueTimers();
+
       // Process single stack run atomically - RESPECTING SERIAL ORDER
       const result = await processSingleStackRun();
 
@@ -791,7 +1284,7 @@ serve(async (req: Request) => {
       });
     } else {
       return new Response(JSON.stringify({
-        error: "Invalid request: must specify stackRunId or trigger=process-next"
+        error: "Invalid request: must specify stackRunId or trigger=process-next|process-timers|deliver-signal"
       }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" }
@@ -815,6 +1308,10 @@ serve(async (req: Request) => {
       headers: { ...corsHeaders, "Content-Type": "application/json" }
     });
   }
-}, { port });
+}
 
-console.log(`🚀 Simple Stack Processor started successfully on port ${port}`);
+if (import.meta.main) {
+  const port = parseInt(Deno.env.get('PORT') || '8001', 10);
+  serve(handler, { port });
+  console.log(`🚀 Simple Stack Processor started successfully on port ${port}`);
+}
@@ -0,0 +1,155 @@
+/**
+ * Keystore Access Policy
+ *
+ * Task code reaches the keystore through child stack runs, so each call is checked here against
+ * the namespaces the task function declares in permissions.keystore: true for every namespace,
+ * a list of namespace names, or false for none. A task that declares nothing may use only the
+ * global namespace. The declaration is the one pinned on the run when it started.
+ *
+ * The other routes to the same data are closed too: task code may only call the host services
+ * listed below, and its database calls may not touch the keystore tables or the task functions
+ * that carry the declarations.
+ */
+
+import { ServiceCallError } from './retry-policy.ts';
+
+export const KEYSTORE_SERVICE = 'wrappedkeystore';
+export const DATABASE_SERVICE = 'wrappedsupabase';
+export const TASKS_SERVICE = 'tasks';
+
+/**
+ * Services task code may call through __callHostTool__; 'tasks' runs a nested task under that task's own permissions
+ */
+const TASK_SERVICES = [DATABASE_SERVICE, KEYSTORE_SERVICE, 'wrappedopenai', 'wrappedwebsearch', 'wrappedgapi', TASKS_SERVICE];
+
+/**
+ * Tables the database tool will not reach for task code: reading or writing the keystore's own
+ * tables would skip the namespace check, and the task functions hold the permissions themselves
+ */
+const PROTECTED_TABLES = ['keystore', 'keystore_history', 'keystore_audit', 'task_functions', 'task_function_versions'];
+
+/**
+ * Query builder steps that reach tables or code the table check cannot see
+ */
+const UNCHECKED_DATABASE_STEPS = ['rpc', 'schema'];
+
+const DEFAULT_NAMESPACE = 'global';
+
+/**
+ * Keystore methods open to tasks and what access they need: a namespace named by their first
+ * argument, every namespace, or none. Methods not listed are refused.
+ */
+const TASK_KEYSTORE_METHODS: Record<string, 'namespace' | 'all' | 'none'> = {
+  getKey: 'namespace',
+  setKey: 'namespace',
+  getKeyEntry: 'namespace',
+  compareAndSetKey: 'namespace',
+  incrementKey: 'namespace',
+  listKeys: 'namespace',
+  hasKey: 'namespace',
+  deleteKey: 'namespace',
+  renameKey: 'namespace',
+  listNamespaces: 'all',
+  getServerTime: 'none'
+};
+
+/**
+ * Namespaces a task may use, or true for all of them
+ */
+export function allowedNamespaces(permissions: any): true | string[] {
+  const declared = permissions?.keystore;
+
+  if (declared === true) return true;
+  if (declared === false) return [];
+  if (Array.isArray(declared)) return declared;
+  return [DEFAULT_NAMESPACE];
+}
+
+/**
+ * Refuse a keystore call the task's permissions do not cover. Refusals are 403s, which are never retried.
+ */
+export function authorizeKeystoreCall(permissions: any, methodName: string, args: any[] | undefined): void {
+  const access = Object.hasOwn(TASK_KEYSTORE_METHODS, methodName) ? TASK_KEYSTORE_METHODS[methodName] : undefined;
+  if (!access) {
+    throw new ServiceCallError(`Keystore method '${methodName}' is not available to tasks`, KEYSTORE_SERVICE, methodName, 403);
+  }
+
+  const allowed = allowedNamespaces(permissions);
+  if (access === 'none' || allowed === true) {
+    return;
+  }
+
+  if (access === 'all') {
+    throw new ServiceCallError(`Keystore method '${methodName}' needs access to every namespace (permissions.keystore: true)`, KEYSTORE_SERVICE, methodName, 403);
+  }
+
+  const namespace = args?.[0] || DEFAULT_NAMESPACE;
+  if (!allowed.includes(namespace)) {
+    throw new ServiceCallError(
+      `Task may not access keystore namespace '${namespace}' (declared: ${allowed.length > 0 ? allowed.join(', ') : 'none'})`,
+      KEYSTORE_SERVICE,
+      methodName,
+      403
+    );
+  }
+}
+
+/**
+ * The query builder steps of a database call: a processChain call carries them as its chain,
+ * given as { chain }, as an array or as the arguments themselves; any other call names them
+ * in its method path, with the arguments on the last one
+ */
+function databaseSteps(methodName: string, args: any[] | undefined): Array<{ property?: unknown; args?: unknown[] }> {
+  if (methodName === 'processChain') {
+    const first = args?.[0];
+    const chain = Array.isArray(first?.chain) ? first.chain : Array.isArray(first) ? first : args;
+    return Array.isArray(chain) ? chain : [];
+  }
+
+  const parts = methodName.split('.');
+  return parts.map((property, index) => ({ property, args: index === parts.length - 1 ? args : undefined }));
+}
+
+/**
+ * Refuse a database call from task code that touches a protected table or a table it does not name
+ */
+export function authorizeDatabaseCall(methodName: string, args: any[] | undefined): void {
+  for (const step of databaseSteps(methodName, args)) {
+    if (typeof step?.property === 'string' && UNCHECKED_DATABASE_STEPS.includes(step.property)) {
+      throw new ServiceCallError(`Database method '${step.property}' is not available to tasks`, DATABASE_SERVICE, methodName, 403);
+    }
+
+    if (step?.property !== 'from') {
+      continue;
+    }
+
+    const table = step.args?.[0];
+    if (typeof table !== 'string') {
+      throw new ServiceCallError('Database calls from tasks must name their table', DATABASE_SERVICE, methodName, 403);
+    }
+
+    // A schema-qualified or differently cased name still refers to the same table
+    const tableName = table.trim().toLowerCase().split('.').pop()!.replace(/"/g, '');
+    if (PROTECTED_TABLES.includes(tableName)) {
+      throw new ServiceCallError(`Task may not access table '${table}' through the database`, DATABASE_SERVICE, methodName, 403);
+    }
+  }
+}
+
+/**
+ * Refuse a call task code makes through a host tool that its permissions do not cover
+ */
+export function authorizeTaskCall(permissions: any, serviceName: string, methodName: string, args: any[] | undefined): void {
+  if (!TASK_SERVICES.includes(serviceName)) {
+    throw new ServiceCallError(`Service '${serviceName}' is not available to tasks`, serviceName, methodName, 403);
+  }
+
+  if (serviceName === KEYSTORE_SERVICE) {
+    authorizeKeystoreCall(permissions, methodName, args);
+  } else if (serviceName === DATABASE_SERVICE) {
+    authorizeDatabaseCall(methodName, args);
+  } else if (serviceName === TASKS_SERVICE && methodName !== 'execute') {
+    // Publishing, rollback, signals and cancellation are for the service role, not for task code
+    throw new ServiceCallError(`Tasks method '${methodName}' is not available to tasks`, serviceName, methodName, 403);
+  }
+}
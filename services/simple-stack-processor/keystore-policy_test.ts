@@ -0,0 +1,77 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { allowedNamespaces, authorizeDatabaseCall, authorizeKeystoreCall, authorizeTaskCall } from "./keystore-policy.ts";
+import { ServiceCallError } from "./retry-policy.ts";
+
+function assertRefused(call: () => void, message?: string): void {
+  const error = assertThrows(call, ServiceCallError, message) as ServiceCallError;
+  assertEquals(error.status, 403);
+}
+
+Deno.test('allowedNamespaces - reads the declaration and defaults to global', () => {
+  assertEquals(allowedNamespaces({ keystore: true }), true);
+  assertEquals(allowedNamespaces({ keystore: false }), []);
+  assertEquals(allowedNamespaces({ keystore: ['teamA'] }), ['teamA']);
+  assertEquals(allowedNamespaces({}), ['global']);
+  assertEquals(allowedNamespaces(undefined), ['global']);
+});
+
+Deno.test('authorizeKeystoreCall - allows declared namespaces only', () => {
+  const permissions = { keystore: ['global', 'teamA'] };
+
+  authorizeKeystoreCall(permissions, 'getKey', ['teamA', 'API_KEY']);
+  authorizeKeystoreCall(permissions, 'setKey', [undefined, 'API_KEY', 'value']);
+  authorizeKeystoreCall(permissions, 'getServerTime', []);
+  assertRefused(() => authorizeKeystoreCall(permissions, 'getKey', ['teamB', 'API_KEY']), "namespace 'teamB'");
+  assertRefused(() => authorizeKeystoreCall({ keystore: false }, 'getKey', ['global', 'API_KEY']), 'declared: none');
+});
+
+Deno.test('authorizeKeystoreCall - listNamespaces needs every namespace and admin methods are refused', () => {
+  authorizeKeystoreCall({ keystore: true }, 'listNamespaces', []);
+  assertRefused(() => authorizeKeystoreCall({ keystore: ['global'] }, 'listNamespaces', []));
+
+  for (const method of ['listKeyVersions', 'rollbackKey', 'getAuditLog', 'rotateMasterKey', 'sweepExpiredKeys', 'constructor']) {
+    assertRefused(() => authorizeKeystoreCall({ keystore: true }, method, ['global']), 'not available to tasks');
+  }
+});
+
+Deno.test('authorizeDatabaseCall - refuses protected tables in method paths and chains', () => {
+  authorizeDatabaseCall('from', ['orders']);
+  authorizeDatabaseCall('processChain', [{ chain: [{ property: 'from', args: ['orders'] }, { property: 'select', args: ['*'] }] }]);
+
+  assertRefused(() => authorizeDatabaseCall('from', ['keystore']), "table 'keystore'");
+  assertRefused(() => authorizeDatabaseCall('from', ['public.Keystore_History']));
+  assertRefused(() => authorizeDatabaseCall('processChain', [{ chain: [{ property: 'from', args: ['keystore_audit'] }, { property: 'select' }] }]));
+  assertRefused(() => authorizeDatabaseCall('processChain', [[{ property: 'from', args: ['task_functions'] }, { property: 'update', args: [{ permissions: {} }] }]]));
+  assertRefused(() => authorizeDatabaseCall('processChain', [{ property: 'from', args: ['task_function_versions'] }]));
+});
+
+Deno.test('authorizeDatabaseCall - refuses calls whose table cannot be checked', () => {
+  assertRefused(() => authorizeDatabaseCall('from.select', ['*']), 'must name their table');
+  assertRefused(() => authorizeDatabaseCall('rpc', ['read_keystore']), "'rpc'");
+  assertRefused(() => authorizeDatabaseCall('processChain', [{ chain: [{ property: 'schema', args: ['private'] }, { property: 'from', args: ['orders'] }] }]));
+});
+
+Deno.test('authorizeTaskCall - a task limited to global reaches no other namespace by any route', () => {
+  const permissions = { keystore: ['global'] };
+
+  authorizeTaskCall(permissions, 'wrappedkeystore', 'getKey', ['global', 'API_KEY']);
+
+  // The keystore itself
+  for (const method of ['getKey', 'setKey', 'getKeyEntry', 'compareAndSetKey', 'incrementKey', 'listKeys', 'hasKey', 'deleteKey', 'renameKey']) {
+    assertRefused(() => authorizeTaskCall(permissions, 'wrappedkeystore', method, ['teamA', 'API_KEY']));
+  }
+  assertRefused(() => authorizeTaskCall(permissions, 'wrappedkeystore', 'listNamespaces', []));
+  assertRefused(() => authorizeTaskCall(permissions, 'wrappedkeystore', 'getAuditLog', ['teamA']));
+
+  // The keystore tables and the task declarations, through the database tool
+  assertRefused(() => authorizeTaskCall(permissions, 'wrappedsupabase', 'from', ['keystore']));
+  assertRefused(() => authorizeTaskCall(permissions, 'wrappedsupabase', 'processChain', [{ chain: [{ property: 'from', args: ['keystore'] }, { property: 'select' }] }]));
+  assertRefused(() => authorizeTaskCall(permissions, 'wrappedsupabase', 'processChain', [{ chain: [{ property: 'from', args: ['task_functions'] }, { property: 'update', args: [{ permissions: { keystore: true } }] }] }]));
+
+  // Service names that are not the gated names but would reach the same functions, or run code with other permissions
+  assertRefused(() => authorizeTaskCall(permissions, 'wrappedkeystore/', 'getKey', ['teamA', 'API_KEY']));
+  assertRefused(() => authorizeTaskCall(permissions, 'WrappedKeystore', 'getKey', ['teamA', 'API_KEY']));
+  assertRefused(() => authorizeTaskCall(permissions, 'deno-executor', 'execute', [{ taskCode: '...', taskPermissions: { keystore: true } }]));
+  assertRefused(() => authorizeTaskCall(permissions, 'simple-stack-processor', 'process', []));
+  assertRefused(() => authorizeTaskCall(permissions, 'tasks', 'publish', [{ task_name: 'my-task', code: '...', permissions: { keystore: true } }]));
+});
@@ -0,0 +1,159 @@
+/**
+ * Retry Policies for Simple Stack Processor
+ *
+ * Resolves the retry policy for a service call and decides whether a failed attempt
+ * is retried and when. Policies are looked up by "service.method", then "service",
+ * then the built-in defaults; STACK_RUN_RETRY_POLICIES (JSON) overrides either level.
+ */
+
+// ==============================
+// Types and Interfaces
+// ==============================
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  jitter: number;                // 0..1 - fraction of the delay that is randomised
+  retryableStatuses: number[];
+  retryNetworkErrors: boolean;
+  retryTimeouts: boolean;
+}
+
+/**
+ * Typed cause of a failure, e.g. { type: 'limit_exceeded', details: { limit: 'cpu', value: 30000 } }
+ */
+export interface ServiceFailure {
+  type: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Error raised for a failed service call, carrying the HTTP status when there was one
+ */
+export class ServiceCallError extends Error {
+  status?: number;
+  serviceName: string;
+  methodName: string;
+  failure?: ServiceFailure;
+
+  constructor(message: string, serviceName: string, methodName: string, status?: number, failure?: ServiceFailure) {
+    super(message);
+    this.name = 'ServiceCallError';
+    this.serviceName = serviceName;
+    this.methodName = methodName;
+    this.status = status;
+    this.failure = failure;
+  }
+}
+
+/**
+ * Error recorded for an attempt that stopped reporting progress and was abandoned
+ */
+export class AttemptTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttemptTimeoutError';
+  }
+}
+
+// ==============================
+// Policies
+// ==============================
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 60000,
+  backoffMultiplier: 2,
+  jitter: 0.5,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryNetworkErrors: true,
+  retryTimeouts: true
+};
+
+const BUILT_IN_POLICIES: Record<string, Partial<RetryPolicy>> = {
+  // Google quotas reset slowly - back off further before giving up
+  'wrappedgapi': { maxAttempts: 5, initialDelayMs: 2000, maxDelayMs: 300000 },
+  'wrappedopenai': { maxAttempts: 5, initialDelayMs: 2000, maxDelayMs: 120000 },
+  // Task execution is retried through its replay journal, never blindly
+  'deno-executor': { maxAttempts: 1 },
+  'tasks': { maxAttempts: 1 }
+};
+
+/**
+ * Parse policy overrides from the environment, ignoring malformed configuration
+ */
+function loadConfiguredPolicies(): Record<string, Partial<RetryPolicy>> {
+  const raw = Deno.env.get('STACK_RUN_RETRY_POLICIES');
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.warn(`Ignoring invalid STACK_RUN_RETRY_POLICIES: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+}
+
+const configuredPolicies = loadConfiguredPolicies();
+
+/**
+ * Resolve the retry policy for a service method
+ */
+export function resolveRetryPolicy(serviceName: string, methodName: string): RetryPolicy {
+  const methodKey = `${serviceName}.${methodName}`;
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...BUILT_IN_POLICIES[serviceName],
+    ...BUILT_IN_POLICIES[methodKey],
+    ...configuredPolicies[serviceName],
+    ...configuredPolicies[methodKey]
+  };
+}
+
+// ==============================
+// Retry Decisions
+// ==============================
+
+const NON_RETRYABLE_FAILURES = ['limit_exceeded', 'compile_error'];
+
+/**
+ * Whether an error from an attempt may be retried under the policy
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof AttemptTimeoutError) {
+    return policy.retryTimeouts;
+  }
+
+  if (error instanceof ServiceCallError) {
+    // A task stopped by its limits or its own syntax would fail the same way again
+    if (error.failure && NON_RETRYABLE_FAILURES.includes(error.failure.type)) {
+      return false;
+    }
+    return error.status !== undefined && policy.retryableStatuses.includes(error.status);
+  }
+
+  // fetch rejects with a TypeError when the connection itself fails
+  if (error instanceof TypeError) {
+    return policy.retryNetworkErrors;
+  }
+
+  return false;
+}
+
+/**
+ * Delay before the next attempt: exponential backoff capped at maxDelayMs, with jitter
+ */
+export function computeBackoffMs(attempt: number, policy: RetryPolicy): number {
+  const exponential = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, Math.max(0, attempt - 1));
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+
+  return Math.round(capped * (1 - jitter) + Math.random() * capped * jitter);
+}
@@ -0,0 +1,64 @@
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+// Overrides are read once, when the module loads
+Deno.env.set('STACK_RUN_RETRY_POLICIES', JSON.stringify({
+  'wrappedopenai': { maxAttempts: 2 },
+  'wrappedopenai.chat': { retryableStatuses: [429] }
+}));
+
+const {
+  AttemptTimeoutError,
+  DEFAULT_RETRY_POLICY,
+  ServiceCallError,
+  computeBackoffMs,
+  isRetryableError,
+  resolveRetryPolicy
+} = await import("./retry-policy.ts");
+
+Deno.test('resolveRetryPolicy - method overrides beat service overrides beat built-ins', () => {
+  assertEquals(resolveRetryPolicy('wrappedsupabase', 'from'), DEFAULT_RETRY_POLICY);
+  assertEquals(resolveRetryPolicy('wrappedgapi', 'send').maxAttempts, 5);
+  assertEquals(resolveRetryPolicy('deno-executor', 'execute').maxAttempts, 1);
+
+  const chat = resolveRetryPolicy('wrappedopenai', 'chat');
+  assertEquals(chat.maxAttempts, 2);
+  assertEquals(chat.initialDelayMs, 2000);
+  assertEquals(chat.retryableStatuses, [429]);
+  assertEquals(resolveRetryPolicy('wrappedopenai', 'embeddings').retryableStatuses, DEFAULT_RETRY_POLICY.retryableStatuses);
+});
+
+Deno.test('isRetryableError - retries transient statuses, network errors and timeouts', () => {
+  const policy = DEFAULT_RETRY_POLICY;
+
+  assert(isRetryableError(new ServiceCallError('busy', 'wrappedopenai', 'chat', 503), policy));
+  assert(isRetryableError(new TypeError('connection refused'), policy));
+  assert(isRetryableError(new AttemptTimeoutError('stalled'), policy));
+  assert(!isRetryableError(new AttemptTimeoutError('stalled'), { ...policy, retryTimeouts: false }));
+  assert(!isRetryableError(new TypeError('connection refused'), { ...policy, retryNetworkErrors: false }));
+});
+
+Deno.test('isRetryableError - never retries client errors, unknown failures or failures that would repeat', () => {
+  const policy = DEFAULT_RETRY_POLICY;
+
+  assert(!isRetryableError(new ServiceCallError('refused', 'wrappedkeystore', 'getKey', 403), policy));
+  assert(!isRetryableError(new ServiceCallError('no status', 'wrappedkeystore', 'getKey'), policy));
+  assert(!isRetryableError(new Error('bug'), policy));
+  assert(!isRetryableError(new ServiceCallError('cpu', 'deno-executor', 'execute', 500, { type: 'limit_exceeded' }), policy));
+  assert(!isRetryableError(new ServiceCallError('syntax', 'deno-executor', 'execute', 500, { type: 'compile_error' }), policy));
+});
+
+Deno.test('computeBackoffMs - grows exponentially up to the cap', () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+
+  assertEquals([1, 2, 3, 4].map(attempt => computeBackoffMs(attempt, policy)), [1000, 2000, 4000, 8000]);
+  assertEquals(computeBackoffMs(20, policy), policy.maxDelayMs);
+});
+
+Deno.test('computeBackoffMs - jitter only ever shortens the delay', () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0.5 };
+
+  for (let i = 0; i < 50; i++) {
+    const delay = computeBackoffMs(3, policy);
+    assert(delay >= 2000 && delay <= 4000, `${delay}`);
+  }
+});
@@ -1,7 +1,7 @@
 import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { BaseHttpHandler, HttpStatus, createHealthCheckResponse } from "../_shared/http-handler.ts";
 import { config } from "../_shared/config-service.ts";
+import { createStorageClient, getStorageBackend } from "../_shared/storage-service.ts";
 import { BaseService, ServiceOperation, ServiceError, ServiceErrorType } from "../_shared/base-service.ts";
 
 /**
@@ -34,6 +34,11 @@ class SupabaseService extends BaseService {
   }
 
   private createSupabaseClient(): any {
+    // Local backends need no Supabase credentials
+    if (getStorageBackend() !== 'supabase') {
+      return createStorageClient();
+    }
+
     const targetSupabaseUrl = config.database.url;
     const serviceRoleKey = config.database.serviceRoleKey;
 
@@ -53,9 +58,7 @@ class SupabaseService extends BaseService {
       );
     }
 
-    return createClient(targetSupabaseUrl, serviceRoleKey, {
-      auth: { persistSession: false }
-    });
+    return createStorageClient({ url: targetSupabaseUrl, key: serviceRoleKey });
   }
 
   async processChain(chain: any[]): Promise<any> {
@@ -197,6 +200,10 @@ class WrappedSupabaseHandler extends BaseHttpHandler {
 
 // Create handler instance and start serving
 const wrappedSupabaseHandler = new WrappedSupabaseHandler();
-const port = parseInt(Deno.env.get('PORT') || '8002');
-console.log(`Starting wrappedsupabase service on port ${port}...`);
-serve((req) => wrappedSupabaseHandler.handle(req), { port });
\ No newline at end of file
+export const handler = (req: Request) => wrappedSupabaseHandler.handle(req);
+
+if (import.meta.main) {
+  const port = parseInt(Deno.env.get('PORT') || '8002');
+  console.log(`Starting wrappedsupabase service on port ${port}...`);
+  serve(handler, { port });
+}
\ No newline at end of file
@@ -2,6 +2,7 @@ import { jsonResponse, formatErrorResponse, formatLogMessage } from "../utils/re
 import { fetchTaskFromDatabase, database, type TaskFunction } from "../services/database.ts";
 import { generateModuleCode } from "../services/module-generator.ts";
 import { createServiceRoleClient } from "../../_shared/database-service.ts";
+import { serviceRegistry } from "../../_shared/service-registry.ts";
 import { nowISO } from 'tasker-utils/timestamps';
 
 // Get supabase client from unified database service
@@ -78,7 +79,6 @@ export async function executeTask(
     try {
       // Call the deno-executor edge function
       console.log(formatLogMessage('INFO', `Invoking deno-executor function for task ${taskId}...`));
-      const denoExecutorUrl = `${SUPABASE_URL}/functions/v1/deno-executor`;
       
       // DEBUG: Log the payload being sent
       const payload = {
@@ -88,7 +88,7 @@ export async function executeTask(
       };
       console.log(formatLogMessage('DEBUG', `Deno executor payload: ${JSON.stringify(payload)}`));
 
-      const response = await fetch(denoExecutorUrl, {
+      const response = await serviceRegistry.invokeFunction('deno-executor', '', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -3,15 +3,17 @@ import { serve, ConnInfo } from "https://deno.land/std@0.201.0/http/server.ts";
 import { corsHeaders } from "../_shared/cors.ts";
 import { jsonResponse, formatTaskResult, formatLogMessage } from "./utils/response-formatter.ts";
 import { TaskRegistry } from "./registry/task-registry.ts";
-import { generateSchema, formatSchema } from './services/schema-generator.ts';
-import { parseJSDocComments } from './utils/jsdoc-parser.ts';
+import { buildSchemaDocument, SCHEMA_DOCUMENT_FORMATS, type SchemaDocumentFormat } from './services/schema-document.ts';
 import { GeneratedSchema } from "./types/index.ts";
 import { hostLog, simpleStringify } from '../_shared/utils.ts';
 import { supabaseClient, SUPABASE_URL, SUPABASE_ANON_KEY, SERVICE_ROLE_KEY } from './config/supabase-config.ts';
 import { tasksService } from './services/tasks-service.ts';
+import { validateIdempotencyKey } from './services/idempotency.ts';
+import { RunEventTracker, RunNotFoundError, type RunEvent } from './services/run-events.ts';
 import { createResponse, createErrorResponse, createCorsPreflightResponse, CORS_HEADERS, LOG_PREFIX_BASE } from './utils/response-utils.ts';
 import { checkQueueBusy, executeStackRunSynchronously, triggerFIFOProcessingChain, triggerNextQueuedTask } from './services/stack-processor.ts';
 import { serviceRegistry } from "../_shared/service-registry.ts";
+import { requestPrincipal, requireServiceRole } from './utils/request-auth.ts';
 
 declare global {
   var __updatedFields: Record<string, any>;
@@ -24,11 +26,24 @@ const routes: Record<string, (req: Request) => Promise<Response>> = {
     '/status': statusHandler,
     '/logs': logsHandler,
     '/schema': schemaHandler,
-    '/list': listHandler
+    '/list': listHandler,
+    '/signal': signalHandler,
+    '/cancel': cancelHandler,
+    '/publish': publishHandler,
+    '/rollback': rollbackHandler,
+    '/versions': versionsHandler,
+    '/runs': runsHandler
 };
 
+// Routes with path parameters, matched against the end of the pathname
+const patternRoutes: Array<{ pattern: RegExp; handler: (req: Request, params: string[]) => Promise<Response> }> = [
+    { pattern: /\/runs\/(\d+)\/events$/, handler: runEventsHandler },
+    { pattern: /\/runs\/(\d+)$/, handler: runHandler },
+    { pattern: /\/execute\/([^/]+)$/, handler: executeHandler }
+];
+
 // Main handler
-async function handler(req: Request): Promise<Response> {
+export async function handler(req: Request): Promise<Response> {
     hostLog(LOG_PREFIX_BASE, `${req.method} ${req.url}`);
 
     // Handle CORS preflight
@@ -40,6 +55,13 @@ async function handler(req: Request): Promise<Response> {
         const url = new URL(req.url);
         const pathname = url.pathname;
 
+        for (const { pattern, handler: patternHandler } of patternRoutes) {
+            const match = pathname.match(pattern);
+            if (match) {
+                return await patternHandler(req, match.slice(1));
+            }
+        }
+
         // Extract the last part of the path for routing
         const pathParts = pathname.split('/');
         const routePath = '/' + pathParts[pathParts.length - 1];
@@ -57,30 +79,131 @@ async function handler(req: Request): Promise<Response> {
     }
 }
 
-// Task execution handler
-async function executeHandler(req: Request): Promise<Response> {
+// Task execution handler - wait=<duration> holds the response until a database task run
+// finishes, answering 202 with the run id if it is still going when the wait runs out
+const MAX_EXECUTE_WAIT_MS = 120000;
+const DURATION_UNITS_MS: Record<string, number> = { ms: 1, s: 1000, m: 60000 };
+
+function parseWaitDuration(value: string): number | null {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m)?$/);
+    if (!match) {
+        return null;
+    }
+    return Math.round(parseFloat(match[1]) * DURATION_UNITS_MS[match[2] || 's']);
+}
+
+async function executeHandler(req: Request, [taskName]: string[] = []): Promise<Response> {
     if (req.method !== 'POST') {
         return createErrorResponse('Method not allowed', [], 405);
     }
 
+    const wait = new URL(req.url).searchParams.get('wait');
+    const waitMs = wait !== null ? parseWaitDuration(wait) : null;
+
+    if (wait !== null && waitMs === null) {
+        return createErrorResponse(`Invalid wait '${wait}' (expected a duration such as 30s, 500ms or 2m)`, [], 400);
+    }
+    if (waitMs !== null && waitMs > MAX_EXECUTE_WAIT_MS) {
+        return createErrorResponse(`wait may be at most ${MAX_EXECUTE_WAIT_MS / 1000}s`, [], 400);
+    }
+
+    let execution;
+    let task_identifier;
     try {
         const body = await req.json();
-        const { task_identifier, input, options = {} } = body;
+
+        // /execute/:task_name takes the task input as the whole body
+        const { input, options = {} } = taskName ? { input: body, options: {} } : body;
+        task_identifier = taskName ? decodeURIComponent(taskName) : body.task_identifier;
 
         if (!task_identifier) {
             return createErrorResponse('Missing task_identifier', [], 400);
         }
 
-        const { success, result, error, logs } = await tasksService.execute(
+        // The header wins over the body field when both are sent
+        const idempotencyKey = req.headers.get('Idempotency-Key') ?? (taskName ? undefined : body.idempotency_key);
+        if (idempotencyKey !== undefined && idempotencyKey !== null) {
+            try {
+                validateIdempotencyKey(idempotencyKey);
+            } catch (error) {
+                return createErrorResponse(error instanceof Error ? error.message : String(error), [], 400);
+            }
+        }
+
+        execution = await tasksService.execute(
             task_identifier,
             input,
-            { ...options, include_logs: true }
+            { ...options, include_logs: true, idempotency_key: idempotencyKey ?? undefined }
+        );
+    } catch (error) {
+        return createErrorResponse(
+            `Request parsing error: ${error instanceof Error ? error.message : String(error)}`,
+            [],
+            400
+        );
+    }
+
+    const { success, result, error, logs, status, violations } = execution;
+
+    if (!success) {
+        return createErrorResponse(error || 'Task execution failed', logs, status || 500, violations ? { violations } : undefined);
+    }
+
+    // Registry tasks have already run; only submitted database task runs are waited on
+    const taskRunId = (result as any)?.taskRunId;
+    if (waitMs === null || taskRunId === undefined) {
+        return createResponse({ result, task_identifier }, logs);
+    }
+
+    const waited = await tasksService.awaitRun(taskRunId, waitMs);
+    if (!waited.success || !waited.result) {
+        return createErrorResponse(waited.error || 'Failed to wait for task run', logs, waited.status || 500);
+    }
+
+    const run = waited.result;
+    if (!run.finished) {
+        return createResponse({ taskRunId, status: run.status, task_identifier }, logs, 202);
+    }
+    if (run.status !== 'completed') {
+        return createErrorResponse(`Task run ${taskRunId} ${run.status}: ${run.error || 'no error recorded'}`, logs, 500);
+    }
+
+    return createResponse({ result: run.result, taskRunId, status: run.status, task_identifier }, logs);
+}
+
+// Signal delivery handler - resumes a task waiting in waitForSignal(name)
+async function signalHandler(req: Request): Promise<Response> {
+    if (req.method !== 'POST') {
+        return createErrorResponse('Method not allowed', [], 405);
+    }
+
+    const denied = requireServiceRole(req, SERVICE_ROLE_KEY);
+    if (denied) {
+        return denied;
+    }
+
+    try {
+        const body = await req.json();
+        const { task_run_id, signal, payload } = body;
+
+        if (!task_run_id || !signal) {
+            return createErrorResponse('Missing task_run_id or signal', [], 400);
+        }
+
+        if (!/^\d+$/.test(String(task_run_id))) {
+            return createErrorResponse(`Invalid task_run_id '${task_run_id}'`, [], 400);
+        }
+
+        const { success, result, error, logs, status } = await tasksService.signal(
+            parseInt(task_run_id),
+            signal,
+            payload
         );
 
         if (success) {
-            return createResponse({ result, task_identifier }, logs);
+            return createResponse(result, logs);
         } else {
-            return createErrorResponse(error || 'Task execution failed', logs, 500);
+            return createErrorResponse(error || 'Signal delivery failed', logs, status || 500);
         }
     } catch (error) {
         return createErrorResponse(
@@ -91,6 +214,213 @@ async function executeHandler(req: Request): Promise<Response> {
     }
 }
 
+// Cancellation handler - stops a task run and every unfinished stack run beneath it
+async function cancelHandler(req: Request): Promise<Response> {
+    if (req.method !== 'POST') {
+        return createErrorResponse('Method not allowed', [], 405);
+    }
+
+    const denied = requireServiceRole(req, SERVICE_ROLE_KEY);
+    if (denied) {
+        return denied;
+    }
+
+    try {
+        const body = await req.json();
+        const { task_run_id, reason } = body;
+
+        if (!task_run_id) {
+            return createErrorResponse('Missing task_run_id', [], 400);
+        }
+
+        if (!/^\d+$/.test(String(task_run_id))) {
+            return createErrorResponse(`Invalid task_run_id '${task_run_id}'`, [], 400);
+        }
+
+        const { success, result, error, logs, status } = await tasksService.cancel(parseInt(task_run_id), reason);
+
+        if (success) {
+            return createResponse(result, logs);
+        } else {
+            return createErrorResponse(error || 'Cancellation failed', logs, status || 500);
+        }
+    } catch (error) {
+        return createErrorResponse(
+            `Request parsing error: ${error instanceof Error ? error.message : String(error)}`,
+            [],
+            400
+        );
+    }
+}
+
+// Publish handler - stores code as an immutable version and makes it current, optionally setting permissions and limits
+async function publishHandler(req: Request): Promise<Response> {
+    if (req.method !== 'POST') {
+        return createErrorResponse('Method not allowed', [], 405);
+    }
+
+    const denied = requireServiceRole(req, SERVICE_ROLE_KEY);
+    if (denied) {
+        return denied;
+    }
+
+    try {
+        const body = await req.json();
+        const { task_name, code, version, description, permissions, limits } = body;
+
+        if (!task_name || typeof code !== 'string') {
+            return createErrorResponse('Missing task_name or code', [], 400);
+        }
+
+        const { success, result, error, logs, status } = await tasksService.publish(
+            task_name,
+            code,
+            { version, description, permissions, limits },
+            requestPrincipal(req, SERVICE_ROLE_KEY)
+        );
+
+        if (success) {
+            return createResponse(result, logs, status);
+        } else {
+            return createErrorResponse(error || 'Publish failed', logs, status || 500);
+        }
+    } catch (error) {
+        return createErrorResponse(
+            `Request parsing error: ${error instanceof Error ? error.message : String(error)}`,
+            [],
+            400
+        );
+    }
+}
+
+// Rollback handler - makes a previously published version current again
+async function rollbackHandler(req: Request): Promise<Response> {
+    if (req.method !== 'POST') {
+        return createErrorResponse('Method not allowed', [], 405);
+    }
+
+    const denied = requireServiceRole(req, SERVICE_ROLE_KEY);
+    if (denied) {
+        return denied;
+    }
+
+    try {
+        const body = await req.json();
+        const { task_name, version } = body;
+
+        if (!task_name || !version) {
+            return createErrorResponse('Missing task_name or version', [], 400);
+        }
+
+        const { success, result, error, logs, status } = await tasksService.rollback(task_name, version);
+
+        if (success) {
+            return createResponse(result, logs);
+        } else {
+            return createErrorResponse(error || 'Rollback failed', logs, status || 500);
+        }
+    } catch (error) {
+        return createErrorResponse(
+            `Request parsing error: ${error instanceof Error ? error.message : String(error)}`,
+            [],
+            400
+        );
+    }
+}
+
+// Versions handler - lists the published versions of a task function
+async function versionsHandler(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+    const taskName = url.searchParams.get('task_name');
+
+    if (!taskName) {
+        return createErrorResponse('Missing task_name parameter', [], 400);
+    }
+
+    const { success, result, error, logs, status } = await tasksService.versions(taskName);
+
+    if (success) {
+        return createResponse(result, logs);
+    } else {
+        return createErrorResponse(error || 'Failed to list versions', logs, status || 500);
+    }
+}
+
+// Run events handler - Server-Sent Events for one task run's progress and log lines,
+// ending after the run completes, fails or is cancelled
+const RUN_EVENTS_POLL_MS = 1000;
+const RUN_EVENTS_KEEPALIVE_MS = 15000;
+
+async function runEventsHandler(req: Request, [taskRunId]: string[]): Promise<Response> {
+    if (req.method !== 'GET') {
+        return createErrorResponse('Method not allowed', [], 405);
+    }
+
+    const tracker = new RunEventTracker(parseInt(taskRunId));
+
+    // The first poll happens before the response so an unknown run is a plain 404
+    let initialEvents: RunEvent[];
+    try {
+        initialEvents = await tracker.poll();
+    } catch (error) {
+        const status = error instanceof RunNotFoundError ? 404 : 500;
+        return createErrorResponse(error instanceof Error ? error.message : String(error), [], status);
+    }
+
+    const encoder = new TextEncoder();
+    let closed = false;
+    let eventId = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (events: RunEvent[]) => {
+                for (const event of events) {
+                    controller.enqueue(encoder.encode(`id: ${++eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+                }
+            };
+
+            let lastSentAt = Date.now();
+            send(initialEvents);
+
+            try {
+                while (!closed && !tracker.finished) {
+                    await new Promise(resolve => setTimeout(resolve, RUN_EVENTS_POLL_MS));
+                    if (closed) break;
+
+                    const events = await tracker.poll();
+                    if (events.length > 0) {
+                        send(events);
+                        lastSentAt = Date.now();
+                    } else if (Date.now() - lastSentAt >= RUN_EVENTS_KEEPALIVE_MS) {
+                        // Comment line - keeps proxies from closing an idle stream
+                        controller.enqueue(encoder.encode(': keep-alive\n\n'));
+                        lastSentAt = Date.now();
+                    }
+                }
+            } catch (error) {
+                hostLog(LOG_PREFIX_BASE, "warn", `Event stream for task run ${taskRunId} stopped: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
+            if (!closed) {
+                controller.close();
+            }
+        },
+        cancel() {
+            closed = true;
+        }
+    });
+
+    return new Response(stream, {
+        status: 200,
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            ...CORS_HEADERS
+        }
+    });
+}
+
 // Main tasks handler (legacy)
 async function tasksHandler(req: Request): Promise<Response> {
     return createErrorResponse('Use /execute endpoint for task execution', [], 404);
@@ -124,19 +454,163 @@ async function statusHandler(req: Request): Promise<Response> {
     }
 }
 
-// Logs handler
+// Runs handler - task runs newest first, filtered by status, task name and creation time
+async function runsHandler(req: Request): Promise<Response> {
+    if (req.method !== 'GET') {
+        return createErrorResponse('Method not allowed', [], 405);
+    }
+
+    try {
+        const url = new URL(req.url);
+        const statuses = url.searchParams.get('status')?.split(',').map(status => status.trim()).filter(Boolean);
+        const taskName = url.searchParams.get('task_name') || undefined;
+        const cursor = url.searchParams.get('cursor');
+        const limit = url.searchParams.get('limit');
+
+        const dates: Record<string, string | undefined> = {};
+        for (const param of ['created_after', 'created_before']) {
+            const value = url.searchParams.get(param);
+            if (value === null) continue;
+
+            const date = new Date(value);
+            if (isNaN(date.getTime())) {
+                return createErrorResponse(`Invalid ${param} '${value}' (expected an ISO 8601 date)`, [], 400);
+            }
+            dates[param] = date.toISOString();
+        }
+
+        if (cursor !== null && !/^\d+$/.test(cursor)) {
+            return createErrorResponse(`Invalid cursor '${cursor}'`, [], 400);
+        }
+
+        const { success, result, error, status } = await tasksService.runs({
+            statuses,
+            taskName,
+            createdAfter: dates.created_after,
+            createdBefore: dates.created_before,
+            cursor: cursor !== null ? parseInt(cursor) : undefined,
+            limit: limit ? parseInt(limit) : undefined
+        });
+
+        if (!success || !result) {
+            return createErrorResponse(error || 'Failed to fetch task runs', [], status || 500);
+        }
+
+        return createResponse(result);
+    } catch (error) {
+        return createErrorResponse(
+            `Error fetching task runs: ${error instanceof Error ? error.message : String(error)}`,
+            [],
+            500
+        );
+    }
+}
+
+// Run handler - one task run with its input, result, error and stack run tree
+async function runHandler(req: Request, [taskRunId]: string[]): Promise<Response> {
+    if (req.method !== 'GET') {
+        return createErrorResponse('Method not allowed', [], 405);
+    }
+
+    const { success, result, error, status } = await tasksService.run(parseInt(taskRunId));
+
+    if (!success || !result) {
+        return createErrorResponse(error || 'Failed to fetch task run', [], status || 500);
+    }
+
+    return createResponse(result);
+}
+
+// Logs handler - pages through a task run's captured console output; follow=true streams
+// new entries as NDJSON until the task run finishes or the client disconnects
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+const FINISHED_TASK_STATUSES = ['completed', 'failed', 'cancelled'];
+const LOG_FOLLOW_POLL_MS = 1000;
+
 async function logsHandler(req: Request): Promise<Response> {
     try {
         const url = new URL(req.url);
         const taskId = url.searchParams.get('task_id');
-        const limit = parseInt(url.searchParams.get('limit') || '50');
+        const limit = url.searchParams.get('limit');
+        const after = url.searchParams.get('after');
+        const levels = url.searchParams.get('level')?.split(',').map(level => level.trim()).filter(Boolean);
+        const follow = url.searchParams.get('follow') === 'true';
 
         if (!taskId) {
             return createErrorResponse('Missing task_id parameter', [], 400);
         }
 
-        // This would need to be implemented based on your logging structure
-        return createResponse({ logs: [], message: 'Logs handler not fully implemented' });
+        for (const [param, value] of [['task_id', taskId], ['limit', limit], ['after', after]]) {
+            if (value !== null && !/^\d+$/.test(value)) {
+                return createErrorResponse(`Invalid ${param} '${value}'`, [], 400);
+            }
+        }
+
+        const invalidLevel = levels?.find(level => !LOG_LEVELS.includes(level));
+        if (invalidLevel) {
+            return createErrorResponse(`Invalid level '${invalidLevel}' (expected ${LOG_LEVELS.join(', ')})`, [], 400);
+        }
+
+        const taskRunId = parseInt(taskId);
+        const query = { levels, limit: parseInt(limit || '100'), after: after !== null ? parseInt(after) : undefined };
+        const { success, result, error, status } = await tasksService.logs(taskRunId, query);
+
+        if (!success || !result) {
+            return createErrorResponse(error || 'Failed to fetch logs', [], status || 500);
+        }
+
+        if (!follow) {
+            return createResponse(result);
+        }
+
+        const encoder = new TextEncoder();
+        let closed = false;
+
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                let page = result;
+                try {
+                    while (!closed) {
+                        for (const entry of page.logs) {
+                            controller.enqueue(encoder.encode(JSON.stringify(entry) + '\n'));
+                        }
+
+                        // Drain what is left once the task run has finished, then stop
+                        if (FINISHED_TASK_STATUSES.includes(page.taskStatus) && !page.hasMore) {
+                            break;
+                        }
+
+                        if (!page.hasMore) {
+                            await new Promise(resolve => setTimeout(resolve, LOG_FOLLOW_POLL_MS));
+                        }
+
+                        const next = await tasksService.logs(taskRunId, { ...query, after: page.nextCursor ?? undefined });
+                        if (!next.success || !next.result) {
+                            throw new Error(next.error || 'Failed to fetch logs');
+                        }
+                        page = next.result;
+                    }
+                } catch (error) {
+                    hostLog(LOG_PREFIX_BASE, "warn", `Log follow for task run ${taskRunId} stopped: ${error instanceof Error ? error.message : String(error)}`);
+                }
+
+                if (!closed) {
+                    controller.close();
+                }
+            },
+            cancel() {
+                closed = true;
+            }
+        });
+
+        return new Response(stream, {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/x-ndjson',
+                'Cache-Control': 'no-cache',
+                ...CORS_HEADERS
+            }
+        });
     } catch (error) {
         return createErrorResponse(
             `Error fetching logs: ${error instanceof Error ? error.message : String(error)}`,
@@ -149,9 +623,21 @@ async function logsHandler(req: Request): Promise<Response> {
 // Schema handler
 async function schemaHandler(req: Request): Promise<Response> {
     try {
-        const tasks = tasksService.list();
-        const schema = generateSchema(tasks);
-        return createResponse({ schema: formatSchema(schema) });
+        const url = new URL(req.url);
+        const format = url.searchParams.get('format') || 'json';
+
+        if (!(SCHEMA_DOCUMENT_FORMATS as readonly string[]).includes(format)) {
+            return createErrorResponse(`Invalid format '${format}' (expected ${SCHEMA_DOCUMENT_FORMATS.join(', ')})`, [], 400);
+        }
+
+        const { success, result, error, status } = await tasksService.schemas();
+        if (!success || !result) {
+            return createErrorResponse(error || 'Failed to load task schemas', [], status || 500);
+        }
+
+        // Task paths are relative to this function, i.e. wherever /schema was served from
+        const serverUrl = `${url.origin}${url.pathname.replace(/\/schema$/, '')}`;
+        return createResponse({ schema: buildSchemaDocument(result, format as SchemaDocumentFormat, serverUrl) });
     } catch (error) {
         return createErrorResponse(
             `Error generating schema: ${error instanceof Error ? error.message : String(error)}`,
@@ -184,4 +670,6 @@ async function listHandler(req: Request): Promise<Response> {
 }
 
 // Start the server
-serve(handler);
\ No newline at end of file
+if (import.meta.main) {
+    serve(handler);
+}
\ No newline at end of file
@@ -13,6 +13,7 @@ import {
   type TaskFunction,
   type DatabaseResult
 } from '../../_shared/database-service.ts';
+import { serviceRegistry } from '../../_shared/service-registry.ts';
 
 // Re-export fetchTaskFromDatabase with backward compatible signature
 export async function fetchTaskFromDatabase(taskId?: string, taskName?: string): Promise<{ taskFunction: any, taskName: string, description: string } | null> {
@@ -95,7 +96,7 @@ export async function handleSupabaseAccess(input: any): Promise<any> {
   }
 
   // Return wrappedsupabase proxy URL for backward compatibility
-  const wrappedSupabaseUrl = `${dbConfig.url}/functions/v1/wrappedsupabase`;
+  const wrappedSupabaseUrl = serviceRegistry.getFunctionUrl('wrappedsupabase');
 
   return {
     url: wrappedSupabaseUrl,
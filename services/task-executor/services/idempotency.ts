@@ -0,0 +1,111 @@
+/**
+ * Idempotency keys for task submission
+ *
+ * A submission carrying a key is stored with it on task_runs. Repeating the key within the
+ * retention window returns that task run, finished or not, instead of starting another.
+ * Once the window has passed the key is released from the old run and may be used again.
+ */
+
+const DEFAULT_RETENTION_HOURS = 24;
+const MAX_KEY_LENGTH = 255;
+
+export class IdempotencyKeyError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'IdempotencyKeyError';
+    this.status = status;
+  }
+}
+
+export interface IdempotentRun {
+  id: number;
+  task_name: string;
+  status: string;
+  created_at: string;
+  version: string | null;     // Label of the task version the run is pinned to
+}
+
+/**
+ * How long a key keeps pointing at its task run; TASK_IDEMPOTENCY_RETENTION_HOURS overrides the default
+ */
+export function idempotencyRetentionMs(): number {
+  const hours = Number(Deno.env.get('TASK_IDEMPOTENCY_RETENTION_HOURS') ?? DEFAULT_RETENTION_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_RETENTION_HOURS) * 3600 * 1000;
+}
+
+export function validateIdempotencyKey(key: unknown): string {
+  if (typeof key !== 'string' || key.trim() === '') {
+    throw new IdempotencyKeyError('Idempotency key must be a non-empty string');
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    throw new IdempotencyKeyError(`Idempotency key must be at most ${MAX_KEY_LENGTH} characters`);
+  }
+  return key;
+}
+
+/**
+ * The task run submitted under this key within the retention window, if any.
+ * A key reused for a different task is a conflict rather than a replay.
+ */
+export async function findIdempotentRun(supabase: any, key: string, taskName: string): Promise<IdempotentRun | null> {
+  const { data: taskRun, error } = await supabase
+    .from('task_runs')
+    .select('id, task_name, status, created_at, task_function_version_id')
+    .eq('idempotency_key', key)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up idempotency key: ${error.message}`);
+  }
+  if (!taskRun) {
+    return null;
+  }
+
+  if (Date.now() - new Date(taskRun.created_at).getTime() >= idempotencyRetentionMs()) {
+    // Expired - release the key so the new submission can claim it
+    const { error: releaseError } = await supabase
+      .from('task_runs')
+      .update({ idempotency_key: null })
+      .eq('id', taskRun.id)
+      .eq('idempotency_key', key);
+
+    if (releaseError) {
+      throw new Error(`Failed to release expired idempotency key: ${releaseError.message}`);
+    }
+    return null;
+  }
+
+  if (taskRun.task_name !== taskName) {
+    throw new IdempotencyKeyError(`Idempotency key was already used for task '${taskRun.task_name}'`, 409);
+  }
+
+  return {
+    id: taskRun.id,
+    task_name: taskRun.task_name,
+    status: taskRun.status,
+    created_at: taskRun.created_at,
+    version: await versionLabel(supabase, taskRun.task_function_version_id)
+  };
+}
+
+/**
+ * Label of a task version, or null for runs submitted before they were pinned to one
+ */
+async function versionLabel(supabase: any, versionId: number | null): Promise<string | null> {
+  if (versionId === null || versionId === undefined) {
+    return null;
+  }
+
+  const { data: version, error } = await supabase
+    .from('task_function_versions')
+    .select('version')
+    .eq('id', versionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up the version of the idempotent run: ${error.message}`);
+  }
+  return version?.version ?? null;
+}
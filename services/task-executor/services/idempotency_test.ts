@@ -0,0 +1,74 @@
+import { assertEquals, assertRejects, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.env.set('STORAGE_BACKEND', 'memory');
+Deno.env.set('LOG_LEVEL', 'error');
+
+const { createStorageClient } = await import("../../_shared/storage-service.ts");
+const { findIdempotentRun, idempotencyRetentionMs, IdempotencyKeyError, validateIdempotencyKey } = await import("./idempotency.ts");
+
+const HOUR_MS = 3600 * 1000;
+const storage = createStorageClient();
+
+await storage.from('task_function_versions').insert({ id: 7, task_name: 'send-confirmation', version: '1.2.0' });
+
+async function submitted(key: string, ageMs: number, versionId: number | null = 7): Promise<number> {
+  const { data } = await storage.from('task_runs').insert({
+    task_name: 'send-confirmation',
+    task_function_version_id: versionId,
+    status: 'processing',
+    idempotency_key: key,
+    created_at: new Date(Date.now() - ageMs).toISOString()
+  }).select().single();
+  return data.id;
+}
+
+Deno.test('findIdempotentRun - a key within the window returns its run and pinned version', async () => {
+  const id = await submitted('order-1', HOUR_MS);
+
+  assertEquals(await findIdempotentRun(storage, 'order-1', 'send-confirmation'), {
+    id,
+    task_name: 'send-confirmation',
+    status: 'processing',
+    created_at: (await storage.from('task_runs').select('created_at').eq('id', id).single()).data.created_at,
+    version: '1.2.0'
+  });
+  assertEquals(await findIdempotentRun(storage, 'order-unused', 'send-confirmation'), null);
+});
+
+Deno.test('findIdempotentRun - runs from before versioning replay without a version', async () => {
+  await submitted('order-legacy', HOUR_MS, null);
+
+  assertEquals((await findIdempotentRun(storage, 'order-legacy', 'send-confirmation'))?.version, null);
+});
+
+Deno.test('findIdempotentRun - an expired key is released for the new submission', async () => {
+  const id = await submitted('order-2', 25 * HOUR_MS);
+
+  assertEquals(await findIdempotentRun(storage, 'order-2', 'send-confirmation'), null);
+  const { data: run } = await storage.from('task_runs').select('idempotency_key').eq('id', id).single();
+  assertEquals(run.idempotency_key, null);
+});
+
+Deno.test('findIdempotentRun - a key used for another task is a conflict', async () => {
+  await submitted('order-3', HOUR_MS);
+
+  const error = await assertRejects(() => findIdempotentRun(storage, 'order-3', 'other-task'), IdempotencyKeyError);
+  assertEquals((error as InstanceType<typeof IdempotencyKeyError>).status, 409);
+});
+
+Deno.test('idempotencyRetentionMs - defaults to 24 hours and ignores invalid overrides', () => {
+  assertEquals(idempotencyRetentionMs(), 24 * HOUR_MS);
+
+  Deno.env.set('TASK_IDEMPOTENCY_RETENTION_HOURS', '2');
+  assertEquals(idempotencyRetentionMs(), 2 * HOUR_MS);
+  Deno.env.set('TASK_IDEMPOTENCY_RETENTION_HOURS', '-1');
+  assertEquals(idempotencyRetentionMs(), 24 * HOUR_MS);
+  Deno.env.delete('TASK_IDEMPOTENCY_RETENTION_HOURS');
+});
+
+Deno.test('validateIdempotencyKey - refuses empty and overlong keys', () => {
+  assertEquals(validateIdempotencyKey('order-1234'), 'order-1234');
+  assertThrows(() => validateIdempotencyKey(' '), IdempotencyKeyError);
+  assertThrows(() => validateIdempotencyKey(42), IdempotencyKeyError);
+  assertThrows(() => validateIdempotencyKey('k'.repeat(256)), IdempotencyKeyError, 'at most 255');
+});
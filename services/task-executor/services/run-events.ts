@@ -0,0 +1,165 @@
+import { nowISO } from 'tasker-utils/timestamps';
+import { createStorageClient } from "../../_shared/storage-service.ts";
+
+/**
+ * Task run progress events
+ *
+ * Progress is derived by polling the task run, its stack runs and its task_logs and comparing
+ * each poll with the previous one. A stack run that passes through several states between two
+ * polls is reported in the state it was found in.
+ */
+
+export type RunEventType =
+  | 'created'
+  | 'stack_run_spawned'
+  | 'suspended'
+  | 'resumed'
+  | 'stack_run_completed'
+  | 'stack_run_failed'
+  | 'log'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface RunEvent {
+  type: RunEventType;
+  taskRunId: number;
+  at: string;
+  [key: string]: unknown;
+}
+
+export class RunNotFoundError extends Error {
+  constructor(taskRunId: number) {
+    super(`Task run not found: ${taskRunId}`);
+    this.name = 'RunNotFoundError';
+  }
+}
+
+const SUSPENDED_STATUSES = ['suspended_waiting_child', 'waiting_timer', 'waiting_signal'];
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+const LOG_PAGE_SIZE = 500;
+
+export class RunEventTracker {
+  private readonly taskRunId: number;
+  private readonly supabase: any;
+  private started = false;
+  private stackRunStatuses = new Map<number, string>();
+  private logCursor: number | undefined;
+
+  /** Set once the task run has finished and everything up to it has been reported */
+  finished = false;
+
+  constructor(taskRunId: number) {
+    this.taskRunId = taskRunId;
+    this.supabase = createStorageClient({
+      url: Deno.env.get('SUPABASE_URL')!,
+      key: Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    });
+  }
+
+  /**
+   * Events since the previous poll, in the order they happened as far as the poll can tell
+   */
+  async poll(): Promise<RunEvent[]> {
+    const { data: taskRun, error: taskRunError } = await this.supabase
+      .from('task_runs')
+      .select('id, task_name, status, input, result, error, created_at, ended_at')
+      .eq('id', this.taskRunId)
+      .maybeSingle();
+
+    if (taskRunError) {
+      throw new Error(`Failed to read task run: ${taskRunError.message}`);
+    }
+    if (!taskRun) {
+      throw new RunNotFoundError(this.taskRunId);
+    }
+
+    const { data: stackRuns, error: stackRunError } = await this.supabase
+      .from('stack_runs')
+      .select('id, parent_stack_run_id, service_name, method_name, status, error, error_type, error_details')
+      .eq('parent_task_run_id', this.taskRunId)
+      .order('id', { ascending: true });
+
+    if (stackRunError) {
+      throw new Error(`Failed to read stack runs: ${stackRunError.message}`);
+    }
+
+    let logsQuery = this.supabase
+      .from('task_logs')
+      .select('id, stack_run_id, level, message, logged_at')
+      .eq('task_run_id', this.taskRunId)
+      .order('id', { ascending: true })
+      .limit(LOG_PAGE_SIZE);
+
+    if (this.logCursor !== undefined) {
+      logsQuery = logsQuery.gt('id', this.logCursor);
+    }
+
+    const { data: logs, error: logsError } = await logsQuery;
+
+    if (logsError) {
+      throw new Error(`Failed to read task logs: ${logsError.message}`);
+    }
+
+    const events: RunEvent[] = [];
+    const emit = (type: RunEventType, data: Record<string, unknown> = {}) => {
+      events.push({ type, taskRunId: this.taskRunId, at: nowISO(), ...data });
+    };
+
+    if (!this.started) {
+      this.started = true;
+      emit('created', { taskName: taskRun.task_name, status: taskRun.status, input: taskRun.input, createdAt: taskRun.created_at });
+    }
+
+    for (const stackRun of stackRuns || []) {
+      const previous = this.stackRunStatuses.get(stackRun.id);
+      const current = stackRun.status;
+
+      if (previous === current) {
+        continue;
+      }
+      this.stackRunStatuses.set(stackRun.id, current);
+
+      const stackRunData = { stackRunId: stackRun.id, service: stackRun.service_name, method: stackRun.method_name, status: current };
+
+      if (previous === undefined) {
+        emit('stack_run_spawned', { ...stackRunData, parentStackRunId: stackRun.parent_stack_run_id });
+      }
+
+      if (SUSPENDED_STATUSES.includes(current) && !SUSPENDED_STATUSES.includes(previous ?? '')) {
+        emit('suspended', stackRunData);
+      } else if (previous && SUSPENDED_STATUSES.includes(previous) && !SUSPENDED_STATUSES.includes(current)) {
+        emit('resumed', stackRunData);
+      }
+
+      if (current === 'completed') {
+        emit('stack_run_completed', stackRunData);
+      } else if (current === 'failed') {
+        emit('stack_run_failed', {
+          ...stackRunData,
+          error: stackRun.error,
+          errorType: stackRun.error_type ?? undefined,
+          errorDetails: stackRun.error_details ?? undefined
+        });
+      }
+    }
+
+    const logEntries = logs || [];
+    for (const entry of logEntries) {
+      emit('log', { logId: entry.id, stackRunId: entry.stack_run_id, level: entry.level, message: entry.message, loggedAt: entry.logged_at });
+    }
+    if (logEntries.length > 0) {
+      this.logCursor = logEntries[logEntries.length - 1].id;
+    }
+
+    // A full page of logs means more are waiting - finish only once they are drained
+    if (FINISHED_STATUSES.includes(taskRun.status) && logEntries.length < LOG_PAGE_SIZE) {
+      emit(taskRun.status as RunEventType, taskRun.status === 'completed'
+        ? { result: taskRun.result, endedAt: taskRun.ended_at }
+        : { error: taskRun.error, endedAt: taskRun.ended_at });
+      this.finished = true;
+    }
+
+    return events;
+  }
+}
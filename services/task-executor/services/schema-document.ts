@@ -0,0 +1,232 @@
+import { inlineDefinitions, SCHEMA_REF_PREFIX } from './schema-generator.ts';
+import { inputSchemaFor } from './task-schema.ts';
+import { GeneratedSchema, OpenAISchema, OpenAPISchema, SchemaProperty } from '../types/index.ts';
+
+/**
+ * Combined schema documents for every task
+ *
+ * Each task's @typedefs become shared components. Identical definitions from different tasks
+ * share one component; a name defined differently by two tasks is prefixed with the task name.
+ */
+
+export const SCHEMA_DOCUMENT_FORMATS = ['openapi', 'openai', 'json'] as const;
+
+export type SchemaDocumentFormat = typeof SCHEMA_DOCUMENT_FORMATS[number];
+
+export type SchemaDocument =
+  | OpenAPISchema
+  | { functions: OpenAISchema[] }
+  | { tasks: GeneratedSchema[]; components: { schemas: Record<string, SchemaProperty> } };
+
+// Component and function names allow letters, digits, '.', '_' and '-'
+function safeName(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+/**
+ * Move every task's definitions into one set, renaming conflicting ones and the references to them
+ */
+function mergeDefinitions(schemas: GeneratedSchema[]): { tasks: GeneratedSchema[]; definitions: Record<string, SchemaProperty> } {
+  const definitions: Record<string, SchemaProperty> = {};
+
+  const tasks = schemas.map(({ definitions: taskDefinitions = {}, ...schema }) => {
+    const renames: Record<string, string> = {};
+    for (const [name, definition] of Object.entries(taskDefinitions)) {
+      const existing = definitions[name];
+      if (existing && JSON.stringify(existing) !== JSON.stringify(definition)) {
+        renames[name] = safeName(`${schema.name}_${name}`);
+      }
+    }
+
+    // References are exact strings, so renaming them textually is safe
+    let json = JSON.stringify({ schema, taskDefinitions });
+    for (const [name, renamed] of Object.entries(renames)) {
+      json = json.split(JSON.stringify(`${SCHEMA_REF_PREFIX}${name}`)).join(JSON.stringify(`${SCHEMA_REF_PREFIX}${renamed}`));
+    }
+    const renamedTask = JSON.parse(json) as { schema: GeneratedSchema; taskDefinitions: Record<string, SchemaProperty> };
+
+    for (const [name, definition] of Object.entries(renamedTask.taskDefinitions)) {
+      definitions[renames[name] || name] = definition;
+    }
+    return renamedTask.schema;
+  });
+
+  return { tasks, definitions };
+}
+
+// Response envelopes shared by every task path
+const SHARED_SCHEMAS: Record<string, SchemaProperty> = {
+  TaskSubmission: {
+    type: 'object',
+    description: 'Returned instead of the result when the run has been queued',
+    properties: {
+      taskRunId: { type: 'integer' },
+      status: { type: 'string' },
+      version: { type: 'string' },
+      idempotentReplay: { type: 'boolean' }
+    }
+  },
+  SchemaViolation: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Where the value failed, e.g. input.items[0].name' },
+      message: { type: 'string' }
+    },
+    required: ['path', 'message']
+  },
+  TaskError: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', enum: [false] },
+      error: { type: 'string' },
+      logs: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['success', 'error']
+  }
+};
+
+function jsonContent(schema: unknown) {
+  return { 'application/json': { schema } };
+}
+
+function openApiOperation(schema: GeneratedSchema) {
+  const errors = schema.errors || [];
+  const failure: Record<string, unknown> = {
+    description: errors.length > 0
+      ? `Task failed. Declared errors:\n${errors.map(error => `- ${error.type}: ${error.description}`).join('\n')}`
+      : 'Task failed',
+    content: jsonContent({ $ref: `${SCHEMA_REF_PREFIX}TaskError` })
+  };
+  if (errors.length > 0) {
+    failure['x-throws'] = errors;
+  }
+
+  return {
+    operationId: safeName(schema.name),
+    summary: schema.description || `Execute ${schema.name}`,
+    parameters: [
+      { $ref: '#/components/parameters/Wait' },
+      { $ref: '#/components/parameters/IdempotencyKey' }
+    ],
+    requestBody: {
+      required: true,
+      content: jsonContent(inputSchemaFor(schema) ?? { type: 'object' })
+    },
+    responses: {
+      '200': {
+        description: 'The task result when called with wait and the run completed, otherwise the submission',
+        content: jsonContent({
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                result: { oneOf: [schema.returns, { $ref: `${SCHEMA_REF_PREFIX}TaskSubmission` }] },
+                taskRunId: { type: 'integer' },
+                status: { type: 'string' }
+              }
+            },
+            logs: { type: 'array', items: { type: 'string' } }
+          }
+        })
+      },
+      '202': { $ref: '#/components/responses/StillRunning' },
+      '400': { $ref: '#/components/responses/InvalidInput' },
+      '500': failure
+    }
+  };
+}
+
+function openApiDocument(tasks: GeneratedSchema[], definitions: Record<string, SchemaProperty>, serverUrl?: string): OpenAPISchema {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Tasks',
+      description: 'Task functions run by task-executor. Each task is executed by POSTing its input to its path.',
+      version: '1.0.0'
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    paths: Object.fromEntries(tasks.map(task => [
+      `/execute/${encodeURIComponent(task.name)}`,
+      { post: openApiOperation(task) }
+    ])),
+    components: {
+      schemas: { ...SHARED_SCHEMAS, ...definitions },
+      parameters: {
+        Wait: {
+          name: 'wait',
+          in: 'query',
+          description: 'Hold the response until the run finishes, e.g. 30s (at most 120s)',
+          schema: { type: 'string' }
+        },
+        IdempotencyKey: {
+          name: 'Idempotency-Key',
+          in: 'header',
+          description: 'Repeated submissions with the same key return the original run',
+          schema: { type: 'string', maxLength: 255 }
+        }
+      },
+      responses: {
+        StillRunning: {
+          description: 'The wait ran out before the run finished',
+          content: jsonContent({
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { $ref: `${SCHEMA_REF_PREFIX}TaskSubmission` }
+            }
+          })
+        },
+        InvalidInput: {
+          description: 'The input does not match the task schema',
+          content: jsonContent({
+            allOf: [
+              { $ref: `${SCHEMA_REF_PREFIX}TaskError` },
+              {
+                type: 'object',
+                properties: {
+                  details: {
+                    type: 'object',
+                    properties: {
+                      violations: { type: 'array', items: { $ref: `${SCHEMA_REF_PREFIX}SchemaViolation` } }
+                    }
+                  }
+                }
+              }
+            ]
+          })
+        }
+      }
+    }
+  };
+}
+
+/**
+ * One document describing every task, in the requested format
+ */
+export function buildSchemaDocument(schemas: GeneratedSchema[], format: SchemaDocumentFormat, serverUrl?: string): SchemaDocument {
+  const { tasks, definitions } = mergeDefinitions(schemas);
+
+  switch (format) {
+    case 'openapi':
+      return openApiDocument(tasks, definitions, serverUrl);
+
+    case 'openai':
+      // Function calling has no shared components, so references are inlined
+      return {
+        functions: tasks.map(task => {
+          const parameters = inlineDefinitions(inputSchemaFor(task) ?? { type: 'object', properties: {} }, definitions);
+          return {
+            name: safeName(task.name),
+            description: task.description,
+            parameters: parameters.type === 'object' ? parameters : { ...parameters, type: 'object' },
+            returns: inlineDefinitions(task.returns, definitions)
+          };
+        })
+      };
+
+    case 'json':
+      return { tasks, components: { schemas: definitions } };
+  }
+}
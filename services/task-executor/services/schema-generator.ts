@@ -1,32 +1,48 @@
 import { ParsedInfo, GeneratedSchema, SchemaProperty, OpenAPISchema, OpenAISchema, FormattedSchema } from '../types/index.ts';
 
+export const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
 /**
  * Generate schema from parsed JSDoc
  */
 export function generateSchema(parsedInfo: ParsedInfo): GeneratedSchema {
+  const typedefNames = new Set((parsedInfo.typedefs || []).map(typedef => typedef.name));
+
   // Helper function to get type from JSDoc type
-  const getSchemaType = (type: string): SchemaProperty => {
-    type = type.toLowerCase();
-    
+  const getSchemaType = (rawType: string): SchemaProperty => {
+    rawType = rawType.trim();
+    const type = rawType.toLowerCase();
+
+    // Arrays first, so Array<string> and string[] are not read as string
+    const genericArrayMatch = rawType.match(/^array\s*<(.+)>$/i);
+    if (genericArrayMatch) {
+      return { type: 'array', items: getSchemaType(genericArrayMatch[1]) };
+    }
+
+    // Unions keep a type only when every member agrees
+    if (type.includes('|')) {
+      const memberSchemas = rawType.split('|').filter(member => member.trim() !== 'undefined').map(member => getSchemaType(member));
+      const sameType = memberSchemas.every(member => member.type && member.type === memberSchemas[0].type);
+      return sameType && memberSchemas.length > 0 ? memberSchemas[0] : {};
+    }
+
+    const arrayMatch = rawType.match(/^(.+)\[\]$/);
+    if (arrayMatch) {
+      return { type: 'array', items: getSchemaType(arrayMatch[1]) };
+    }
+    if (type === 'array') return { type: 'array', items: {} };
+
+    // Types declared with @typedef are referenced, not repeated
+    if (typedefNames.has(rawType)) return { $ref: `${SCHEMA_REF_PREFIX}${rawType}` };
+
     if (type.includes('string')) return { type: 'string' };
     if (type.includes('number') || type.includes('float') || type.includes('integer')) return { type: 'number' };
     if (type.includes('boolean')) return { type: 'boolean' };
     if (type.includes('date')) return { type: 'string', format: 'date-time' };
     if (type.includes('object')) return { type: 'object', properties: {} };
-    if (type.includes('array')) {
-      // Try to extract the array item type from Array<Type>
-      const itemTypeMatch = type.match(/array<([^>]+)>/i);
-      if (itemTypeMatch) {
-        return { 
-          type: 'array', 
-          items: getSchemaType(itemTypeMatch[1])
-        };
-      }
-      return { type: 'array', items: { type: 'object' } };
-    }
-    
-    // Default to string for unknown types
-    return { type: 'string' };
+
+    // Unknown types (any, *, named types) accept any value
+    return {};
   };
   
   // Create a hierarchical schema structure
@@ -105,6 +121,10 @@ export function generateSchema(parsedInfo: ParsedInfo): GeneratedSchema {
         if (property.items) {
           current.properties[finalSegment].items = property.items;
         }
+
+        if (property.$ref) {
+          current.properties[finalSegment].$ref = property.$ref;
+        }
         
         // Add to required list if not optional
         if (isRequired) {
@@ -245,6 +265,24 @@ export function generateSchema(parsedInfo: ParsedInfo): GeneratedSchema {
     returns: returnSchema
   };
   
+  // Build the @typedef schemas the parameters and return value refer to
+  if (parsedInfo.typedefs && parsedInfo.typedefs.length > 0) {
+    finalSchema.definitions = {};
+
+    parsedInfo.typedefs.forEach(typedef => {
+      const typedefBuilder = schemaBuilder();
+      typedef.properties.forEach((prop: any) => {
+        typedefBuilder.addProperty(prop.parts, { ...getSchemaType(prop.type), description: prop.description }, !prop.optional);
+      });
+
+      const definition = typedef.properties.length > 0 ? typedefBuilder.schema : getSchemaType(typedef.type);
+      if (typedef.description) {
+        definition.description = typedef.description;
+      }
+      finalSchema.definitions![typedef.name] = definition;
+    });
+  }
+
   // Add errors information if available
   if (parsedInfo.throws && parsedInfo.throws.length > 0) {
     finalSchema.errors = parsedInfo.throws.map((t: any) => ({
@@ -259,7 +297,7 @@ export function generateSchema(parsedInfo: ParsedInfo): GeneratedSchema {
 /**
  * Format schema according to requested format
  */
-export function formatSchema(schema: GeneratedSchema, format: string): FormattedSchema {
+export function formatSchema(schema: GeneratedSchema, format = 'json'): FormattedSchema {
   switch (format.toLowerCase()) {
     case 'openapi':
       return {
@@ -353,4 +391,32 @@ export function formatSchema(schema: GeneratedSchema, format: string): Formatted
     default:
       return schema;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Replace @typedef references with the schemas they name, for consumers that cannot follow
+ * $ref. A type that contains itself is left open (any value) where it recurs.
+ */
+export function inlineDefinitions(schema: SchemaProperty, definitions: Record<string, SchemaProperty> = {}, seen: string[] = []): SchemaProperty {
+  if (schema.$ref) {
+    const name = schema.$ref.slice(SCHEMA_REF_PREFIX.length);
+    const definition = definitions[name];
+    if (!definition || seen.includes(name)) {
+      return schema.description ? { description: schema.description } : {};
+    }
+
+    const inlined = inlineDefinitions(definition, definitions, [...seen, name]);
+    return schema.description ? { ...inlined, description: schema.description } : inlined;
+  }
+
+  const result: SchemaProperty = { ...schema };
+  if (schema.items) {
+    result.items = inlineDefinitions(schema.items, definitions, seen);
+  }
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [name, inlineDefinitions(property, definitions, seen)])
+    );
+  }
+  return result;
+}
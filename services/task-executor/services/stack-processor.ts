@@ -1,6 +1,7 @@
 import { supabaseClient } from "../config/supabase-config.ts";
 import { LOG_PREFIX_BASE } from "../utils/response-utils.ts";
 import { hostLog } from "../../_shared/utils.ts";
+import { serviceRegistry } from "../../_shared/service-registry.ts";
 import { nowISO } from 'tasker-utils/timestamps';
 
 export async function checkQueueBusy(baseUrl: string, serviceRoleKey: string): Promise<boolean> {
@@ -54,8 +55,7 @@ export async function executeStackRunSynchronously(stackRunId: string, baseUrl:
         hostLog(LOG_PREFIX_BASE, `Executing ${service_name}.${method_name} with args: ${JSON.stringify(args)}`);
 
         // 2. Execute the service call
-        const serviceUrl = `http://localhost:8001`;
-        const serviceResponse = await fetch(`${serviceUrl}/${service_name}/${method_name}`, {
+        const serviceResponse = await serviceRegistry.invokeFunction(service_name, `/${method_name}`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json'
@@ -121,19 +121,19 @@ export async function executeStackRunSynchronously(stackRunId: string, baseUrl:
 
 export async function triggerFIFOProcessingChain(baseUrl: string, serviceRoleKey: string): Promise<void> {
     try {
-        // Use internal kong URL for inter-function communication
-        const internalUrl = 'http://kong:8000/functions/v1/simple-stack-processor';
+        // Use the internal gateway URL for inter-function communication
+        const internalUrl = serviceRegistry.getFunctionUrl('simple-stack-processor', '', { internal: true });
 
         hostLog(LOG_PREFIX_BASE, `🚀 Triggering FIFO processing chain at ${internalUrl}`);
 
-        const response = await fetch(internalUrl, {
+        const response = await serviceRegistry.invokeFunction('simple-stack-processor', '', {
             method: 'POST',
             headers: {
                 'Authorization': `Bearer ${serviceRoleKey}`,
                 'Content-Type': 'application/json'
             },
             body: JSON.stringify({ trigger: 'process-next' })
-        });
+        }, { internal: true });
 
         if (!response.ok) {
             const errorText = await response.text();
@@ -147,6 +147,38 @@ export async function triggerFIFOProcessingChain(baseUrl: string, serviceRoleKey
     }
 }
 
+export async function deliverSignalToStackProcessor(
+    stackRunId: number,
+    signal: { name: string; payload?: unknown },
+    serviceRoleKey: string
+): Promise<{ delivered: boolean; error?: string }> {
+    try {
+        hostLog(LOG_PREFIX_BASE, "info", `Delivering signal '${signal.name}' to stack run ${stackRunId}`);
+
+        // Use the internal gateway URL for inter-function communication
+        const response = await serviceRegistry.invokeFunction('simple-stack-processor', '', {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${serviceRoleKey}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ trigger: 'deliver-signal', stackRunId, signal })
+        }, { internal: true });
+
+        const result = await response.json();
+
+        // 409 means the stack run stopped waiting (timed out or already signalled) before delivery
+        if (!response.ok) {
+            return { delivered: false, error: result.error || `Stack processor responded with ${response.status}` };
+        }
+
+        return { delivered: result.delivered === true };
+    } catch (error) {
+        hostLog(LOG_PREFIX_BASE, "error", `❌ Error delivering signal: ${error instanceof Error ? error.message : String(error)}`);
+        return { delivered: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
 export async function triggerNextQueuedTask(baseUrl: string, serviceRoleKey: string): Promise<void> {
     try {
         // Get the next pending task
@@ -187,7 +219,7 @@ export async function triggerNextQueuedTask(baseUrl: string, serviceRoleKey: str
         });
 
         // Trigger the task execution
-        const executeResponse = await fetch(`${baseUrl}/functions/v1/tasks/execute`, {
+        const executeResponse = await serviceRegistry.invokeFunction('tasks', '/execute', {
             method: 'POST',
             headers: {
                 'Authorization': `Bearer ${serviceRoleKey}`,
@@ -0,0 +1,55 @@
+import { generateSchema, inlineDefinitions } from './schema-generator.ts';
+import { parseJSDocComments } from '../utils/jsdoc-parser.ts';
+import { GeneratedSchema, SchemaProperty } from '../types/index.ts';
+import { validateSchema, type SchemaViolation } from '../../_shared/schema-validator.ts';
+
+/**
+ * Schemas a task's input and result are checked against, generated from its JSDoc
+ */
+export function taskSchemaFor(code: string, taskName: string): GeneratedSchema {
+  return generateSchema(parseJSDocComments(code, taskName));
+}
+
+/**
+ * The schema of the input object a task receives. Tasks documented as
+ * `@param {object} input` + `@param {string} input.name` describe it under their one
+ * parameter; tasks documenting `@param {string} name` directly describe it at the top.
+ * Null when the task documents no parameters.
+ */
+export function inputSchemaFor(schema: GeneratedSchema): SchemaProperty | null {
+  const properties = Object.entries(schema.parameters.properties || {});
+  if (properties.length === 0) {
+    return null;
+  }
+
+  const [, property] = properties[0];
+  if (properties.length === 1 && (property.type === 'object' || property.$ref)) {
+    return property;
+  }
+
+  return schema.parameters;
+}
+
+/**
+ * The schema of a task's return value, or null when @returns gives nothing to check
+ */
+export function resultSchemaFor(schema: GeneratedSchema): SchemaProperty | null {
+  const returns = schema.returns;
+  if (!returns.$ref && (!returns.type || (returns.type === 'object' && Object.keys(returns.properties || {}).length === 0))) {
+    return null;
+  }
+  return returns;
+}
+
+/**
+ * The result schema with its @typedefs inlined, to be pinned on a run and checked at completion
+ */
+export function pinnedResultSchemaFor(schema: GeneratedSchema): SchemaProperty | null {
+  const returns = resultSchemaFor(schema);
+  return returns ? inlineDefinitions(returns, schema.definitions) : null;
+}
+
+export function validateTaskInput(schema: GeneratedSchema, input: unknown): SchemaViolation[] {
+  const inputSchema = inputSchemaFor(schema);
+  return inputSchema ? validateSchema(input, inlineDefinitions(inputSchema, schema.definitions), 'input') : [];
+}
@@ -0,0 +1,63 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { pinnedResultSchemaFor, taskSchemaFor, validateTaskInput } from "./task-schema.ts";
+import { validateSchema } from "../../_shared/schema-validator.ts";
+
+const SEND_MAIL = `
+/**
+ * Send a mail
+ * @param {object} input
+ * @param {string} input.to - Recipient
+ * @param {number} [input.retries] - Attempts before giving up
+ * @param {Array<string>} input.tags - Labels
+ * @returns {boolean} sent - Whether it was sent
+ */
+module.exports = async function(input) { return true; };
+`;
+
+const PER_FIELD = `
+/**
+ * Greet someone
+ * @param {string} name - Who to greet
+ * @param {object[]} items - What to hand over
+ * @param {string} items[].label - Item label
+ */
+module.exports = async function(input) { return 'hi'; };
+`;
+
+Deno.test('validateTaskInput - accepts input that matches the documented parameters', () => {
+  const schema = taskSchemaFor(SEND_MAIL, 'send-mail');
+
+  assertEquals(validateTaskInput(schema, { to: 'a@example.com', tags: ['x'] }), []);
+  assertEquals(validateTaskInput(schema, { to: 'a@example.com', retries: 3, tags: [], extra: true }), []);
+});
+
+Deno.test('validateTaskInput - reports each failing path', () => {
+  const schema = taskSchemaFor(SEND_MAIL, 'send-mail');
+
+  assertEquals(validateTaskInput(schema, { to: 42, tags: ['x', 7] }), [
+    { path: 'input.to', message: 'expected string, got number' },
+    { path: 'input.tags[1]', message: 'expected string, got number' }
+  ]);
+  assertEquals(validateTaskInput(schema, { tags: [] }).map(violation => violation.path), ['input.to']);
+});
+
+Deno.test('validateTaskInput - one @param per field describes the input object', () => {
+  const schema = taskSchemaFor(PER_FIELD, 'greet');
+
+  assertEquals(validateTaskInput(schema, { name: 'Ada', items: [{ label: 'tea' }] }), []);
+  assertEquals(validateTaskInput(schema, { name: 'Ada', items: [{ label: 1 }] }).map(violation => violation.path), ['input.items[0].label']);
+});
+
+Deno.test('validateTaskInput - tasks without @param tags are not checked', () => {
+  const schema = taskSchemaFor('module.exports = async function(input) { return input; };', 'echo');
+
+  assertEquals(validateTaskInput(schema, 'anything'), []);
+});
+
+Deno.test('pinnedResultSchemaFor - named @returns tags describe fields of the result', () => {
+  const resultSchema = pinnedResultSchemaFor(taskSchemaFor(SEND_MAIL, 'send-mail'))!;
+
+  assertEquals(validateSchema({ sent: true }, resultSchema, 'result'), []);
+  assertEquals(validateSchema({ sent: 'yes' }, resultSchema, 'result'), [{ path: 'result.sent', message: 'expected boolean, got string' }]);
+  assertEquals(pinnedResultSchemaFor(taskSchemaFor(PER_FIELD, 'greet')), null);
+});
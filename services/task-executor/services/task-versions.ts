@@ -0,0 +1,343 @@
+import { TaskFunctionVersion } from "../types/index.ts";
+import { nowISO } from 'tasker-utils/timestamps';
+
+/**
+ * Task function versioning
+ *
+ * Every published body of a task function is stored once in task_function_versions, keyed by
+ * its SHA-256 content hash and labelled with a semver version. task_functions.current_version_id
+ * names the version new runs start on; task runs record the version they started with so a
+ * resume never picks up code published after the run began.
+ */
+
+// Mirrors the permissions deno-executor can grant a sandbox worker, plus the keystore
+// namespaces the stack processor lets the task's keystore calls use
+const GRANTABLE_PERMISSIONS = ['net', 'env', 'read', 'write', 'keystore'];
+
+// Only the service role may grant permissions to task code
+const GRANTING_PRINCIPAL = 'service_role';
+
+export type TaskPermissions = Record<string, boolean | string[]>;
+
+// Mirrors the limits deno-executor enforces on a sandbox worker
+const TASK_LIMIT_NAMES = ['wallClockMs', 'cpuMs', 'heapMb', 'maxHostCalls'];
+
+export type TaskLimits = Record<string, number>;
+
+/**
+ * Settings that belong to the task function rather than a version; runs pin them when they start
+ */
+export interface TaskFunctionSettings {
+  permissions?: TaskPermissions | null;
+  limits?: TaskLimits | null;
+}
+
+const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/;
+
+export const INITIAL_VERSION = '1.0.0';
+
+export class TaskVersionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'TaskVersionError';
+    this.status = status;
+  }
+}
+
+export async function computeContentHash(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function isValidVersion(version: string): boolean {
+  return SEMVER_PATTERN.test(version);
+}
+
+/**
+ * Compare two semver labels; pre-releases sort before their release
+ */
+export function compareVersions(a: string, b: string): number {
+  const [, aMajor, aMinor, aPatch, aPre] = a.match(SEMVER_PATTERN) || [];
+  const [, bMajor, bMinor, bPatch, bPre] = b.match(SEMVER_PATTERN) || [];
+
+  const numeric = [
+    Number(aMajor) - Number(bMajor),
+    Number(aMinor) - Number(bMinor),
+    Number(aPatch) - Number(bPatch)
+  ].find(difference => difference !== 0);
+
+  if (numeric !== undefined) return numeric;
+  if (aPre === bPre) return 0;
+  if (!aPre) return 1;
+  if (!bPre) return -1;
+  return aPre < bPre ? -1 : 1;
+}
+
+/**
+ * Next patch release after the highest published version
+ */
+export function nextVersion(versions: string[]): string {
+  const latest = versions.filter(isValidVersion).sort(compareVersions).pop();
+  if (!latest) return INITIAL_VERSION;
+
+  const [, major, minor, patch, pre] = latest.match(SEMVER_PATTERN)!;
+  // A pre-release is followed by its own release
+  return pre ? `${major}.${minor}.${patch}` : `${major}.${minor}.${Number(patch) + 1}`;
+}
+
+/**
+ * Mirrors deno-executor's TASK_ENV_ALLOWLIST: the host variables a task's env grant may name
+ */
+function taskEnvAllowlist(): string[] {
+  return (Deno.env.get('TASK_ENV_ALLOWLIST') || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Reject permission sets the executor would refuse, so they fail at publish time rather than at run time.
+ * Granting anything at all requires the service role.
+ */
+export function validateTaskPermissions(permissions: unknown, principal?: string): void {
+  if (permissions === null || permissions === undefined) return;
+
+  if (typeof permissions !== 'object' || Array.isArray(permissions)) {
+    throw new TaskVersionError('permissions must be an object', 400);
+  }
+
+  const grants = Object.values(permissions).some(value => value !== false);
+  if (grants && principal !== GRANTING_PRINCIPAL) {
+    throw new TaskVersionError('Only the service role may grant permissions to task code', 403);
+  }
+
+  for (const [name, value] of Object.entries(permissions)) {
+    if (!GRANTABLE_PERMISSIONS.includes(name)) {
+      throw new TaskVersionError(`Permission '${name}' cannot be granted to task code (allowed: ${GRANTABLE_PERMISSIONS.join(', ')})`, 400);
+    }
+    if (typeof value !== 'boolean' && !(Array.isArray(value) && value.every(item => typeof item === 'string'))) {
+      throw new TaskVersionError(`Permission '${name}' must be a boolean or a list of strings`, 400);
+    }
+    if (name === 'env' && value !== false) {
+      const allowlist = taskEnvAllowlist();
+      if (!Array.isArray(value)) {
+        throw new TaskVersionError("Permission 'env' must list the variables it grants", 400);
+      }
+      const refused = value.filter(variable => !allowlist.includes(variable));
+      if (refused.length > 0) {
+        throw new TaskVersionError(`Environment variables not in TASK_ENV_ALLOWLIST: ${refused.join(', ')}`, 400);
+      }
+    }
+  }
+}
+
+/**
+ * Reject limits the executor would refuse
+ */
+export function validateTaskLimits(limits: unknown): void {
+  if (limits === null || limits === undefined) return;
+
+  if (typeof limits !== 'object' || Array.isArray(limits)) {
+    throw new TaskVersionError('limits must be an object', 400);
+  }
+
+  for (const [name, value] of Object.entries(limits)) {
+    if (!TASK_LIMIT_NAMES.includes(name)) {
+      throw new TaskVersionError(`Unknown task limit '${name}' (allowed: ${TASK_LIMIT_NAMES.join(', ')})`, 400);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new TaskVersionError(`Task limit '${name}' must be a positive number`, 400);
+    }
+  }
+}
+
+async function listVersionRows(supabase: any, taskFunctionId: number): Promise<TaskFunctionVersion[]> {
+  const { data, error } = await supabase
+    .from('task_function_versions')
+    .select('*')
+    .eq('task_function_id', taskFunctionId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new TaskVersionError(`Failed to list versions: ${error.message}`, 500);
+  }
+
+  return data || [];
+}
+
+async function setCurrentVersion(
+  supabase: any,
+  taskFunctionId: number,
+  version: TaskFunctionVersion,
+  settings: TaskFunctionSettings = {}
+): Promise<void> {
+  // code mirrors the current version for readers that predate versioning
+  const { error } = await supabase
+    .from('task_functions')
+    .update({
+      current_version_id: version.id,
+      code: version.code,
+      ...(settings.permissions !== undefined ? { permissions: settings.permissions } : {}),
+      ...(settings.limits !== undefined ? { limits: settings.limits } : {}),
+      updated_at: nowISO()
+    })
+    .eq('id', taskFunctionId);
+
+  if (error) {
+    throw new TaskVersionError(`Failed to activate version ${version.version}: ${error.message}`, 500);
+  }
+}
+
+/**
+ * Publish code as a version of a task function and make it current. Publishing code that
+ * is already a version re-activates that version instead of creating a duplicate.
+ * Permissions and limits belong to the task function and apply to runs started from now on.
+ */
+export async function publishTaskVersion(
+  supabase: any,
+  taskName: string,
+  code: string,
+  options: { version?: string; description?: string; principal?: string } & TaskFunctionSettings = {}
+): Promise<{ version: TaskFunctionVersion; created: boolean }> {
+  if (options.version && !isValidVersion(options.version)) {
+    throw new TaskVersionError(`Invalid version '${options.version}': expected semver such as 1.2.3`, 400);
+  }
+  validateTaskPermissions(options.permissions, options.principal);
+  validateTaskLimits(options.limits);
+
+  const { data: existingFunction, error: functionError } = await supabase
+    .from('task_functions')
+    .select('id, name, description')
+    .eq('name', taskName)
+    .maybeSingle();
+
+  if (functionError) {
+    throw new TaskVersionError(`Failed to look up task function: ${functionError.message}`, 500);
+  }
+
+  let taskFunction = existingFunction;
+  if (!taskFunction) {
+    const { data: created, error: createError } = await supabase
+      .from('task_functions')
+      .insert({
+        name: taskName,
+        code,
+        description: options.description,
+        permissions: options.permissions ?? null,
+        limits: options.limits ?? null
+      })
+      .select('id, name, description')
+      .single();
+
+    if (createError || !created) {
+      throw new TaskVersionError(`Failed to create task function: ${createError?.message || 'Unknown error'}`, 500);
+    }
+    taskFunction = created;
+  }
+
+  const contentHash = await computeContentHash(code);
+  const versions = await listVersionRows(supabase, taskFunction.id);
+  const sameContent = versions.find(version => version.content_hash === contentHash);
+
+  if (sameContent) {
+    if (options.version && options.version !== sameContent.version) {
+      throw new TaskVersionError(`This code is already published as version ${sameContent.version}`, 409);
+    }
+    await setCurrentVersion(supabase, taskFunction.id, sameContent, options);
+    return { version: sameContent, created: false };
+  }
+
+  const versionLabel = options.version || nextVersion(versions.map(version => version.version));
+  if (versions.some(version => version.version === versionLabel)) {
+    throw new TaskVersionError(`Version ${versionLabel} of ${taskName} is already published with different code`, 409);
+  }
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('task_function_versions')
+    .insert({
+      task_function_id: taskFunction.id,
+      task_name: taskName,
+      version: versionLabel,
+      content_hash: contentHash,
+      code,
+      description: options.description ?? taskFunction.description
+    })
+    .select()
+    .single();
+
+  if (insertError || !inserted) {
+    // A concurrent publish took the label or the content first
+    const status = insertError?.code === '23505' ? 409 : 500;
+    throw new TaskVersionError(`Failed to publish version ${versionLabel}: ${insertError?.message || 'Unknown error'}`, status);
+  }
+
+  await setCurrentVersion(supabase, taskFunction.id, inserted, options);
+  return { version: inserted, created: true };
+}
+
+/**
+ * Make an earlier version current again; runs already in flight keep their own version
+ */
+export async function rollbackTaskVersion(supabase: any, taskName: string, versionLabel: string): Promise<TaskFunctionVersion> {
+  const { data: version, error } = await supabase
+    .from('task_function_versions')
+    .select('*')
+    .eq('task_name', taskName)
+    .eq('version', versionLabel)
+    .maybeSingle();
+
+  if (error) {
+    throw new TaskVersionError(`Failed to look up version: ${error.message}`, 500);
+  }
+  if (!version) {
+    throw new TaskVersionError(`Version ${versionLabel} of ${taskName} not found`, 404);
+  }
+
+  await setCurrentVersion(supabase, version.task_function_id, version);
+  return version;
+}
+
+/**
+ * Versions of a task function, oldest first, with the current one flagged
+ */
+export async function listTaskVersions(supabase: any, taskName: string): Promise<Array<Omit<TaskFunctionVersion, 'code'> & { current: boolean }>> {
+  const { data: taskFunction, error } = await supabase
+    .from('task_functions')
+    .select('id, current_version_id')
+    .eq('name', taskName)
+    .maybeSingle();
+
+  if (error) {
+    throw new TaskVersionError(`Failed to look up task function: ${error.message}`, 500);
+  }
+  if (!taskFunction) {
+    throw new TaskVersionError(`Task function not found: ${taskName}`, 404);
+  }
+
+  const versions = await listVersionRows(supabase, taskFunction.id);
+  return versions.map(({ code: _code, ...version }) => ({ ...version, current: version.id === taskFunction.current_version_id }));
+}
+
+/**
+ * Version a new run starts on. Task functions saved before versioning existed are
+ * published as their first version on first use.
+ */
+export async function resolveCurrentVersion(supabase: any, taskData: any): Promise<TaskFunctionVersion> {
+  if (taskData.current_version_id) {
+    const { data: version, error } = await supabase
+      .from('task_function_versions')
+      .select('*')
+      .eq('id', taskData.current_version_id)
+      .single();
+
+    if (error || !version) {
+      throw new TaskVersionError(`Current version of ${taskData.name} not found: ${error?.message || 'Unknown error'}`, 500);
+    }
+    return version;
+  }
+
+  const { version } = await publishTaskVersion(supabase, taskData.name, taskData.code);
+  return version;
+}
@@ -0,0 +1,40 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { TaskVersionError, validateTaskPermissions } from "./task-versions.ts";
+import { requestPrincipal, requireServiceRole } from "../utils/request-auth.ts";
+
+const SERVICE_ROLE_KEY = 'service-role-key';
+
+function request(authorization?: string): Request {
+  return new Request('http://localhost/publish', {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization } : {}
+  });
+}
+
+Deno.test('requireServiceRole - only the service role key passes', () => {
+  assertEquals(requestPrincipal(request(`Bearer ${SERVICE_ROLE_KEY}`), SERVICE_ROLE_KEY), 'service_role');
+  assertEquals(requireServiceRole(request(`Bearer ${SERVICE_ROLE_KEY}`), SERVICE_ROLE_KEY), null);
+  assertEquals(requireServiceRole(request(), SERVICE_ROLE_KEY)?.status, 401);
+  assertEquals(requireServiceRole(request('Bearer anon-key'), SERVICE_ROLE_KEY)?.status, 403);
+  assertEquals(requireServiceRole(request('Bearer '), '')?.status, 401);
+  assertEquals(requireServiceRole(request('Bearer anything'), '')?.status, 403);
+});
+
+Deno.test('validateTaskPermissions - only the service role may grant permissions', () => {
+  const error = assertThrows(() => validateTaskPermissions({ net: ['api.example.com'] }, 'unverified'), TaskVersionError);
+  assertEquals((error as TaskVersionError).status, 403);
+  assertThrows(() => validateTaskPermissions({ keystore: true }), TaskVersionError, 'service role');
+
+  validateTaskPermissions({ net: ['api.example.com'], keystore: ['teamA'] }, 'service_role');
+  validateTaskPermissions({ net: false }, 'unverified');
+});
+
+Deno.test('validateTaskPermissions - env grants name allow-listed variables only', () => {
+  Deno.env.set('TASK_ENV_ALLOWLIST', 'API_BASE_URL, REGION');
+
+  validateTaskPermissions({ env: ['API_BASE_URL', 'REGION'] }, 'service_role');
+  assertThrows(() => validateTaskPermissions({ env: true }, 'service_role'), TaskVersionError, 'must list');
+  assertThrows(() => validateTaskPermissions({ env: ['SUPABASE_SERVICE_ROLE_KEY'] }, 'service_role'), TaskVersionError, 'SUPABASE_SERVICE_ROLE_KEY');
+
+  Deno.env.delete('TASK_ENV_ALLOWLIST');
+});
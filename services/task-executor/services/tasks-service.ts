@@ -2,12 +2,44 @@ import { formatLogMessage } from "../utils/response-formatter.ts";
 import { TaskRegistry } from "../registry/task-registry.ts";
 import { fetchTaskFromDatabase } from "./database.ts";
 import { GeneratedSchema } from "../types/index.ts";
+import { nowISO } from 'tasker-utils/timestamps';
+import { createStorageClient } from "../../_shared/storage-service.ts";
+import type { PaginationInfo } from "../../_shared/http-handler.ts";
+import { pinnedResultSchemaFor, taskSchemaFor, validateTaskInput } from "./task-schema.ts";
+import { formatViolations, type SchemaViolation } from "../../_shared/schema-validator.ts";
+import { findIdempotentRun, IdempotencyKeyError, type IdempotentRun } from "./idempotency.ts";
+import { listTaskVersions, publishTaskVersion, resolveCurrentVersion, rollbackTaskVersion, TaskVersionError, type TaskFunctionSettings } from "./task-versions.ts";
+
+/**
+ * Outcome of tasksService.execute. A submitted database task's result is its task run (taskRunId,
+ * version, status), whether first submitted or replayed by idempotency key; a registry task's is
+ * whatever it returned. Input that fails validation carries status 400 and the violations.
+ */
+export interface TaskExecution {
+  success: boolean;
+  result?: any;
+  error?: string;
+  status?: number;
+  violations?: SchemaViolation[];
+  logs?: string[];
+  taskName?: string;
+  description?: string;
+}
 
 const basicTaskRegistry = new TaskRegistry();
 const specialTaskRegistry = new TaskRegistry();
 
+/**
+ * The failed execution for input that does not match the task's schema; nothing has run
+ */
+function invalidInput(taskName: string, violations: SchemaViolation[], logs: string[]): TaskExecution {
+  const error = `Invalid input for task ${taskName}: ${formatViolations(violations)}`;
+  logs.push(formatLogMessage('WARN', `[SDK Service] ${error}`));
+  return { success: false, error, logs, status: 400, violations };
+}
+
 export const tasksService = {
-  execute: async (taskIdentifier: string, input: Record<string, unknown> = {}, options: { debug?: boolean, verbose?: boolean, include_logs?: boolean } = {}) => {
+  execute: async (taskIdentifier: string, input: Record<string, unknown> = {}, options: { debug?: boolean, verbose?: boolean, include_logs?: boolean, idempotency_key?: string, validate_result?: boolean } = {}): Promise<TaskExecution> => {
     const logs: string[] = [formatLogMessage('INFO', `[SDK Service] Executing task: ${taskIdentifier}`)];
     try {
       // Check registry first (same logic as direct execution)
@@ -21,6 +53,14 @@ export const tasksService = {
 
       if (taskFunction) {
         logs.push(formatLogMessage('INFO', `[SDK Service] Found task in ${taskType} registry, executing locally`));
+
+        // Registry tasks registered with their code are held to the schema it documents, like database tasks
+        const taskCode = (taskType === 'basic' ? basicTaskRegistry : specialTaskRegistry).getTaskCode(taskIdentifier);
+        const violations = taskCode ? validateTaskInput(taskSchemaFor(taskCode, taskIdentifier), input) : [];
+        if (violations.length > 0) {
+          return invalidInput(taskIdentifier, violations, logs);
+        }
+
         const result = await taskFunction(input, { supabaseClient: null });
         if (options.include_logs) {
           return { success: true, result, logs };
@@ -44,10 +84,9 @@ export const tasksService = {
       // Use simple direct database approach
       const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
       const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-      const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
-      const supabase = createClient(supabaseUrl, serviceRoleKey);
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
 
-      logs.push(formatLogMessage('INFO', `[SDK Service] Created direct Supabase client`));
+      logs.push(formatLogMessage('INFO', `[SDK Service] Created storage client`));
 
       // First, get the task function data directly
       const { data: taskData, error: taskError } = await supabase
@@ -64,6 +103,45 @@ export const tasksService = {
 
       logs.push(formatLogMessage('INFO', `[SDK Service] Retrieved task data: ${JSON.stringify({ id: taskData.id, name: taskData.name, description: taskData.description })}`));
 
+      // A repeated submission returns the task run the key was first used for, shaped like the first submission's result
+      const replayRun = (existingRun: IdempotentRun) => {
+        logs.push(formatLogMessage('INFO', `[SDK Service] Idempotency key already used for task run ${existingRun.id} (${existingRun.status}), not submitting again`));
+        return {
+          success: true,
+          result: {
+            taskRunId: existingRun.id,
+            version: existingRun.version,
+            status: existingRun.status,
+            idempotentReplay: true,
+            message: 'Task run already submitted with this idempotency key'
+          },
+          logs,
+          taskName: taskData.name,
+          description: taskData.description
+        };
+      };
+
+      if (options.idempotency_key) {
+        const existingRun = await findIdempotentRun(supabase, options.idempotency_key, taskData.name || taskIdentifier);
+        if (existingRun) {
+          return replayRun(existingRun);
+        }
+      }
+
+      // Pin the run to the current version so a resume after a redeploy runs the same code
+      const taskVersion = await resolveCurrentVersion(supabase, taskData);
+      logs.push(formatLogMessage('INFO', `[SDK Service] Using version ${taskVersion.version} (${taskVersion.content_hash.slice(0, 12)})`));
+
+      // Input is checked against the schema the pinned version documents, before anything runs
+      const taskSchema = taskSchemaFor(taskVersion.code, taskData.name || taskIdentifier);
+      const violations = validateTaskInput(taskSchema, input);
+      if (violations.length > 0) {
+        return invalidInput(taskData.name || taskIdentifier, violations, logs);
+      }
+
+      // Checked by the stack processor when the run completes
+      const taskResultSchema = options.validate_result ? pinnedResultSchemaFor(taskSchema) : null;
+
       // Create task run directly
       const taskNameForRun = taskData.name || taskIdentifier;
       logs.push(formatLogMessage('INFO', `[SDK Service] Using task name: ${taskNameForRun}`));
@@ -72,13 +150,23 @@ export const tasksService = {
         .from('task_runs')
         .insert({
           task_function_id: taskData.id,
+          task_function_version_id: taskVersion.id,
           task_name: taskNameForRun,
           input: input,
-          status: 'pending'
+          status: 'pending',
+          idempotency_key: options.idempotency_key ?? null
         })
         .select()
         .single();
 
+      // Lost a race with a concurrent submission of the same key
+      if (createError?.code === '23505' && options.idempotency_key) {
+        const existingRun = await findIdempotentRun(supabase, options.idempotency_key, taskData.name || taskIdentifier);
+        if (existingRun) {
+          return replayRun(existingRun);
+        }
+      }
+
       if (createError || !taskRunData) {
         const error = `Failed to create task run: ${createError?.message || 'Unknown error'}`;
         logs.push(formatLogMessage('ERROR', `[SDK Service] ${error}`));
@@ -95,8 +183,12 @@ export const tasksService = {
           service_name: 'deno-executor',
           method_name: 'execute',
           args: {
-            taskCode: taskData.code,
+            taskCode: taskVersion.code,
             taskName: taskData.name,
+            taskFunctionVersionId: taskVersion.id,
+            taskPermissions: taskData.permissions ?? null,
+            taskLimits: taskData.limits ?? null,
+            taskResultSchema,
             taskInput: input,
             taskRunId: String(taskRun.id),
             stackRunId: '0'
@@ -118,8 +210,12 @@ export const tasksService = {
         .from('stack_runs')
         .update({
           args: {
-            taskCode: taskData.code,
+            taskCode: taskVersion.code,
             taskName: taskData.name,
+            taskFunctionVersionId: taskVersion.id,
+            taskPermissions: taskData.permissions ?? null,
+            taskLimits: taskData.limits ?? null,
+            taskResultSchema,
             taskInput: input,
             taskRunId: String(taskRun.id),
             stackRunId: String(actualStackRunId)
@@ -142,7 +238,9 @@ export const tasksService = {
         success: true,
         result: {
           taskRunId: taskRun.id,
+          version: taskVersion.version,
           status: 'submitted',
+          idempotentReplay: false,
           message: 'Task submitted for background processing'
         },
         logs,
@@ -153,11 +251,458 @@ export const tasksService = {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logs.push(formatLogMessage('ERROR', `[SDK Service] Task execution failed: ${errorMessage}`));
+      const status = error instanceof IdempotencyKeyError ? error.status : undefined;
 
       if (options.include_logs) {
-        return { success: false, error: errorMessage, logs };
+        return { success: false, error: errorMessage, logs, status };
+      }
+      return { success: false, error: errorMessage, status };
+    }
+  },
+
+  signal: async (taskRunId: number, signalName: string, payload: unknown = null) => {
+    const logs: string[] = [formatLogMessage('INFO', `[SDK Service] Delivering signal '${signalName}' to task run ${taskRunId}`)];
+    try {
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
+
+      const { data: waitingRuns, error: waitingError } = await supabase
+        .from('stack_runs')
+        .select('id, waiting_signals')
+        .eq('parent_task_run_id', taskRunId)
+        .eq('status', 'waiting_signal')
+        .order('created_at', { ascending: true });
+
+      if (waitingError) {
+        const error = `Failed to look up waiting stack runs: ${waitingError.message}`;
+        logs.push(formatLogMessage('ERROR', `[SDK Service] ${error}`));
+        return { success: false, error, logs, status: 500 };
+      }
+
+      const waitingRun = (waitingRuns || []).find((run: any) => (run.waiting_signals || []).includes(signalName));
+
+      if (!waitingRun) {
+        const error = `Task run ${taskRunId} is not waiting for signal '${signalName}'`;
+        logs.push(formatLogMessage('WARN', `[SDK Service] ${error}`));
+        return { success: false, error, logs, status: 409 };
+      }
+
+      const { deliverSignalToStackProcessor } = await import('./stack-processor.ts');
+      const { delivered, error } = await deliverSignalToStackProcessor(
+        waitingRun.id,
+        { name: signalName, payload },
+        serviceRoleKey
+      );
+
+      if (!delivered) {
+        const message = error || `Stack run ${waitingRun.id} stopped waiting for signal '${signalName}'`;
+        logs.push(formatLogMessage('WARN', `[SDK Service] ${message}`));
+        return { success: false, error: message, logs, status: 409 };
+      }
+
+      logs.push(formatLogMessage('INFO', `[SDK Service] Signal '${signalName}' delivered to stack run ${waitingRun.id}`));
+      return {
+        success: true,
+        result: { taskRunId, stackRunId: waitingRun.id, signal: signalName, delivered: true },
+        logs
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logs.push(formatLogMessage('ERROR', `[SDK Service] Signal delivery failed: ${errorMessage}`));
+      return { success: false, error: errorMessage, logs, status: 500 };
+    }
+  },
+
+  cancel: async (taskRunId: number, reason?: string) => {
+    const logs: string[] = [formatLogMessage('INFO', `[SDK Service] Cancelling task run ${taskRunId}`)];
+    try {
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
+
+      const cancelError = reason ? `Cancelled: ${reason}` : 'Cancelled';
+
+      // Only unfinished task runs can be cancelled
+      const { data: cancelledRuns, error: taskRunError } = await supabase
+        .from('task_runs')
+        .update({ status: 'cancelled', error: cancelError, ended_at: nowISO() })
+        .eq('id', taskRunId)
+        .not('status', 'in', '(completed,failed,cancelled)')
+        .select('id');
+
+      if (taskRunError) {
+        const error = `Failed to cancel task run: ${taskRunError.message}`;
+        logs.push(formatLogMessage('ERROR', `[SDK Service] ${error}`));
+        return { success: false, error, logs, status: 500 };
       }
-      return { success: false, error: errorMessage };
+
+      if (!cancelledRuns || cancelledRuns.length === 0) {
+        const { data: taskRun } = await supabase
+          .from('task_runs')
+          .select('status')
+          .eq('id', taskRunId)
+          .maybeSingle();
+
+        const error = taskRun
+          ? `Task run ${taskRunId} is already ${taskRun.status}`
+          : `Task run not found: ${taskRunId}`;
+        logs.push(formatLogMessage('WARN', `[SDK Service] ${error}`));
+        return { success: false, error, logs, status: taskRun ? 409 : 404 };
+      }
+
+      // Stack runs still in flight are aborted by the stack processor once their call returns
+      const { data: cancelledStackRuns, error: stackRunError } = await supabase
+        .from('stack_runs')
+        .update({ status: 'cancelled', error: cancelError, ended_at: nowISO() })
+        .eq('parent_task_run_id', taskRunId)
+        .in('status', ['pending', 'pending_resume', 'suspended_waiting_child', 'waiting_timer', 'waiting_signal'])
+        .select('id');
+
+      if (stackRunError) {
+        logs.push(formatLogMessage('WARN', `[SDK Service] Failed to cancel stack runs: ${stackRunError.message}`));
+      }
+
+      // Suspended task chains keep their lock - release it so the queue moves on
+      await supabase.from('task_locks').delete().eq('task_run_id', taskRunId);
+
+      const cancelledCount = cancelledStackRuns?.length || 0;
+      logs.push(formatLogMessage('INFO', `[SDK Service] Task run ${taskRunId} cancelled with ${cancelledCount} stack run(s)`));
+      return {
+        success: true,
+        result: { taskRunId, status: 'cancelled', cancelledStackRuns: cancelledCount },
+        logs
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logs.push(formatLogMessage('ERROR', `[SDK Service] Cancellation failed: ${errorMessage}`));
+      return { success: false, error: errorMessage, logs, status: 500 };
+    }
+  },
+
+  publish: async (taskName: string, code: string, options: { version?: string; description?: string } & TaskFunctionSettings = {}, principal?: string) => {
+    const logs: string[] = [formatLogMessage('INFO', `[SDK Service] Publishing task function ${taskName}`)];
+    try {
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
+
+      const { version, created } = await publishTaskVersion(supabase, taskName, code, { ...options, principal });
+
+      logs.push(formatLogMessage('INFO', `[SDK Service] ${created ? 'Published' : 'Re-activated'} ${taskName}@${version.version}`));
+      return {
+        success: true,
+        result: {
+          taskName,
+          version: version.version,
+          versionId: version.id,
+          contentHash: version.content_hash,
+          created
+        },
+        logs,
+        status: created ? 201 : 200
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logs.push(formatLogMessage('ERROR', `[SDK Service] Publish failed: ${errorMessage}`));
+      return { success: false, error: errorMessage, logs, status: error instanceof TaskVersionError ? error.status : 500 };
+    }
+  },
+
+  rollback: async (taskName: string, version: string) => {
+    const logs: string[] = [formatLogMessage('INFO', `[SDK Service] Rolling ${taskName} back to ${version}`)];
+    try {
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
+
+      const activated = await rollbackTaskVersion(supabase, taskName, version);
+
+      logs.push(formatLogMessage('INFO', `[SDK Service] ${taskName}@${activated.version} is now current`));
+      return {
+        success: true,
+        result: { taskName, version: activated.version, versionId: activated.id, contentHash: activated.content_hash },
+        logs
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logs.push(formatLogMessage('ERROR', `[SDK Service] Rollback failed: ${errorMessage}`));
+      return { success: false, error: errorMessage, logs, status: error instanceof TaskVersionError ? error.status : 500 };
+    }
+  },
+
+  versions: async (taskName: string) => {
+    const logs: string[] = [formatLogMessage('INFO', `[SDK Service] Listing versions of ${taskName}`)];
+    try {
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
+
+      const versions = await listTaskVersions(supabase, taskName);
+      return { success: true, result: { taskName, versions }, logs };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logs.push(formatLogMessage('ERROR', `[SDK Service] Listing versions failed: ${errorMessage}`));
+      return { success: false, error: errorMessage, logs, status: error instanceof TaskVersionError ? error.status : 500 };
+    }
+  },
+
+  logs: async (taskRunId: number, query: { levels?: string[]; after?: number; limit?: number } = {}) => {
+    try {
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
+
+      const { data: taskRun, error: taskRunError } = await supabase
+        .from('task_runs')
+        .select('id, status')
+        .eq('id', taskRunId)
+        .maybeSingle();
+
+      if (taskRunError) {
+        return { success: false, error: `Failed to look up task run: ${taskRunError.message}`, status: 500 };
+      }
+      if (!taskRun) {
+        return { success: false, error: `Task run not found: ${taskRunId}`, status: 404 };
+      }
+
+      const limit = Math.min(Math.max(query.limit || 100, 1), 1000);
+      let logsQuery = supabase
+        .from('task_logs')
+        .select('id, task_run_id, stack_run_id, level, message, logged_at')
+        .eq('task_run_id', taskRunId)
+        .order('id', { ascending: true })
+        .limit(limit);
+
+      if (query.after !== undefined) {
+        logsQuery = logsQuery.gt('id', query.after);
+      }
+      if (query.levels && query.levels.length > 0) {
+        logsQuery = logsQuery.in('level', query.levels);
+      }
+
+      const { data: logs, error: logsError } = await logsQuery;
+
+      if (logsError) {
+        return { success: false, error: `Failed to read task logs: ${logsError.message}`, status: 500 };
+      }
+
+      const entries = logs || [];
+      return {
+        success: true,
+        result: {
+          taskRunId,
+          taskStatus: taskRun.status,
+          logs: entries,
+          // Cursor for the next page; unchanged when there is nothing new yet
+          nextCursor: entries.length > 0 ? entries[entries.length - 1].id : query.after ?? null,
+          hasMore: entries.length === limit
+        }
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage, status: 500 };
+    }
+  },
+
+  awaitRun: async (taskRunId: number, timeoutMs: number, pollMs = 500) => {
+    try {
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
+      const deadline = Date.now() + timeoutMs;
+
+      while (true) {
+        const { data: taskRun, error: taskRunError } = await supabase
+          .from('task_runs')
+          .select('id, status, result, error, ended_at')
+          .eq('id', taskRunId)
+          .maybeSingle();
+
+        if (taskRunError) {
+          return { success: false, error: `Failed to read task run: ${taskRunError.message}`, status: 500 };
+        }
+        if (!taskRun) {
+          return { success: false, error: `Task run not found: ${taskRunId}`, status: 404 };
+        }
+
+        const finished = ['completed', 'failed', 'cancelled'].includes(taskRun.status);
+        if (finished || Date.now() + pollMs > deadline) {
+          return {
+            success: true,
+            result: {
+              taskRunId,
+              status: taskRun.status as string,
+              result: taskRun.result,
+              error: taskRun.error as string | null,
+              endedAt: taskRun.ended_at,
+              finished
+            }
+          };
+        }
+
+        await new Promise(resolve => setTimeout(resolve, pollMs));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage, status: 500 };
+    }
+  },
+
+  runs: async (filter: { statuses?: string[]; taskName?: string; createdAfter?: string; createdBefore?: string; cursor?: number; limit?: number } = {}) => {
+    try {
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
+
+      // Newest first; ids increase with creation, so the cursor is the last id returned
+      const limit = Math.min(Math.max(filter.limit || 20, 1), 100);
+      let runsQuery = supabase
+        .from('task_runs')
+        .select('id, task_name, status, error, created_at, updated_at, ended_at')
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+
+      if (filter.statuses && filter.statuses.length > 0) {
+        runsQuery = runsQuery.in('status', filter.statuses);
+      }
+      if (filter.taskName) {
+        runsQuery = runsQuery.eq('task_name', filter.taskName);
+      }
+      if (filter.createdAfter) {
+        runsQuery = runsQuery.gte('created_at', filter.createdAfter);
+      }
+      if (filter.createdBefore) {
+        runsQuery = runsQuery.lt('created_at', filter.createdBefore);
+      }
+      if (filter.cursor !== undefined) {
+        runsQuery = runsQuery.lt('id', filter.cursor);
+      }
+
+      const { data, error: runsError } = await runsQuery;
+
+      if (runsError) {
+        return { success: false, error: `Failed to read task runs: ${runsError.message}`, status: 500 };
+      }
+
+      // One extra row is read to tell whether another page follows
+      const rows = data || [];
+      const runs = rows.slice(0, limit);
+      const hasMore = rows.length > limit;
+      const pagination: PaginationInfo = {
+        limit,
+        cursor: filter.cursor ?? null,
+        nextCursor: hasMore ? runs[runs.length - 1].id : null,
+        hasMore
+      };
+
+      return { success: true, result: { runs, pagination } };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage, status: 500 };
+    }
+  },
+
+  run: async (taskRunId: number) => {
+    try {
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
+
+      const { data: taskRun, error: taskRunError } = await supabase
+        .from('task_runs')
+        .select('*')
+        .eq('id', taskRunId)
+        .maybeSingle();
+
+      if (taskRunError) {
+        return { success: false, error: `Failed to read task run: ${taskRunError.message}`, status: 500 };
+      }
+      if (!taskRun) {
+        return { success: false, error: `Task run not found: ${taskRunId}`, status: 404 };
+      }
+
+      const { data: stackRuns, error: stackRunError } = await supabase
+        .from('stack_runs')
+        .select('*')
+        .eq('parent_task_run_id', taskRunId)
+        .order('id', { ascending: true });
+
+      if (stackRunError) {
+        return { success: false, error: `Failed to read stack runs: ${stackRunError.message}`, status: 500 };
+      }
+
+      // Nest each stack run under the one that spawned it
+      const nodes = new Map<number, any>();
+      for (const stackRun of stackRuns || []) {
+        nodes.set(stackRun.id, { ...stackRun, children: [] });
+      }
+
+      const stackRunTree: any[] = [];
+      for (const node of nodes.values()) {
+        const parent = node.parent_stack_run_id != null ? nodes.get(node.parent_stack_run_id) : undefined;
+        if (parent) {
+          parent.children.push(node);
+        } else {
+          stackRunTree.push(node);
+        }
+      }
+
+      return {
+        success: true,
+        result: {
+          run: taskRun,
+          stackRuns: stackRunTree,
+          stackRunCount: nodes.size
+        }
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage, status: 500 };
+    }
+  },
+
+  schemas: async () => {
+    try {
+      const schemas: GeneratedSchema[] = [];
+      const seen = new Set<string>();
+
+      // Registry tasks first, as execute prefers them over database tasks of the same name
+      for (const registry of [basicTaskRegistry, specialTaskRegistry]) {
+        for (const taskName of registry.getTaskHandlers().keys()) {
+          const code = registry.getTaskCode(taskName);
+          if (code && !seen.has(taskName)) {
+            seen.add(taskName);
+            schemas.push({ ...taskSchemaFor(code, taskName), name: taskName });
+          }
+        }
+      }
+
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      const supabase = createStorageClient({ url: supabaseUrl, key: serviceRoleKey });
+
+      const { data: taskFunctions, error: taskFunctionsError } = await supabase
+        .from('task_functions')
+        .select('name, code, description')
+        .order('name', { ascending: true });
+
+      if (taskFunctionsError) {
+        return { success: false, error: `Failed to read task functions: ${taskFunctionsError.message}`, status: 500 };
+      }
+
+      for (const taskFunction of taskFunctions || []) {
+        if (!taskFunction.code || seen.has(taskFunction.name)) continue;
+        seen.add(taskFunction.name);
+
+        const schema = { ...taskSchemaFor(taskFunction.code, taskFunction.name), name: taskFunction.name };
+        schemas.push({ ...schema, description: schema.description || taskFunction.description || '' });
+      }
+
+      return { success: true, result: schemas };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage, status: 500 };
     }
   },
 
@@ -0,0 +1,62 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.env.set('STORAGE_BACKEND', 'memory');
+Deno.env.set('LOG_LEVEL', 'error');
+
+const { createStorageClient } = await import("../../_shared/storage-service.ts");
+const { tasksService } = await import("./tasks-service.ts");
+
+// Seven runs of two tasks, created a minute apart
+const storage = createStorageClient();
+const start = Date.UTC(2026, 0, 1);
+for (let i = 0; i < 7; i++) {
+  await storage.from('task_runs').insert({
+    task_name: i % 2 === 0 ? 'send-mail' : 'resize-image',
+    status: i < 5 ? 'completed' : 'failed',
+    created_at: new Date(start + i * 60000).toISOString()
+  });
+}
+const { data: seeded } = await storage.from('task_runs').select('id').order('id', { ascending: false });
+const ids: number[] = seeded.map((run: { id: number }) => run.id);
+
+async function page(filter: Parameters<typeof tasksService.runs>[0]) {
+  const { success, result } = await tasksService.runs(filter);
+  assertEquals(success, true);
+  return { ids: result!.runs.map((run: { id: number }) => run.id), pagination: result!.pagination };
+}
+
+Deno.test('runs - pages newest first and hands back the cursor for the next page', async () => {
+  const first = await page({ limit: 3 });
+  assertEquals(first.ids, ids.slice(0, 3));
+  assertEquals(first.pagination, { limit: 3, cursor: null, nextCursor: ids[2], hasMore: true });
+
+  const second = await page({ limit: 3, cursor: first.pagination.nextCursor as number });
+  assertEquals(second.ids, ids.slice(3, 6));
+
+  const last = await page({ limit: 3, cursor: second.pagination.nextCursor as number });
+  assertEquals(last.ids, ids.slice(6));
+  assertEquals(last.pagination.hasMore, false);
+  assertEquals(last.pagination.nextCursor, null);
+});
+
+Deno.test('runs - a page that ends exactly on the last run has no next page', async () => {
+  const all = await page({ limit: 7 });
+
+  assertEquals(all.ids, ids);
+  assertEquals(all.pagination.hasMore, false);
+});
+
+Deno.test('runs - filters by status, task name and creation time', async () => {
+  assertEquals((await page({ statuses: ['failed'] })).ids, ids.slice(0, 2));
+  assertEquals((await page({ taskName: 'resize-image' })).ids.length, 3);
+  assertEquals((await page({
+    createdAfter: new Date(start + 2 * 60000).toISOString(),
+    createdBefore: new Date(start + 4 * 60000).toISOString()
+  })).ids, ids.slice(3, 5));
+});
+
+Deno.test('runs - the page size is kept between 1 and 100', async () => {
+  assertEquals((await page({ limit: 0 })).pagination.limit, 20);
+  assertEquals((await page({ limit: -5 })).pagination.limit, 1);
+  assertEquals((await page({ limit: 500 })).pagination.limit, 100);
+});
@@ -2,6 +2,7 @@
  * Core type definitions for the Tasks edge function
  */
 
+import type { ValidationSchema } from "../../_shared/schema-validator.ts";
 
 /**
  * Task information from database
@@ -26,13 +27,14 @@ export interface TaskResult {
 }
 
 /**
- * Schema property definition
+ * Schema property definition; task input and results are validated against it
  */
-export interface SchemaProperty {
-  type: string;
+export interface SchemaProperty extends ValidationSchema {
+  type?: string;         // absent when any value is accepted
   description?: string;
   format?: string;
   items?: SchemaProperty;
+  $ref?: string;         // a @typedef, e.g. '#/components/schemas/User'
   properties?: Record<string, SchemaProperty>;
   required?: string[];
   enum?: any[];
@@ -47,6 +49,7 @@ export interface ParsedInfo {
   params: any[];
   returns: any[];
   throws?: any[];
+  typedefs?: Array<{ name: string; type: string; description: string; properties: any[] }>;
 }
 
 /**
@@ -58,6 +61,7 @@ export interface GeneratedSchema {
   parameters: SchemaProperty;
   returns: SchemaProperty;
   errors?: Array<{ type: string; description: string }>;
+  definitions?: Record<string, SchemaProperty>;   // @typedef schemas, by name
 }
 
 /**
@@ -70,7 +74,9 @@ export interface OpenAPISchema {
     description: string;
     version: string;
   };
+  servers?: Array<{ url: string }>;
   paths: Record<string, any>;
+  components?: Record<string, any>;
 }
 
 /**
@@ -91,4 +97,17 @@ export type FormattedSchema = GeneratedSchema | OpenAPISchema | OpenAISchema;
 export interface ModuleCode {
   tools: string;
   tasks: string;
-} 
\ No newline at end of file
+} 
+/**
+ * Immutable published version of a task function
+ */
+export interface TaskFunctionVersion {
+  id: number;
+  task_function_id: number;
+  task_name: string;
+  version: string;
+  content_hash: string;
+  code: string;
+  description?: string;
+  created_at: string;
+}
@@ -1,15 +1,53 @@
 import { ParsedInfo } from '../types/index.ts';
 
 /**
- * Parse JSDoc comments from task code
+ * Parse a @param or @property tag's name and type into a property path
  */
-export function parseJSDocComments(code: string, name: string): ParsedInfo {
-  const description = code.match(/\/\*\*\s*([\s\S]*?)\s*\*\//)?.[1]
-    ?.split('\n')
+function parseNamedTag(type: string, rawName: string, description: string) {
+  // Optional parameters are written [name], [name=default] or {type=}
+  const isOptional = type.endsWith('=') || rawName.startsWith('[');
+  
+  // Clean the parameter name by removing brackets and any default value; items[].name is items.0.name
+  const cleanName = (rawName.startsWith('[') ? rawName.slice(1, -1) : rawName).replace(/=.*$/, '').replace(/\[\]/g, '.0');
+  
+  // Parse the parameter path - handle array indices like messages.0.role
+  // Also handle input prefix properly
+  const parts = cleanName.split('.').map(part => {
+    // Check if the part is a numeric index and preserve it
+    return !isNaN(Number(part)) ? parseInt(part, 10) : part;
+  });
+  
+  return {
+    name: cleanName,
+    type: type.replace(/=$/, ''), // Clean up type; string[] stays an array
+    description,
+    optional: isOptional,
+    parts: parts,
+    isArrayIndex: parts.some(p => typeof p === 'number')
+  };
+}
+
+/**
+ * The free text of a JSDoc comment block, without its tags
+ */
+function blockDescription(block: string): string {
+  return block
+    .replace(/^\/\*\*\s*|\s*\*\/$/g, '')
+    .split('\n')
     .map(line => line.trim().replace(/^\* ?/, ''))
     .filter(line => line && !line.startsWith('@'))
     .join(' ')
-    .trim() || '';
+    .trim();
+}
+
+/**
+ * Parse JSDoc comments from task code
+ */
+export function parseJSDocComments(code: string, name: string): ParsedInfo {
+  const blocks = code.match(/\/\*\*[\s\S]*?\*\//g) || [];
+
+  // The task description comes from the first comment that is not a @typedef
+  const description = blockDescription(blocks.find(block => !block.includes('@typedef')) || '');
   
   // Parse @param tags - handle complex nested parameters
   const paramRegex = /@param\s+\{([^}]+)\}\s+([^\s-]+)\s*-\s*([^\n]+)/g;
@@ -17,35 +55,32 @@ export function parseJSDocComments(code: string, name: string): ParsedInfo {
   let match;
   
   while ((match = paramRegex.exec(code)) !== null) {
-    const type = match[1];
-    const paramName = match[2].trim();
-    const description = match[3].trim();
-    
-    // Determine if parameter is optional from the type or name
-    const isOptional = type.includes('[') || paramName.includes('[');
-    
-    // Clean the parameter name by removing brackets
-    const cleanParamName = paramName.replace(/[[\]]/g, '');
-    
-    // Parse the parameter path - handle array indices like messages.0.role
-    // Also handle input prefix properly
-    const parts = cleanParamName.split('.').map(part => {
-      // Check if the part is a numeric index and preserve it
-      return !isNaN(Number(part)) ? parseInt(part, 10) : part;
-    });
-    
-    params.push({
-      name: cleanParamName,
-      type: type.replace(/[[\]]/g, ''), // Clean up type
-      description,
-      optional: isOptional,
-      parts: parts,
-      isArrayIndex: parts.some(p => typeof p === 'number')
+    params.push(parseNamedTag(match[1], match[2].trim(), match[3].trim()));
+  }
+
+  // @typedef blocks name object types shared between parameters and return values
+  const typedefs = [];
+  for (const block of blocks) {
+    const typedefMatch = block.match(/@typedef\s+\{([^}]+)\}\s+(\w+)/);
+    if (!typedefMatch) continue;
+
+    const propertyRegex = /@prop(?:erty)?\s+\{([^}]+)\}\s+([^\s-]+)\s*(?:-\s*([^\n]*))?/g;
+    const properties = [];
+    while ((match = propertyRegex.exec(block)) !== null) {
+      properties.push(parseNamedTag(match[1], match[2].trim(), (match[3] || '').trim()));
+    }
+
+    typedefs.push({
+      name: typedefMatch[2],
+      type: typedefMatch[1],
+      description: blockDescription(block),
+      properties
     });
   }
   
   // Parse @returns tags - handle multiple return specifications
-  const returnsRegex = /@returns\s+\{([^}]+)\}\s+(?:([^\s.-]+(?:\.[^\s.-]+)*)\s*-?\s*)?([^\n]+)/g;
+  // A property is named before a dash (`@returns {boolean} sent - Whether it was sent`); otherwise it is the description
+  const returnsRegex = /@returns\s+\{([^}]+)\}\s+(?:([^\s-]+)\s+-\s*)?([^\n]+)/g;
   const returns = [];
   
   while ((match = returnsRegex.exec(code)) !== null) {
@@ -54,8 +89,8 @@ export function parseJSDocComments(code: string, name: string): ParsedInfo {
     const description = match[3].trim();
     
     // Handle optional brackets in property paths for returns
-    const isOptional = type.includes('[') || propPath.includes('[');
-    const cleanPropPath = propPath.replace(/[[\]]/g, '');
+    const isOptional = type.endsWith('=') || propPath.startsWith('[');
+    const cleanPropPath = propPath.startsWith('[') ? propPath.slice(1, -1) : propPath;
     
     // If it's a property path like returns.success, parse it
     if (cleanPropPath) {
@@ -64,7 +99,7 @@ export function parseJSDocComments(code: string, name: string): ParsedInfo {
       });
       
       returns.push({
-        type: type.replace(/[[\]]/g, ''),
+        type: type.replace(/=$/, ''),
         propPath: cleanPropPath,
         parts,
         description,
@@ -74,7 +109,7 @@ export function parseJSDocComments(code: string, name: string): ParsedInfo {
     } else {
       // Main return type
       returns.push({
-        type: type.replace(/[[\]]/g, ''),
+        type: type.replace(/=$/, ''),
         description,
         optional: isOptional,
         isProperty: false
@@ -104,6 +139,7 @@ export function parseJSDocComments(code: string, name: string): ParsedInfo {
     description,
     params,
     returns,
-    throws
+    throws,
+    typedefs
   };
 } 
\ No newline at end of file
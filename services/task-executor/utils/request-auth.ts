@@ -0,0 +1,38 @@
+/**
+ * Request Authentication
+ *
+ * Routes that change which code runs and with what permissions, or that steer runs already in
+ * flight, are administrative: they need the service role key as the bearer token.
+ */
+
+import { createErrorResponse } from './response-utils.ts';
+
+// The principal that may publish tasks and grant them permissions
+export const ADMIN_PRINCIPAL = 'service_role';
+
+/**
+ * The principal a request authenticates as: service_role, unverified (a bearer token that is
+ * not the service role key) or unauthenticated
+ */
+export function requestPrincipal(req: Request, serviceRoleKey: string): string {
+    const token = req.headers.get('authorization')?.replace(/^Bearer\b\s*/i, '') || '';
+
+    if (!token) {
+        return 'unauthenticated';
+    }
+    return serviceRoleKey && token === serviceRoleKey ? ADMIN_PRINCIPAL : 'unverified';
+}
+
+/**
+ * A 401 or 403 response unless the request carries the service role key
+ */
+export function requireServiceRole(req: Request, serviceRoleKey: string): Response | null {
+    const principal = requestPrincipal(req, serviceRoleKey);
+
+    if (principal === ADMIN_PRINCIPAL) {
+        return null;
+    }
+    return principal === 'unauthenticated'
+        ? createErrorResponse('This route requires the service role key', [], 401)
+        : createErrorResponse('This route requires the service role key', [], 403);
+}
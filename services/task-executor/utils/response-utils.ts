@@ -14,13 +14,17 @@ export function createResponse(data: any, logs: string[] = [], status = 200): Re
     });
 }
 
-export function createErrorResponse(errorMessage: string, logs: string[] = [], status = 500): Response {
+export function createErrorResponse(errorMessage: string, logs: string[] = [], status = 500, details?: Record<string, any>): Response {
     const response: any = { success: false, error: errorMessage };
 
     if (logs.length > 0) {
         response.logs = logs;
     }
 
+    if (details) {
+        response.details = details;
+    }
+
     return new Response(JSON.stringify(response), {
         status,
         headers: {
@@ -36,7 +40,7 @@ export function createCorsPreflightResponse(): Response {
 
 export const CORS_HEADERS = {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
     'Access-Control-Allow-Methods': 'POST, GET, OPTIONS, PUT, DELETE'
 };
 
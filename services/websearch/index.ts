@@ -66,4 +66,8 @@ class WrappedWebSearchHandler extends BaseHttpHandler {
 
 // Create handler instance and start serving
 const wrappedWebSearchHandler = new WrappedWebSearchHandler();
-serve((req) => wrappedWebSearchHandler.handle(req));
+export const handler = (req: Request) => wrappedWebSearchHandler.handle(req);
+
+if (import.meta.main) {
+  serve(handler);
+}
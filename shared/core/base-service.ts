@@ -52,6 +52,7 @@ export interface IServiceResponse<T = any> {
     code: string;
     message: string;
     details?: Record<string, any>;
+    statusCode?: number;
   };
   metadata?: {
     timestamp: string;
@@ -269,7 +270,8 @@ export abstract class BaseService {
       error: {
         code: serviceError.code,
         message: serviceError.message,
-        details: serviceError.details
+        details: serviceError.details,
+        statusCode: serviceError.statusCode
       },
       metadata: {
         timestamp: nowISO(),
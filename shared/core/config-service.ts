@@ -20,6 +20,14 @@ export interface DatabaseConfig {
   port: number;
 }
 
+// Storage backend configuration interface
+export type StorageBackend = 'supabase' | 'memory';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  file?: string;        // memory backend only - JSON snapshot kept across restarts of one process
+}
+
 // Service configuration interface
 export interface ServiceConfig {
   name: string;
@@ -38,6 +46,13 @@ export interface GoogleApiConfig {
   maxResultsPerUser?: number;
 }
 
+// Keystore encryption configuration - master keys are base64-encoded 256-bit AES keys
+export interface KeystoreConfig {
+  masterKey?: string;
+  masterKeyVersion: number;
+  previousMasterKeys: Record<number, string>;   // older versions, kept until rotateMasterKey has run
+}
+
 // Main configuration class
 export class ConfigService {
   private static instance: ConfigService;
@@ -64,6 +79,7 @@ export class ConfigService {
 
   private initializeServices(): void {
     const supabaseUrl = this.getSupabaseUrl();
+    const functionsUrl = this.functionsUrl;
 
     this._services.set('supabase', {
       name: 'supabase',
@@ -76,7 +92,7 @@ export class ConfigService {
     this._services.set('tasks', {
       name: 'tasks',
       port: 54321,
-      baseUrl: `${supabaseUrl}/functions/v1/tasks`,
+      baseUrl: `${functionsUrl}/tasks`,
       environment: this._environment,
       debug: this.isDebug
     });
@@ -84,7 +100,7 @@ export class ConfigService {
     this._services.set('stack-processor', {
       name: 'stack-processor',
       port: 54321,
-      baseUrl: `${supabaseUrl}/functions/v1/simple-stack-processor`,
+      baseUrl: `${functionsUrl}/simple-stack-processor`,
       environment: this._environment,
       debug: this.isDebug
     });
@@ -92,7 +108,7 @@ export class ConfigService {
     this._services.set('wrappedkeystore', {
       name: 'wrappedkeystore',
       port: 54321,
-      baseUrl: `${supabaseUrl}/functions/v1/wrappedkeystore`,
+      baseUrl: `${functionsUrl}/wrappedkeystore`,
       environment: this._environment,
       debug: this.isDebug
     });
@@ -100,7 +116,7 @@ export class ConfigService {
     this._services.set('wrappedgapi', {
       name: 'wrappedgapi',
       port: 54321,
-      baseUrl: `${supabaseUrl}/functions/v1/wrappedgapi`,
+      baseUrl: `${functionsUrl}/wrappedgapi`,
       environment: this._environment,
       debug: this.isDebug
     });
@@ -108,7 +124,7 @@ export class ConfigService {
     this._services.set('wrappedsupabase', {
       name: 'wrappedsupabase',
       port: 54321,
-      baseUrl: `${supabaseUrl}/functions/v1/wrappedsupabase`,
+      baseUrl: `${functionsUrl}/wrappedsupabase`,
       environment: this._environment,
       debug: this.isDebug
     });
@@ -116,7 +132,7 @@ export class ConfigService {
     this._services.set('wrappedopenai', {
       name: 'wrappedopenai',
       port: 54321,
-      baseUrl: `${supabaseUrl}/functions/v1/wrappedopenai`,
+      baseUrl: `${functionsUrl}/wrappedopenai`,
       environment: this._environment,
       debug: this.isDebug
     });
@@ -124,7 +140,7 @@ export class ConfigService {
     this._services.set('wrappedwebsearch', {
       name: 'wrappedwebsearch',
       port: 54321,
-      baseUrl: `${supabaseUrl}/functions/v1/wrappedwebsearch`,
+      baseUrl: `${functionsUrl}/wrappedwebsearch`,
       environment: this._environment,
       debug: this.isDebug
     });
@@ -132,7 +148,7 @@ export class ConfigService {
     this._services.set('deno-executor', {
       name: 'deno-executor',
       port: 54321,
-      baseUrl: `${supabaseUrl}/functions/v1/deno-executor`,
+      baseUrl: `${functionsUrl}/deno-executor`,
       environment: this._environment,
       debug: this.isDebug
     });
@@ -186,6 +202,16 @@ export class ConfigService {
     return extSupabaseUrl || supabaseUrl || 'http://localhost:54321';
   }
 
+  // Base URL of the edge functions, as seen by callers outside the functions runtime
+  public get functionsUrl(): string {
+    return this.getEnvVar('FUNCTIONS_URL', false) || `${this.getSupabaseUrl()}/functions/v1`;
+  }
+
+  // Base URL functions use to call each other through the gateway, avoiding public rate limits
+  public get internalFunctionsUrl(): string {
+    return this.getEnvVar('INTERNAL_FUNCTIONS_URL', false) || 'http://kong:8000/functions/v1';
+  }
+
   // Public configuration getters
   public get environment(): Environment {
     return this._environment;
@@ -217,6 +243,20 @@ export class ConfigService {
     };
   }
 
+  // Storage configuration
+  public get storage(): StorageConfig {
+    const backend = this.getEnvVar('STORAGE_BACKEND', false, 'supabase').toLowerCase();
+
+    if (backend !== 'supabase' && backend !== 'memory') {
+      throw new Error(`STORAGE_BACKEND must be 'supabase' or 'memory', got: ${backend}`);
+    }
+
+    return {
+      backend: backend as StorageBackend,
+      file: this.getEnvVar('STORAGE_FILE', false) || undefined
+    };
+  }
+
   // Service configuration
   public getService(serviceName: string): ServiceConfig | undefined {
     return this._services.get(serviceName);
@@ -237,6 +277,26 @@ export class ConfigService {
     };
   }
 
+  // Keystore configuration
+  public get keystore(): KeystoreConfig {
+    const previous = this.getEnvVar('KEYSTORE_PREVIOUS_MASTER_KEYS', false);
+    let previousMasterKeys: Record<number, string> = {};
+
+    if (previous) {
+      try {
+        previousMasterKeys = JSON.parse(previous);
+      } catch {
+        throw new Error('KEYSTORE_PREVIOUS_MASTER_KEYS must be a JSON object of version to key');
+      }
+    }
+
+    return {
+      masterKey: this.getEnvVar('KEYSTORE_MASTER_KEY', false) || undefined,
+      masterKeyVersion: this.getEnvNumber('KEYSTORE_MASTER_KEY_VERSION', false, 1),
+      previousMasterKeys
+    };
+  }
+
   // Logging configuration
   public get logging(): {
     level: 'debug' | 'info' | 'warn' | 'error';
@@ -282,8 +342,18 @@ export class ConfigService {
   public validate(): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
+    let storageBackend: StorageBackend = 'supabase';
+    try {
+      storageBackend = this.storage.backend;
+    } catch (error: any) {
+      errors.push(`Storage configuration: ${error?.message || 'Unknown error'}`);
+    }
+
     try {
-      this.database;
+      // The memory backend needs no Supabase credentials
+      if (storageBackend === 'supabase') {
+        this.database;
+      }
     } catch (error: any) {
       errors.push(`Database configuration: ${error?.message || 'Unknown error'}`);
     }
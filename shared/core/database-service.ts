@@ -6,9 +6,10 @@
  * retry logic, transaction support, and performance monitoring.
  */
 
-import { createClient, SupabaseClient, PostgrestSingleResponse, PostgrestResponse } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SupabaseClient, PostgrestSingleResponse, PostgrestResponse } from 'https://esm.sh/@supabase/supabase-js@2';
 import { ConfigService, DatabaseConfig } from './config-service.ts';
 import { logger, perf, context } from './logging-service.ts';
+import { createStorageClient } from './storage-service.ts';
 
 // Database connection pool interface
 interface ConnectionPool {
@@ -122,9 +123,13 @@ export class DatabaseService {
   }
 
   /**
-   * Create a Supabase client with proper configuration
+   * Create a client for the configured storage backend (Supabase unless STORAGE_BACKEND says otherwise)
    */
   public createClient(serviceRole = true): SupabaseClient {
+    if (this.config.storage.backend !== 'supabase') {
+      return createStorageClient();
+    }
+
     const dbConfig = this.databaseConfig;
     const key = serviceRole ? dbConfig.serviceRoleKey : dbConfig.anonKey;
 
@@ -132,12 +137,7 @@ export class DatabaseService {
       throw new Error('Missing database configuration (URL or authentication key)');
     }
 
-    return createClient(dbConfig.url, key, {
-      auth: { persistSession: false },
-      db: {
-        schema: 'public'
-      }
-    });
+    return createStorageClient({ url: dbConfig.url, key });
   }
 
   /**
@@ -20,6 +20,10 @@ export interface PaginationInfo {
   limit?: number;
   total?: number;
   offset?: number;
+  // Cursor pagination: pass nextCursor back as the cursor for the following page
+  cursor?: string | number | null;
+  nextCursor?: string | number | null;
+  hasMore?: boolean;
 }
 
 // Standardized CORS headers
@@ -194,7 +198,10 @@ export abstract class BaseHttpHandler {
       page: Math.max(1, parseInt(params.page || '1')),
       limit: Math.min(100, Math.max(1, parseInt(params.limit || '10'))),
       total: 0, // To be filled by the calling code
-      offset: Math.max(0, (parseInt(params.page || '1') - 1) * Math.min(100, Math.max(1, parseInt(params.limit || '10'))))
+      offset: Math.max(0, (parseInt(params.page || '1') - 1) * Math.min(100, Math.max(1, parseInt(params.limit || '10')))),
+      cursor: params.cursor || null,
+      nextCursor: null, // To be filled by the calling code
+      hasMore: false    // To be filled by the calling code
     };
   }
 }
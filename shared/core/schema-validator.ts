@@ -0,0 +1,105 @@
+/**
+ * Schema Validation
+ *
+ * Checks values against the JSON-schema subset produced from task JSDoc: type, format,
+ * properties, required, items and enum. A schema without a type accepts any value, and
+ * properties a schema does not mention are allowed.
+ */
+
+export interface ValidationSchema {
+  type?: string;
+  format?: string;
+  properties?: Record<string, ValidationSchema>;
+  required?: string[];
+  items?: ValidationSchema;
+  enum?: unknown[];
+  [key: string]: unknown;
+}
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function joinPath(path: string, segment: string | number): string {
+  if (typeof segment === 'number') return `${path}[${segment}]`;
+  return path ? `${path}.${segment}` : segment;
+}
+
+/**
+ * Every way the value fails the schema, each with the path it was found at ('' for the value itself)
+ */
+export function validateSchema(value: unknown, schema: ValidationSchema, path = ''): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    violations.push({ path, message: `expected ${schema.type}, got ${describeType(value)}` });
+    return violations;
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    violations.push({ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (schema.format === 'date-time' && typeof value === 'string' && isNaN(new Date(value).getTime())) {
+    violations.push({ path, message: 'expected an ISO 8601 date-time' });
+  }
+
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+
+    for (const name of schema.required || []) {
+      if (record[name] === undefined) {
+        violations.push({ path: joinPath(path, name), message: 'is required' });
+      }
+    }
+
+    for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[name] !== undefined) {
+        violations.push(...validateSchema(record[name], propertySchema, joinPath(path, name)));
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      violations.push(...validateSchema(item, schema.items!, joinPath(path, index)));
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * One line per violation, e.g. "user.email: expected string, got number"
+ */
+export function formatViolations(violations: SchemaViolation[], root = 'value'): string {
+  return violations.map(violation => `${violation.path || root}: ${violation.message}`).join('; ');
+}
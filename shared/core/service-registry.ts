@@ -89,10 +89,20 @@ export interface ServiceResponse<T = any> {
   };
 }
 
+// Handler for an edge function mounted in this process
+export type LocalFunctionHandler = (req: Request) => Response | Promise<Response>;
+
+// Options for resolving an edge function URL
+export interface FunctionUrlOptions {
+  internal?: boolean; // Route through the internal gateway (function-to-function calls)
+}
+
 // Service registry class
 export class ServiceRegistry {
   private static instance: ServiceRegistry;
   private services: Map<string, ServiceDefinition> = new Map();
+  private localHandlers: Map<string, LocalFunctionHandler> = new Map();
+  private networkFetch?: typeof fetch;
   private healthStatus: Map<string, ServiceHealth> = new Map();
   private lastHealthCheck: Map<string, number> = new Map();
   private serviceCache: Map<string, { data: any; timestamp: number }> = new Map();
@@ -365,8 +375,72 @@ export class ServiceRegistry {
     }
 
     // Fallback to Supabase edge functions for development
-    const supabaseUrl = config.supabase?.url || 'http://127.0.0.1:54321';
-    return `${supabaseUrl}/functions/v1/${serviceName}`;
+    return this.getFunctionUrl(serviceName);
+  }
+
+  /**
+   * Get the URL of an edge function, optionally with a sub-path such as '/resume'
+   */
+  public getFunctionUrl(functionName: string, subPath = '', options: FunctionUrlOptions = {}): string {
+    const baseUrl = options.internal ? config.internalFunctionsUrl : config.functionsUrl;
+    return `${baseUrl}/${functionName}${subPath}`;
+  }
+
+  /**
+   * Mount an edge function handler in this process; calls to it skip the network
+   */
+  public registerLocalHandler(functionName: string, handler: LocalFunctionHandler): void {
+    this.localHandlers.set(functionName, handler);
+    logger.info(`Local function handler registered: ${functionName}`);
+  }
+
+  /**
+   * Get the handler of an edge function mounted in this process
+   */
+  public getLocalHandler(functionName: string): LocalFunctionHandler | undefined {
+    return this.localHandlers.get(functionName);
+  }
+
+  /**
+   * Invoke an edge function, dispatching in process when it is mounted locally
+   */
+  public async invokeFunction(
+    functionName: string,
+    subPath = '',
+    init: RequestInit = {},
+    options: FunctionUrlOptions = {}
+  ): Promise<Response> {
+    const request = new Request(this.getFunctionUrl(functionName, subPath, options), init);
+    const handler = this.localHandlers.get(functionName);
+
+    if (handler) {
+      return await handler(request);
+    }
+
+    return await (this.networkFetch || fetch)(request);
+  }
+
+  /**
+   * Route every fetch() aimed at a locally mounted function to its handler, so callers that
+   * go through the HTTP client rather than invokeFunction stay in process too
+   */
+  public enableLocalDispatch(): void {
+    if (this.networkFetch) {
+      return;
+    }
+
+    const networkFetch = globalThis.fetch.bind(globalThis);
+    this.networkFetch = networkFetch;
+
+    globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      const functionName = new URL(request.url).pathname.match(/\/functions\/v1\/([^/]+)/)?.[1];
+      const handler = functionName ? this.localHandlers.get(functionName) : undefined;
+
+      return handler ? Promise.resolve(handler(request)) : networkFetch(request);
+    }) as typeof fetch;
+
+    logger.info('Local dispatch enabled', { functions: Array.from(this.localHandlers.keys()) });
   }
 
   /**
@@ -628,8 +702,7 @@ export class ServiceRegistry {
 
     // Skip health checks for wrapped services when using integrated Supabase server
     // (all functions served from same endpoint, individual health checks don't work)
-    const supabaseUrl = config.supabase?.url || 'http://127.0.0.1:54321';
-    if (service.baseUrl.startsWith(supabaseUrl) &&
+    if (service.baseUrl.startsWith(config.functionsUrl) &&
         (serviceName.startsWith('wrapped') || ['gapi', 'keystore', 'database', 'openai', 'websearch'].includes(serviceName))) {
       this.healthStatus.set(serviceName, 'healthy');
       this.lastHealthCheck.set(serviceName, Date.now());
@@ -0,0 +1,692 @@
+/**
+ * Pluggable Storage Service
+ *
+ * Every service reaches task_runs, stack_runs, task_functions, keystore and task_locks
+ * through a supabase-js style query builder. STORAGE_BACKEND selects where that builder
+ * goes: 'supabase' (default) or 'memory', an in-process store that can be snapshotted to
+ * STORAGE_FILE so the whole pipeline runs locally without Supabase. The snapshot belongs to one
+ * process; services that need shared storage across processes use the supabase backend.
+ */
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { config, type StorageBackend } from './config-service.ts';
+import { nowISO } from 'tasker-utils/timestamps';
+
+// Row shape shared by every table
+type Row = Record<string, any>;
+
+// Error shape returned by the memory backend, matching PostgREST codes where callers depend on them
+export interface StorageError {
+  message: string;
+  code: string;
+  details?: string;
+  hint?: string;
+}
+
+export interface StorageResponse<T = any> {
+  data: T | null;
+  error: StorageError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+export interface StorageClientOptions {
+  url?: string;
+  key?: string;
+}
+
+// Constraints the memory backend enforces; tables not listed here are schema-less
+interface TableDefinition {
+  uniqueKeys: string[][];
+}
+
+export const STORAGE_TABLES: Record<string, TableDefinition> = {
+  task_functions: { uniqueKeys: [['name']] },
+  task_function_versions: { uniqueKeys: [['task_function_id', 'version'], ['task_function_id', 'content_hash']] },
+  task_runs: { uniqueKeys: [['idempotency_key']] },
+  stack_runs: { uniqueKeys: [] },
+  keystore: { uniqueKeys: [['scope', 'key_name']] },
+  keystore_history: { uniqueKeys: [['scope', 'key_name', 'version']] },
+  keystore_audit: { uniqueKeys: [] },
+  task_locks: { uniqueKeys: [['task_run_id']] }
+};
+
+type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'like' | 'ilike' | 'is' | 'in' | 'contains';
+type RowPredicate = (row: Row) => boolean;
+
+// ==============================
+// Filter Evaluation
+// ==============================
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+/**
+ * Order two column values the way Postgres would for numbers and ISO timestamps
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const numA = asNumber(a);
+  const numB = asNumber(b);
+
+  if (numA !== null && numB !== null) {
+    return numA - numB;
+  }
+
+  const strA = String(a);
+  const strB = String(b);
+  return strA < strB ? -1 : strA > strB ? 1 : 0;
+}
+
+// PostgREST coerces filter values to the column type, so '5' matches 5
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return false;
+  }
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return String(a) === String(b);
+}
+
+// Conflict targets treat two missing values as the same key
+function sameKeyValue(a: unknown, b: unknown): boolean {
+  return (a === null || a === undefined) ? (b === null || b === undefined) : valuesEqual(a, b);
+}
+
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/[%*]/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${escaped}$`, caseInsensitive ? 'is' : 's');
+}
+
+// Parse a PostgREST list literal such as (a,b,"c d")
+function parseList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+
+  const text = String(value).trim().replace(/^\(/, '').replace(/\)$/, '');
+  if (text === '') return [];
+
+  return splitTopLevel(text).map(item => item.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+// Parse a filter value given as text (or/not/filter strings)
+function parseScalar(value: unknown): unknown {
+  if (value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+}
+
+function evaluate(operator: FilterOperator, rowValue: unknown, value: unknown): boolean {
+  switch (operator) {
+    case 'eq':
+      return valuesEqual(rowValue, value);
+    case 'neq':
+      return rowValue !== null && rowValue !== undefined && !valuesEqual(rowValue, value);
+    case 'gt':
+      return rowValue !== null && rowValue !== undefined && compareValues(rowValue, value) > 0;
+    case 'gte':
+      return rowValue !== null && rowValue !== undefined && compareValues(rowValue, value) >= 0;
+    case 'lt':
+      return rowValue !== null && rowValue !== undefined && compareValues(rowValue, value) < 0;
+    case 'lte':
+      return rowValue !== null && rowValue !== undefined && compareValues(rowValue, value) <= 0;
+    case 'like':
+      return typeof rowValue === 'string' && likeToRegExp(String(value), false).test(rowValue);
+    case 'ilike':
+      return typeof rowValue === 'string' && likeToRegExp(String(value), true).test(rowValue);
+    case 'is': {
+      const expected = parseScalar(value);
+      return expected === null ? rowValue === null || rowValue === undefined : rowValue === expected;
+    }
+    case 'in':
+      return parseList(value).some(item => valuesEqual(rowValue, item));
+    case 'contains': {
+      if (!Array.isArray(rowValue)) return false;
+      const expected = parseList(value);
+      return expected.every(item => rowValue.some(element => valuesEqual(element, item)));
+    }
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+// Split on commas that are not nested in parentheses or quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+
+    if (char === ',' && depth === 0 && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current !== '') parts.push(current);
+  return parts;
+}
+
+/**
+ * Compile a PostgREST logic string such as "status.eq.pending,next_attempt_at.is.null" into a predicate
+ */
+function parseLogicTree(text: string, combinator: 'or' | 'and'): RowPredicate {
+  const predicates = splitTopLevel(text).map(part => parseCondition(part.trim()));
+
+  return combinator === 'or'
+    ? (row) => predicates.some(predicate => predicate(row))
+    : (row) => predicates.every(predicate => predicate(row));
+}
+
+function parseCondition(condition: string): RowPredicate {
+  const nested = condition.match(/^(not\.)?(or|and)\((.*)\)$/s);
+  if (nested) {
+    const predicate = parseLogicTree(nested[3], nested[2] as 'or' | 'and');
+    return nested[1] ? (row) => !predicate(row) : predicate;
+  }
+
+  const [column, ...rest] = condition.split('.');
+  let negate = false;
+  let operator = rest.shift();
+
+  if (operator === 'not') {
+    negate = true;
+    operator = rest.shift();
+  }
+
+  if (!column || !operator) {
+    throw new Error(`Invalid filter condition: ${condition}`);
+  }
+
+  const value = parseScalar(rest.join('.'));
+  return negate
+    ? (row) => !evaluate(operator as FilterOperator, row[column], value)
+    : (row) => evaluate(operator as FilterOperator, row[column], value);
+}
+
+// ==============================
+// Memory Store
+// ==============================
+
+interface TableState {
+  rows: Row[];
+  nextId: number;
+}
+
+/**
+ * In-process table store, optionally mirrored to a JSON file. The file is read once, when the
+ * store is created, and rewritten after every mutation, so it carries the data across restarts
+ * of one process. It is not a way to share data between processes: nothing locks it, and each
+ * process would overwrite the others' writes and hand out the same ids.
+ */
+class MemoryStore {
+  private tables = new Map<string, TableState>();
+
+  constructor(private readonly filePath?: string) {
+    this.load();
+  }
+
+  public table(name: string): TableState {
+    let table = this.tables.get(name);
+    if (!table) {
+      table = { rows: [], nextId: 1 };
+      this.tables.set(name, table);
+    }
+    return table;
+  }
+
+  /**
+   * Restore the snapshot a previous run of this process left behind
+   */
+  private load(): void {
+    if (!this.filePath) return;
+
+    let snapshot: Record<string, TableState>;
+    try {
+      snapshot = JSON.parse(Deno.readTextFileSync(this.filePath));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return;
+      throw error;
+    }
+
+    this.tables = new Map(Object.entries(snapshot));
+  }
+
+  public persist(): void {
+    if (!this.filePath) return;
+
+    // Write then rename so a crash mid-write never leaves a half-written snapshot
+    const tempPath = `${this.filePath}.tmp`;
+    Deno.writeTextFileSync(tempPath, JSON.stringify(Object.fromEntries(this.tables)));
+    Deno.renameSync(tempPath, this.filePath);
+  }
+}
+
+// ==============================
+// Memory Query Builder
+// ==============================
+
+/**
+ * Query builder implementing the subset of the supabase-js API the services use.
+ * Awaiting it runs the query and resolves to { data, error, count }.
+ */
+class MemoryQueryBuilder implements PromiseLike<StorageResponse> {
+  private operation: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private columns = '*';
+  private returning = false;
+  private countRequested = false;
+  private headOnly = false;
+  private values: Row[] = [];
+  private conflictColumns?: string[];
+  private ignoreDuplicates = false;
+  private predicates: RowPredicate[] = [];
+  private orderings: Array<{ column: string; ascending: boolean; nullsFirst: boolean }> = [];
+  private offset = 0;
+  private maxRows?: number;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private readonly store: MemoryStore, private readonly tableName: string) {}
+
+  // Query type
+
+  select(columns = '*', options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}): this {
+    if (this.operation === 'select') {
+      this.countRequested = !!options.count;
+      this.headOnly = !!options.head;
+    } else {
+      this.returning = true;
+    }
+    this.columns = columns;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.operation = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.conflictColumns = options.onConflict?.split(',').map(column => column.trim());
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  // Filters
+
+  eq(column: string, value: unknown): this { return this.where(column, 'eq', value); }
+  neq(column: string, value: unknown): this { return this.where(column, 'neq', value); }
+  gt(column: string, value: unknown): this { return this.where(column, 'gt', value); }
+  gte(column: string, value: unknown): this { return this.where(column, 'gte', value); }
+  lt(column: string, value: unknown): this { return this.where(column, 'lt', value); }
+  lte(column: string, value: unknown): this { return this.where(column, 'lte', value); }
+  like(column: string, pattern: string): this { return this.where(column, 'like', pattern); }
+  ilike(column: string, pattern: string): this { return this.where(column, 'ilike', pattern); }
+  is(column: string, value: null | boolean): this { return this.where(column, 'is', value); }
+  in(column: string, values: unknown[]): this { return this.where(column, 'in', values); }
+  contains(column: string, values: unknown[]): this { return this.where(column, 'contains', values); }
+
+  not(column: string, operator: string, value: unknown): this {
+    const predicate = this.predicateFor(column, operator as FilterOperator, value);
+    this.predicates.push((row) => !predicate(row));
+    return this;
+  }
+
+  filter(column: string, operator: string, value: unknown): this {
+    if (operator.startsWith('not.')) {
+      return this.not(column, operator.slice(4), value);
+    }
+    return this.where(column, operator as FilterOperator, value);
+  }
+
+  match(query: Row): this {
+    for (const [column, value] of Object.entries(query)) {
+      this.where(column, 'eq', value);
+    }
+    return this;
+  }
+
+  or(filters: string): this {
+    this.predicates.push(parseLogicTree(filters, 'or'));
+    return this;
+  }
+
+  // Modifiers
+
+  order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}): this {
+    const ascending = options.ascending ?? true;
+    this.orderings.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.offset = from;
+    this.maxRows = to - from + 1;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = StorageResponse, TResult2 = never>(
+    onfulfilled?: ((value: StorageResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  // Execution
+
+  private where(column: string, operator: FilterOperator, value: unknown): this {
+    this.predicates.push(this.predicateFor(column, operator, value));
+    return this;
+  }
+
+  private predicateFor(column: string, operator: FilterOperator, value: unknown): RowPredicate {
+    return (row) => evaluate(operator, row[column], value);
+  }
+
+  private matches(row: Row): boolean {
+    return this.predicates.every(predicate => predicate(row));
+  }
+
+  private execute(): StorageResponse {
+    const table = this.store.table(this.tableName);
+
+    try {
+      switch (this.operation) {
+        case 'select':
+          return this.executeSelect(table);
+        case 'insert':
+          return this.finishMutation(this.insertRows(table, this.values), 201);
+        case 'upsert':
+          return this.finishMutation(this.upsertRows(table), 201);
+        case 'update':
+          return this.finishMutation(this.updateRows(table), 200);
+        case 'delete':
+          return this.finishMutation(this.deleteRows(table), 200);
+      }
+    } catch (error) {
+      if (isStorageError(error)) {
+        return { data: null, error, count: null, status: error.code === '23505' ? 409 : 400, statusText: 'Error' };
+      }
+      throw error;
+    }
+  }
+
+  private executeSelect(table: TableState): StorageResponse {
+    const matched = this.sortRows(table.rows.filter(row => this.matches(row)));
+    const count = this.countRequested ? matched.length : null;
+    const page = matched.slice(this.offset, this.maxRows === undefined ? undefined : this.offset + this.maxRows);
+
+    if (this.headOnly) {
+      return { data: null, error: null, count, status: 200, statusText: 'OK' };
+    }
+
+    return this.shape(page.map(row => this.project(row)), count, 200);
+  }
+
+  private finishMutation(rows: Row[], status: number): StorageResponse {
+    this.store.persist();
+
+    if (!this.returning) {
+      return { data: null, error: null, count: null, status: status === 201 ? 201 : 204, statusText: 'OK' };
+    }
+
+    return this.shape(this.sortRows(rows).map(row => this.project(row)), null, status);
+  }
+
+  private insertRows(table: TableState, values: Row[]): Row[] {
+    const timestamp = nowISO();
+    const inserted = values.map(value => ({
+      created_at: timestamp,
+      updated_at: timestamp,
+      ...structuredClone(value),
+      id: value.id ?? table.nextId++
+    }));
+
+    for (const [index, row] of inserted.entries()) {
+      this.assertUnique(table.rows.concat(inserted.slice(0, index)), row);
+    }
+
+    for (const row of inserted) {
+      if (typeof row.id === 'number' && row.id >= table.nextId) {
+        table.nextId = row.id + 1;
+      }
+    }
+
+    table.rows.push(...inserted);
+    return inserted;
+  }
+
+  private upsertRows(table: TableState): Row[] {
+    const definition = STORAGE_TABLES[this.tableName];
+    const written: Row[] = [];
+
+    for (const value of this.values) {
+      const conflictColumns = this.conflictColumns
+        || (value.id !== undefined ? ['id'] : definition?.uniqueKeys[0]);
+      const existing = conflictColumns
+        ? table.rows.find(row => conflictColumns.every(column => sameKeyValue(row[column], value[column])))
+        : undefined;
+
+      if (!existing) {
+        written.push(...this.insertRows(table, [value]));
+      } else if (!this.ignoreDuplicates) {
+        Object.assign(existing, structuredClone(value));
+        written.push(existing);
+      }
+    }
+
+    return written;
+  }
+
+  private updateRows(table: TableState): Row[] {
+    const updated = table.rows.filter(row => this.matches(row));
+
+    for (const row of updated) {
+      this.assertUnique(table.rows.filter(other => other !== row), { ...row, ...this.values[0] });
+    }
+
+    for (const row of updated) {
+      Object.assign(row, structuredClone(this.values[0]));
+    }
+
+    return updated;
+  }
+
+  private deleteRows(table: TableState): Row[] {
+    const deleted = table.rows.filter(row => this.matches(row));
+    table.rows = table.rows.filter(row => !deleted.includes(row));
+    return deleted;
+  }
+
+  private assertUnique(existingRows: Row[], candidate: Row): void {
+    const uniqueKeys = [['id'], ...(STORAGE_TABLES[this.tableName]?.uniqueKeys || [])];
+
+    for (const columns of uniqueKeys) {
+      // Postgres unique constraints never conflict on NULLs unless every column is set
+      if (columns.some(column => candidate[column] === null || candidate[column] === undefined)) {
+        continue;
+      }
+
+      const duplicate = existingRows.some(row => columns.every(column => valuesEqual(row[column], candidate[column])));
+      if (duplicate) {
+        throw storageError(
+          '23505',
+          `duplicate key value violates unique constraint "${this.tableName}_${columns.join('_')}_key"`,
+          `Key (${columns.join(', ')})=(${columns.map(column => candidate[column]).join(', ')}) already exists.`
+        );
+      }
+    }
+  }
+
+  private sortRows(rows: Row[]): Row[] {
+    if (this.orderings.length === 0) return rows;
+
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending, nullsFirst } of this.orderings) {
+        const aNull = a[column] === null || a[column] === undefined;
+        const bNull = b[column] === null || b[column] === undefined;
+
+        if (aNull || bNull) {
+          if (aNull && bNull) continue;
+          return aNull === nullsFirst ? -1 : 1;
+        }
+
+        const comparison = compareValues(a[column], b[column]);
+        if (comparison !== 0) return ascending ? comparison : -comparison;
+      }
+      return 0;
+    });
+  }
+
+  // Embedded resources such as task_functions(name) have no equivalent here and are skipped
+  private project(row: Row): Row {
+    const columns = this.columns.split(',').map(column => column.trim()).filter(column => column && !column.includes('('));
+
+    if (columns.includes('*')) {
+      return structuredClone(row);
+    }
+
+    const projected: Row = {};
+    for (const column of columns) {
+      const [source, alias] = column.includes(':') ? column.split(':').reverse() : [column, column];
+      projected[alias] = structuredClone(row[source] ?? null);
+    }
+    return projected;
+  }
+
+  private shape(rows: Row[], count: number | null, status: number): StorageResponse {
+    if (this.cardinality === 'many') {
+      return { data: rows, error: null, count, status, statusText: 'OK' };
+    }
+
+    if (rows.length === 1) {
+      return { data: rows[0], error: null, count, status, statusText: 'OK' };
+    }
+
+    if (rows.length === 0 && this.cardinality === 'maybeSingle') {
+      return { data: null, error: null, count, status, statusText: 'OK' };
+    }
+
+    return {
+      data: null,
+      error: storageError(
+        'PGRST116',
+        'JSON object requested, multiple (or no) rows returned',
+        `The result contains ${rows.length} rows`
+      ),
+      count,
+      status: 406,
+      statusText: 'Not Acceptable'
+    };
+  }
+}
+
+function storageError(code: string, message: string, details?: string): StorageError {
+  return { code, message, details };
+}
+
+function isStorageError(error: unknown): error is StorageError {
+  return !!error && typeof error === 'object' && 'code' in error && 'message' in error && !(error instanceof Error);
+}
+
+/**
+ * Memory backend client exposing the supabase-js entry point the services use
+ */
+export class MemoryStorageClient {
+  constructor(private readonly store: MemoryStore) {}
+
+  from(table: string): MemoryQueryBuilder {
+    return new MemoryQueryBuilder(this.store, table);
+  }
+}
+
+// ==============================
+// Client Factory
+// ==============================
+
+// One store per snapshot file so every service in a process shares the same tables
+const memoryStores = new Map<string, MemoryStore>();
+
+function getMemoryStore(filePath?: string): MemoryStore {
+  const storeKey = filePath || ':memory:';
+  let store = memoryStores.get(storeKey);
+
+  if (!store) {
+    store = new MemoryStore(filePath);
+    memoryStores.set(storeKey, store);
+  }
+
+  return store;
+}
+
+/**
+ * The configured storage backend
+ */
+export function getStorageBackend(): StorageBackend {
+  return config.storage.backend;
+}
+
+/**
+ * Create a client for the configured storage backend. The Supabase backend uses the given
+ * URL and key, falling back to the database configuration; the memory backend ignores both.
+ * The memory client implements the query builder subset the services rely on, so it is
+ * typed as a SupabaseClient for callers.
+ */
+export function createStorageClient(options: StorageClientOptions = {}): SupabaseClient {
+  const { backend, file } = config.storage;
+
+  if (backend === 'memory') {
+    return new MemoryStorageClient(getMemoryStore(file)) as unknown as SupabaseClient;
+  }
+
+  const url = options.url || config.database.url;
+  const key = options.key || config.database.serviceRoleKey;
+
+  if (!url || !key) {
+    throw new Error('Missing database configuration (URL or authentication key)');
+  }
+
+  return createClient(url, key, {
+    auth: { persistSession: false },
+    db: { schema: 'public' }
+  });
+}
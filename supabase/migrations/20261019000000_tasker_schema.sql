@@ -0,0 +1,136 @@
+-- Schema the task executor and keystore rely on beyond their base tables.
+-- Every statement is idempotent, so the file can be applied to a database that already has some of it.
+-- New tables get row level security with no policies: only the service role, which every service uses, reaches them.
+
+-- ==============================
+-- Task versions and settings
+-- ==============================
+
+-- Every published body of a task function, once per content hash
+create table if not exists task_function_versions (
+  id bigint generated by default as identity primary key,
+  task_function_id bigint not null references task_functions (id) on delete cascade,
+  task_name text not null,
+  version text not null,
+  content_hash text not null,
+  code text not null,
+  description text,
+  created_at timestamptz not null default now(),
+  -- A concurrent publish of the same label or content fails with 23505, answered with 409
+  unique (task_function_id, version),
+  unique (task_function_id, content_hash)
+);
+
+alter table task_function_versions enable row level security;
+
+-- The version new runs start on, and the permissions and limits runs pin when they start
+alter table task_functions add column if not exists current_version_id bigint references task_function_versions (id);
+alter table task_functions add column if not exists permissions jsonb;
+alter table task_functions add column if not exists limits jsonb;
+
+-- The version a run started with; its resumes never pick up code published since
+alter table task_runs add column if not exists task_function_version_id bigint references task_function_versions (id);
+
+-- ==============================
+-- Idempotent submission
+-- ==============================
+
+alter table task_runs add column if not exists idempotency_key text;
+
+-- At most one task run holds a key. A concurrent submission with the same key fails with 23505 and
+-- replays the run that won; runs without a key, and keys released after the retention window, are null.
+create unique index if not exists task_runs_idempotency_key_key
+  on task_runs (idempotency_key)
+  where idempotency_key is not null;
+
+-- ==============================
+-- Stack runs: timers, signals and retries
+-- ==============================
+
+alter table stack_runs add column if not exists resume_at timestamptz;
+alter table stack_runs add column if not exists waiting_signals text[];
+alter table stack_runs add column if not exists attempt integer not null default 0;
+alter table stack_runs add column if not exists next_attempt_at timestamptz;
+alter table stack_runs add column if not exists retry_policy jsonb;
+alter table stack_runs add column if not exists error_type text;
+alter table stack_runs add column if not exists error_details jsonb;
+
+-- Polled by the timer sweep for suspended runs that are due
+create index if not exists stack_runs_resume_at_idx
+  on stack_runs (resume_at)
+  where resume_at is not null;
+
+-- ==============================
+-- Task logs
+-- ==============================
+
+create table if not exists task_logs (
+  id bigint generated by default as identity primary key,
+  task_run_id bigint not null references task_runs (id) on delete cascade,
+  stack_run_id bigint references stack_runs (id) on delete set null,
+  level text not null check (level in ('debug', 'info', 'warn', 'error')),
+  message text not null,
+  logged_at timestamptz not null default now()
+);
+
+-- /tasks/logs pages through one run's entries by id
+create index if not exists task_logs_task_run_id_id_idx on task_logs (task_run_id, id);
+
+alter table task_logs enable row level security;
+
+-- ==============================
+-- Keystore
+-- ==============================
+
+-- version is null for entries written before versioning; key_version and data_key are null for plaintext entries
+alter table keystore add column if not exists version integer;
+alter table keystore add column if not exists expires_at timestamptz;
+alter table keystore add column if not exists data_key text;
+alter table keystore add column if not exists key_version integer;
+
+-- A key name is unique within its namespace. setKey's upsert (on conflict scope, key_name) and
+-- renameKey's 23505 mapping depend on it. A unique constraint on key_name alone, left from before
+-- namespaces, must be dropped so the same name can exist in several namespaces.
+create unique index if not exists keystore_scope_key_name_key on keystore (scope, key_name);
+
+-- Read by sweepExpiredKeys
+create index if not exists keystore_expires_at_idx
+  on keystore (expires_at)
+  where expires_at is not null;
+
+-- Every recorded version of a key, sealed like the live entry
+create table if not exists keystore_history (
+  id bigint generated by default as identity primary key,
+  scope text not null,
+  key_name text not null,
+  version integer not null,
+  key_value text not null,
+  data_key text,
+  key_version integer,
+  expires_at timestamptz,
+  fingerprint text not null,
+  caller text not null,
+  caller_hint text,
+  created_at timestamptz not null default now(),
+  unique (scope, key_name, version)
+);
+
+alter table keystore_history enable row level security;
+
+-- Who changed which key and how; values appear only as fingerprints
+create table if not exists keystore_audit (
+  id bigint generated by default as identity primary key,
+  action text not null check (action in ('set', 'increment', 'rollback', 'delete', 'rename', 'expire')),
+  scope text not null,
+  key_name text not null,
+  version integer,
+  fingerprint text,
+  caller text not null,
+  caller_hint text,
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists keystore_audit_scope_created_at_idx on keystore_audit (scope, created_at);
+
+alter table keystore_audit enable row level security;